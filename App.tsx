@@ -1,16 +1,28 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import type { GenerateContentResponse } from '@google/genai';
-import { CanvasEditor, type CanvasEditorRef } from './components/CanvasEditor';
+import { CanvasEditor, EMPTY_MASK_HISTORY, type CanvasEditorRef } from './components/CanvasEditor';
 import { QuickPrompts } from './components/QuickPrompts';
 import { Toolbar } from './components/Toolbar';
 import { ThumbnailManager } from './components/ThumbnailManager';
+import { ResultDisplay } from './components/ResultDisplay';
+import { HistoryPanel } from './components/HistoryPanel';
+import { MetadataPanel } from './components/MetadataPanel';
+import { BatchPanel } from './components/BatchPanel';
+import { JobsPanel } from './components/JobsPanel';
+import { ProjectSwitcher } from './components/ProjectSwitcher';
+import { AdminConsole } from './components/AdminConsole';
 import { UploadIcon, SparklesIcon, RedrawIcon, DownloadIcon, EditIcon, ImageIcon, InstallIcon, ZoomInIcon, ZoomOutIcon, ArrowsPointingOutIcon, CompareIcon, ArrowUpIcon, ArrowDownIcon, ArrowLeftIcon, ArrowRightIcon, RotateCcwIcon, RotateCwIcon, MagicWandIcon, UserCircleIcon, PlusIcon, CloseIcon, ShareIcon } from './components/Icons';
-import { editImageWithGemini, generateImageWithGemini3, refinePrompt } from './services/geminiService';
-import type { ApiResult, Language, UploadedImage, GeminiImagePart, TFunction, ImageResolution, UserProfile, FirebaseConfig } from './types';
+import { getImageProvider, getImageProviderId, setImageProviderId, listImageProviders, setMockProvidersEnabled, getClosestAspectRatio } from './services/imageProvider';
+import { enqueueJob, cancelJob } from './services/jobQueue';
+import { loadHistory, saveHistoryNode, deleteHistoryNodes, clearHistory, collectSubtree, getTextToImageHistoryKey } from './services/historyService';
+import { listProjects, createProject, renameProject, deleteProject, getActiveProjectId, setActiveProjectId as storeActiveProjectId, loadProjectImages, saveProjectImage, deleteProjectImage, saveImageOrder, saveQuickPrompts, dataUrlToBlob } from './services/workspaceStorage';
+import type { ApiResult, Language, UploadedImage, GeminiImagePart, TFunction, ImageResolution, UserProfile, FirebaseConfig, AspectRatio, ImageProviderId, HistoryNode, WorkspaceProject, PricingConfig, PaidImageOperationRunner, MaskHistory, EditDocument, ImageMetadata } from './types';
 import { translations } from './lib/translations';
 import { LayoutEditor } from './components/LayoutEditor';
 import { PhotoEditor } from './components/PhotoEditor';
-import { initializeFirebase, isFirebaseConfigured, login, register, logout, getUserProfile, deductCredits, addCreditsByEmail, getAuthInstance } from './services/firebaseService';
+import { initializeFirebase, isFirebaseConfigured, login, register, logout, getUserProfile, getAuthInstance } from './services/firebaseService';
+import { runWithReservation } from './services/creditLedger';
+import { readUploadedFile } from './services/imageMetadata';
+import { loadPricing, savePricing, getImageOperationCost, getVariantRate, DEFAULT_PRICING } from './services/pricingService';
 import { onAuthStateChanged } from 'firebase/auth';
 
 // This interface is not part of the standard DOM library yet.
@@ -145,7 +157,6 @@ const LaunchScreen: React.FC<{ onConnect: () => void; t: TFunction }> = ({ onCon
 
 const SetupScreen: React.FC<{ onSave: (config: FirebaseConfig) => void; t: TFunction }> = ({ onSave, t }) => {
     const [configStr, setConfigStr] = useState('');
-    const [adminEmail, setAdminEmail] = useState('');
 
     const handleSubmit = () => {
         try {
@@ -197,13 +208,13 @@ const SetupScreen: React.FC<{ onSave: (config: FirebaseConfig) => void; t: TFunc
                      return;
                 }
                 
-                onSave({ ...configObj, adminEmail });
+                onSave(configObj);
             } else {
                 // Fallback: Try parsing as pure JSON
                 try {
                      const json = JSON.parse(clean);
                      if (json.apiKey) {
-                         onSave({ ...json, adminEmail });
+                         onSave(json);
                          return;
                      }
                 } catch (e) {
@@ -242,18 +253,11 @@ const SetupScreen: React.FC<{ onSave: (config: FirebaseConfig) => void; t: TFunc
                 <h2 className="text-2xl font-bold text-white mb-4">{t('setupTitle')}</h2>
                 <p className="text-gray-400 mb-4 text-sm">{t('setupDescription')}</p>
                 <textarea
-                    className="w-full h-48 bg-gray-900 text-gray-200 p-3 rounded-lg border border-gray-600 mb-4 font-mono text-xs"
+                    className="w-full h-48 bg-gray-900 text-gray-200 p-3 rounded-lg border border-gray-600 mb-6 font-mono text-xs"
                     placeholder={t('firebaseConfigPlaceholder')}
                     value={configStr}
                     onChange={(e) => setConfigStr(e.target.value)}
                 />
-                <input 
-                    type="email"
-                    className="w-full bg-gray-900 text-gray-200 p-3 rounded-lg border border-gray-600 mb-6"
-                    placeholder={t('adminEmailPlaceholder')}
-                    value={adminEmail}
-                    onChange={(e) => setAdminEmail(e.target.value)}
-                />
                 <div className="flex gap-2">
                     <button
                         onClick={handleSubmit}
@@ -274,6 +278,99 @@ const SetupScreen: React.FC<{ onSave: (config: FirebaseConfig) => void; t: TFunc
     );
 };
 
+// Keep in sync with firestore.rules
+const FIRESTORE_RULES = `rules_version = '2';
+service cloud.firestore {
+  match /databases/{database}/documents {
+    // Admin rights live on the user document; only admins can grant them
+    function isAdmin() {
+      return request.auth != null
+        && get(/databases/\$(database)/documents/users/\$(request.auth.uid)).data.get('role', 'user') == 'admin';
+    }
+
+    function isOwner(userId) {
+      return request.auth != null && request.auth.uid == userId;
+    }
+
+    function userPath(userId) {
+      return /databases/\$(database)/documents/users/\$(userId);
+    }
+
+    // SIGNUP_CREDITS in services/firebaseService.ts
+    function signupCredits() {
+      return 20;
+    }
+
+    // The user update lowers the balance by exactly the amount of the new debit
+    // entry written in the same batch, which it names in lastEntryId
+    function isMatchedDebit(userId) {
+      let entryPath = /databases/\$(database)/documents/users/\$(userId)/transactions/\$(request.resource.data.lastEntryId);
+      let entry = getAfter(entryPath).data;
+      return !exists(entryPath)
+        && entry.type == 'debit'
+        && entry.amount is number
+        && entry.amount > 0
+        && request.resource.data.credits == resource.data.get('credits', 0) - entry.amount
+        && entry.balanceAfter == request.resource.data.credits;
+    }
+
+    // The debit entry's side of isMatchedDebit. Debits start out pending; only
+    // the refundCredits Cloud Function can mark one refunded
+    function isOwnDebit(userId, entryId) {
+      let user = getAfter(userPath(userId)).data;
+      return request.resource.data.type == 'debit'
+        && request.resource.data.reason in ['generate', 'edit', 'remove', 'segment', 'refine']
+        && request.resource.data.status == 'pending'
+        && user.get('lastEntryId', null) == entryId
+        && user.credits == request.resource.data.balanceAfter;
+    }
+
+    // The starting credits, written in the same batch that creates the profile
+    function isSignupCredit(userId) {
+      return !exists(userPath(userId))
+        && getAfter(userPath(userId)).data.credits == signupCredits()
+        && request.resource.data.type == 'credit'
+        && request.resource.data.reason == 'signup'
+        && request.resource.data.amount == signupCredits()
+        && request.resource.data.balanceAfter == signupCredits();
+    }
+
+    match /users/{userId} {
+      allow read: if isOwner(userId) || isAdmin();
+      allow create: if isOwner(userId)
+        && request.resource.data.credits == signupCredits()
+        && request.resource.data.get('role', 'user') == 'user'
+        && request.resource.data.get('suspended', false) == false;
+      // Users can only spend: every change to their balance is a decrease backed
+      // by a debit entry. Credits are added by admins or by the refundCredits
+      // Cloud Function. Suspended balances are frozen.
+      allow update: if isAdmin() || (
+        isOwner(userId)
+        && resource.data.get('suspended', false) == false
+        && request.resource.data.diff(resource.data).affectedKeys().hasOnly(['credits', 'lastEntryId'])
+        && request.resource.data.credits >= 0
+        && isMatchedDebit(userId)
+      );
+
+      // Append-only ledger: entries are never edited or deleted
+      match /transactions/{transactionId} {
+        allow read: if isOwner(userId) || isAdmin();
+        allow create: if isAdmin() || (
+          isOwner(userId)
+          && request.resource.data.createdAt == request.time
+          && (isOwnDebit(userId, transactionId) || isSignupCredit(userId))
+        );
+      }
+    }
+
+    // Shared settings such as config/pricing, edited from the admin panel
+    match /config/{configId} {
+      allow read: if request.auth != null;
+      allow write: if isAdmin();
+    }
+  }
+}`;
+
 const PermissionErrorModal: React.FC<{ onClose: () => void }> = ({ onClose }) => (
     <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
         <div className="bg-gray-800 rounded-xl shadow-2xl max-w-lg w-full border border-red-500/50 p-6">
@@ -285,20 +382,13 @@ const PermissionErrorModal: React.FC<{ onClose: () => void }> = ({ onClose }) =>
                 The app cannot read/write to the database. This usually means the Firestore Rules are not set correctly.
             </p>
             <ol className="list-decimal list-inside text-gray-400 text-sm mb-4 space-y-2">
-                <li>Go to <a href="https://console.firebase.google.com/" target="_blank" className="text-blue-400 hover:underline">Firebase Console</a> > Firestore Database.</li>
+                <li>Go to <a href="https://console.firebase.google.com/" target="_blank" className="text-blue-400 hover:underline">Firebase Console</a> {'>'} Firestore Database.</li>
                 <li>Click the <strong>Rules</strong> tab.</li>
                 <li>Replace the code with this:</li>
             </ol>
-            <div className="bg-black p-3 rounded-md font-mono text-xs text-green-400 overflow-x-auto mb-4 border border-gray-700">
-                rules_version = '2';<br/>
-                service cloud.firestore {'{'}<br/>
-                &nbsp;&nbsp;match /databases/{'{'}database{'}'}/documents {'{'}<br/>
-                &nbsp;&nbsp;&nbsp;&nbsp;match /users/{'{'}userId{'}'} {'{'}<br/>
-                &nbsp;&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;allow read, write: if request.auth != null;<br/>
-                &nbsp;&nbsp;&nbsp;&nbsp;{'}'}<br/>
-                &nbsp;&nbsp;{'}'}<br/>
-                {'}'}
-            </div>
+            <pre className="bg-black p-3 rounded-md font-mono text-xs text-green-400 overflow-auto max-h-64 mb-4 border border-gray-700">
+                {FIRESTORE_RULES}
+            </pre>
             <button onClick={onClose} className="w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 rounded-lg">
                 I Fixed It, Try Again
             </button>
@@ -306,6 +396,18 @@ const PermissionErrorModal: React.FC<{ onClose: () => void }> = ({ onClose }) =>
     </div>
 );
 
+const SuspendedScreen: React.FC<{ t: TFunction }> = ({ t }) => (
+    <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
+        <div className="bg-gray-800 p-8 rounded-2xl shadow-xl w-full max-w-md border border-red-500/50 text-center">
+            <h2 className="text-2xl font-bold text-red-400 mb-4">{t('accountSuspendedTitle')}</h2>
+            <p className="text-gray-300 mb-6">{t('accountSuspendedMessage')}</p>
+            <button onClick={() => logout()} className="w-full py-3 bg-gray-700 hover:bg-gray-600 text-white font-bold rounded-lg">
+                {t('logoutButton')}
+            </button>
+        </div>
+    </div>
+);
+
 const AuthScreen: React.FC<{ t: TFunction; onAuthSuccess: () => void }> = ({ t, onAuthSuccess }) => {
     const [isRegistering, setIsRegistering] = useState(false);
     const [email, setEmail] = useState('');
@@ -389,20 +491,38 @@ const AuthScreen: React.FC<{ t: TFunction; onAuthSuccess: () => void }> = ({ t,
     )
 }
 
-const getClosestAspectRatio = (width: number, height: number): '1:1' | '16:9' | '9:16' | '4:3' | '3:4' => {
-    const ratio = width / height;
-    const targets = [
-        { r: 1, val: '1:1' as const },
-        { r: 16/9, val: '16:9' as const },
-        { r: 9/16, val: '9:16' as const },
-        { r: 4/3, val: '4:3' as const },
-        { r: 3/4, val: '3:4' as const }
-    ];
-    // Find closest
-    return targets.reduce((prev, curr) => 
-        Math.abs(curr.r - ratio) < Math.abs(prev.r - ratio) ? curr : prev
-    ).val;
-}
+const EMPTY_RESULT: ApiResult = { text: null, imageUrl: null, variants: [] };
+
+const loadImageSize = (dataUrl: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error('INVALID_IMAGE'));
+    img.src = dataUrl;
+  });
+
+// Whether a PhotoEditor save left every pixel where it was: no crop or resize
+// (the size is unchanged) and no new rotation or flip
+const keepsImageGeometry = async (before: UploadedImage, dataUrl: string, editDocument: EditDocument) => {
+  const previous = before.editDocument?.transforms ?? { rotate: 0, scaleX: 1, scaleY: 1 };
+  const { transforms } = editDocument;
+  if (transforms.rotate !== previous.rotate || transforms.scaleX !== previous.scaleX || transforms.scaleY !== previous.scaleY) {
+    return false;
+  }
+  try {
+    const [oldSize, newSize] = await Promise.all([loadImageSize(before.dataUrl), loadImageSize(dataUrl)]);
+    return oldSize.width === newSize.width && oldSize.height === newSize.height;
+  } catch {
+    return false;
+  }
+};
+
+// 3:2 and 2:3 are offered in the UI but not by the image models
+const toProviderAspectRatio = (aspectRatio: string): AspectRatio => {
+    if (aspectRatio === '3:2') return '4:3';
+    if (aspectRatio === '2:3') return '3:4';
+    return aspectRatio as AspectRatio;
+};
 
 const App: React.FC = () => {
   const [lang, setLang] = useState<Language>('zh');
@@ -411,17 +531,32 @@ const App: React.FC = () => {
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   
   // App State
+  const [projects, setProjects] = useState<WorkspaceProject[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [isWorkspaceLoading, setIsWorkspaceLoading] = useState<boolean>(true);
+  const [hasCustomQuickPrompts, setHasCustomQuickPrompts] = useState<boolean>(false);
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
   const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
   const [brushSize, setBrushSize] = useState<number>(10);
   const [brushColor, setBrushColor] = useState<string>('#ef4444');
+  const [isErasing, setIsErasing] = useState<boolean>(false);
+  // Mask strokes per uploaded image, kept while the canvas is hidden behind a result
+  const [maskHistories, setMaskHistories] = useState<Record<string, MaskHistory>>({});
   const [prompt, setPrompt] = useState<string>('');
   const [aspectRatio, setAspectRatio] = useState<string>('3:2');
   const [resolution, setResolution] = useState<ImageResolution>('2K');
+  const [providerId, setProviderId] = useState<ImageProviderId>(getImageProviderId);
+  const [availableProviders, setAvailableProviders] = useState(listImageProviders);
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [pricing, setPricing] = useState<PricingConfig>(DEFAULT_PRICING);
   const [allQuickPrompts, setAllQuickPrompts] = useState<Record<string, string[]>>({});
-  const [apiResult, setApiResult] = useState<ApiResult>({ text: null, imageUrl: null });
+  const [apiResult, setApiResult] = useState<ApiResult>(EMPTY_RESULT);
+  const [historyNodes, setHistoryNodes] = useState<HistoryNode[]>([]);
+  const [currentNodeId, setCurrentNodeId] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [isRefining, setIsRefining] = useState<boolean>(false);
+  // Queue job of the running generation, cancelled from the button under Generate
+  const [generateJobId, setGenerateJobId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   
   const [zoom, setZoom] = useState(1);
@@ -429,11 +564,10 @@ const App: React.FC = () => {
   const [isPanning, setIsPanning] = useState(false);
   const [isComparing, setIsComparing] = useState<boolean>(false);
   const [isLayoutEditorOpen, setIsLayoutEditorOpen] = useState(false);
+  const [batchSelection, setBatchSelection] = useState<string[]>([]);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
   const [editingImage, setEditingImage] = useState<UploadedImage | null>(null);
   const [isAdminPanelOpen, setIsAdminPanelOpen] = useState(false);
-  const [creditTargetEmail, setCreditTargetEmail] = useState('');
-  const [creditAmount, setCreditAmount] = useState(50);
-  const [adminMsg, setAdminMsg] = useState('');
   const [showPermissionHelp, setShowPermissionHelp] = useState(false);
 
   const canvasRef = useRef<CanvasEditorRef>(null);
@@ -441,17 +575,164 @@ const App: React.FC = () => {
   const imageContainerRef = useRef<HTMLDivElement>(null);
   const panStartRef = useRef({ startX: 0, startY: 0, startPan: { x: 0, y: 0 } });
   const pinchStartRef = useRef<{ dist: number; mid: { x: number; y: number; }; zoom: number; pan: { x: number; y: number; }; } | null>(null);
+  // Image id -> dataUrl last written to IndexedDB, so only changed images are re-saved
+  const persistedImagesRef = useRef<Map<string, UploadedImage>>(new Map());
+  const persistedOrderRef = useRef<string>('');
 
   const t: TFunction = useCallback((key) => {
     return translations[lang][key] || translations.en[key];
   }, [lang]);
 
-  // Restore Quick Prompts initialization
+  // Restore Quick Prompts initialization (customised prompts are kept per project)
   useEffect(() => {
-    setAllQuickPrompts(translations[lang].defaultQuickPrompts);
-  }, [lang]);
+    if (!hasCustomQuickPrompts) setAllQuickPrompts(translations[lang].defaultQuickPrompts);
+  }, [lang, hasCustomQuickPrompts]);
+
+  const openProject = useCallback(async (project: WorkspaceProject) => {
+    setIsWorkspaceLoading(true);
+    setActiveProjectId(project.id);
+    storeActiveProjectId(project.id);
+    try {
+        const images = await loadProjectImages(project);
+        persistedImagesRef.current = new Map(images.map(img => [img.id, img]));
+        persistedOrderRef.current = images.map(img => img.id).join('|');
+        setUploadedImages(images);
+        setSelectedImageId(images.length > 0 ? images[0].id : null);
+        setMaskHistories({});
+        setBatchSelection([]);
+        setHasCustomQuickPrompts(!!project.quickPrompts);
+        if (project.quickPrompts) setAllQuickPrompts(project.quickPrompts);
+    } catch (e) {
+        console.error("Failed to load project", e);
+        persistedImagesRef.current = new Map();
+        persistedOrderRef.current = '';
+        setUploadedImages([]);
+        setSelectedImageId(null);
+    } finally {
+        setApiResult(EMPTY_RESULT);
+        setError(null);
+        setIsWorkspaceLoading(false);
+    }
+  }, []);
+
+  // Restore the workspace from IndexedDB on startup
+  useEffect(() => {
+    const restoreWorkspace = async () => {
+        try {
+            let stored = await listProjects();
+            if (stored.length === 0) {
+                stored = [await createProject(translations[lang].defaultProjectName)];
+            }
+            setProjects(stored);
+            const lastActiveId = getActiveProjectId();
+            await openProject(stored.find(p => p.id === lastActiveId) || stored[0]);
+        } catch (e) {
+            // Private browsing or storage disabled: keep working in memory only
+            console.error("Failed to restore workspace", e);
+            setIsWorkspaceLoading(false);
+        }
+    };
+    restoreWorkspace();
+  }, []);
+
+  // Mirror image changes (uploads, PhotoEditor saves, metadata edits, deletes, reordering) into IndexedDB
+  useEffect(() => {
+    if (!activeProjectId || isWorkspaceLoading) return;
+    const persisted = persistedImagesRef.current;
+    const currentIds = new Set(uploadedImages.map(img => img.id));
+
+    uploadedImages.forEach(img => {
+        if (persisted.get(img.id) === img) return;
+        persisted.set(img.id, img);
+        saveProjectImage(activeProjectId, img).catch(e => console.error("Failed to save image", e));
+    });
+    [...persisted.keys()].filter(id => !currentIds.has(id)).forEach(id => {
+        persisted.delete(id);
+        deleteProjectImage(id).catch(e => console.error("Failed to delete image", e));
+    });
+    const imageOrder = uploadedImages.map(img => img.id);
+    if (imageOrder.join('|') === persistedOrderRef.current) return;
+    persistedOrderRef.current = imageOrder.join('|');
+    saveImageOrder(activeProjectId, imageOrder).catch(e => console.error("Failed to save image order", e));
+    setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, imageOrder } : p));
+  }, [uploadedImages, activeProjectId, isWorkspaceLoading]);
+
+  const handleSwitchProject = (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (project && id !== activeProjectId) openProject(project);
+  };
+
+  const handleCreateProject = async (name: string) => {
+    try {
+        const project = await createProject(name);
+        setProjects(prev => [...prev, project]);
+        await openProject(project);
+    } catch (e) {
+        console.error("Failed to create project", e);
+    }
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, name } : p));
+    renameProject(id, name).catch(e => console.error("Failed to rename project", e));
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    const remaining = projects.filter(p => p.id !== id);
+    if (remaining.length === 0) return;
+    try {
+        await deleteProject(id, [getTextToImageHistoryKey(id)]);
+        setProjects(remaining);
+        if (id === activeProjectId) await openProject(remaining[0]);
+    } catch (e) {
+        console.error("Failed to delete project", e);
+    }
+  };
+
+  const handleQuickPromptsChange = (prompts: Record<string, string[]>) => {
+    setAllQuickPrompts(prompts);
+    setHasCustomQuickPrompts(true);
+    if (activeProjectId) {
+        setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, quickPrompts: prompts } : p));
+        saveQuickPrompts(activeProjectId, prompts).catch(e => console.error("Failed to save quick prompts", e));
+    }
+  };
 
   const selectedImage = uploadedImages.find(img => img.id === selectedImageId) || null;
+  const maskHistory = (selectedImageId && maskHistories[selectedImageId]) || EMPTY_MASK_HISTORY;
+
+  const handleMaskHistoryChange = useCallback((history: MaskHistory) => {
+    if (selectedImageId) setMaskHistories(prev => ({ ...prev, [selectedImageId]: history }));
+  }, [selectedImageId]);
+  const provider = getImageProvider(providerId);
+  const historyKey = selectedImageId ?? getTextToImageHistoryKey(activeProjectId ?? '');
+
+  // Load the generation tree of the image being worked on
+  useEffect(() => {
+    let cancelled = false;
+    setHistoryNodes([]);
+    setCurrentNodeId(null);
+    loadHistory(historyKey)
+        .then(nodes => { if (!cancelled) setHistoryNodes(nodes); })
+        .catch(e => console.error("Failed to load generation history", e));
+    return () => { cancelled = true; };
+  }, [historyKey]);
+
+  // The offline mock is for the team: admins get it in production builds too
+  const isAdmin = !!userProfile?.isAdmin;
+  useEffect(() => {
+    setMockProvidersEnabled(isAdmin);
+    setAvailableProviders(listImageProviders());
+    setProviderId(getImageProviderId());
+  }, [isAdmin]);
+
+  const handleProviderChange = (id: ImageProviderId) => {
+      setImageProviderId(id);
+      setProviderId(id);
+      const { resolutions } = getImageProvider(id).capabilities;
+      if (!resolutions.includes(resolution)) setResolution(resolutions[0]);
+      setVariantCount(count => Math.min(count, getImageProvider(id).capabilities.maxVariants));
+  };
 
   // Init Firebase check
   useEffect(() => {
@@ -500,6 +781,9 @@ const App: React.FC = () => {
                 const profile = await getUserProfile(user.uid);
                 setUserProfile(profile);
                 setAppState('app');
+                loadPricing()
+                    .then(setPricing)
+                    .catch(err => console.error("Failed to load pricing, using defaults", err));
             } catch (e: any) {
                 console.error("Failed to get profile:", e);
                 if (e.code === 'permission-denied' || e.message?.includes('Missing or insufficient permissions')) {
@@ -549,22 +833,50 @@ const App: React.FC = () => {
       }
   };
 
-  const handleAdminAddCredits = async () => {
-      try {
-          await addCreditsByEmail(creditTargetEmail, Number(creditAmount));
-          setAdminMsg(t('creditsAddedSuccess'));
-          setCreditTargetEmail('');
-      } catch (e: any) {
-          if (e.code === 'permission-denied' || e.message?.includes('Missing or insufficient permissions')) {
-             setShowPermissionHelp(true);
-          }
-          setAdminMsg(t('creditsAddedError'));
-      }
+  const applyBalance = useCallback((credits: number) => {
+    setUserProfile(prev => prev ? { ...prev, credits } : null);
+  }, []);
+
+  // Admin grants may include the admin's own account
+  const handleAdminBalanceChange = useCallback((uid: string, credits: number) => {
+    setUserProfile(prev => prev && prev.uid === uid ? { ...prev, credits } : prev);
+  }, []);
+
+  const handlePermissionError = useCallback(() => setShowPermissionHelp(true), []);
+
+  // The ledger refuses debits once an admin suspends the account
+  const markSuspended = useCallback(() => {
+    setUserProfile(prev => prev ? { ...prev, suspended: true } : null);
+  }, []);
+
+  // Every paid image call (generate, edit, PhotoEditor remove) is priced and charged here
+  const runPaidImageOperation: PaidImageOperationRunner = useCallback(async (operation, imageResolution, count, run) => {
+    if (!userProfile) throw new Error('INSUFFICIENT_CREDITS');
+    // Placeholder images cost nothing
+    if (provider.capabilities.isMock) return run();
+    const cost = getImageOperationCost(pricing, operation, imageResolution, count);
+    // Variants that were produced are charged at the rate for the number produced
+    return runWithReservation(
+        userProfile.uid,
+        cost,
+        operation,
+        run,
+        result => cost - getImageOperationCost(pricing, operation, imageResolution, Math.min(count, result.variants.length)),
+        applyBalance
+    );
+  }, [userProfile, pricing, applyBalance, provider]);
+
+  const generationCost = provider.capabilities.isMock ? 0 : getImageOperationCost(pricing, selectedImage ? 'edit' : 'generate', resolution, variantCount);
+  const refineCost = provider.capabilities.isMock ? 0 : pricing.refine;
+
+  const handleSavePricing = async (next: PricingConfig) => {
+      await savePricing(next);
+      setPricing(next);
   };
 
   const handleRefinePrompt = async () => {
-    if (!prompt) return;
-    if (!userProfile || userProfile.credits < 5) {
+    if (!prompt || isRefining) return;
+    if (!userProfile || userProfile.credits < refineCost) {
         alert(t('notEnoughCredits'));
         return;
     }
@@ -584,13 +896,23 @@ const App: React.FC = () => {
     }
 
     try {
-        await deductCredits(userProfile.uid, 5);
-        setUserProfile(prev => prev ? { ...prev, credits: prev.credits - 5 } : null);
-        const enhancedPrompt = await refinePrompt(prompt, imagePart, lang);
+        const enhancedPrompt = await runWithReservation(
+            userProfile.uid,
+            refineCost,
+            'refine',
+            () => enqueueJob(t('jobRefineLabel'), signal => provider.refine(prompt, imagePart, lang, signal)).promise,
+            // Providers fall back to the original prompt when refining fails
+            enhanced => enhanced === prompt ? refineCost : 0,
+            applyBalance
+        );
         setPrompt(enhancedPrompt);
     } catch (e: any) {
         console.error("Refine prompt failed", e);
-        if (e.code === 'permission-denied' || e.message?.includes('Missing or insufficient permissions')) {
+        if (e.message === 'INSUFFICIENT_CREDITS') {
+            alert(t('notEnoughCredits'));
+        } else if (e.message === 'ACCOUNT_SUSPENDED') {
+            markSuspended();
+        } else if (e.code === 'permission-denied' || e.message?.includes('Missing or insufficient permissions')) {
             setShowPermissionHelp(true);
         }
     } finally {
@@ -599,49 +921,41 @@ const App: React.FC = () => {
   };
 
   const handleGenerate = useCallback(async () => {
+    if (loading) return;
     if (!prompt) {
       setError('Please enter a prompt.');
       return;
     }
-    if (!userProfile || userProfile.credits < 5) {
+    if (!userProfile || userProfile.credits < generationCost) {
         setError(t('notEnoughCredits'));
         return;
     }
 
-    // Capture canvas data BEFORE async operations/state updates unmount the component
-    let capturedCanvasData: string | null = null;
-    if (selectedImage && !apiResult.imageUrl) {
-        if (canvasRef.current) {
-             capturedCanvasData = canvasRef.current.toDataURL(selectedImage.file.type);
-        } else {
-             // Fallback to original image if canvas is not ready (e.g. strict mode or rapid clicking)
-             console.warn("Canvas not ready, using original image");
-             capturedCanvasData = selectedImage.dataUrl;
-        }
-    }
+    // Capture the painted mask BEFORE async operations/state updates unmount the canvas
+    const capturedMask = selectedImage && !apiResult.imageUrl ? canvasRef.current?.getMask() ?? null : null;
 
+    const previousResult = apiResult;
     const previousResultUrl = apiResult.imageUrl;
+    const referencedImageIds: string[] = [];
     setLoading(true);
     setError(null);
-    setApiResult({ text: null, imageUrl: null });
+    setApiResult(EMPTY_RESULT);
+
+    const runJob = (label: string, run: (signal: AbortSignal) => Promise<ApiResult>) => {
+      const job = enqueueJob(label, run);
+      setGenerateJobId(job.id);
+      return job.promise;
+    };
 
     try {
-      // Deduct credits first
-      await deductCredits(userProfile.uid, 5);
-      setUserProfile(prev => prev ? { ...prev, credits: prev.credits - 5 } : null);
-
-      let effectiveAspectRatio: '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
-      if (aspectRatio === '3:2') {
-           effectiveAspectRatio = '4:3';
-      } else if (aspectRatio === '2:3') {
-           effectiveAspectRatio = '3:4';
-      } else {
-           effectiveAspectRatio = aspectRatio as any;
-      }
+      let result: ApiResult;
+
+      const effectiveAspectRatio = toProviderAspectRatio(aspectRatio);
 
       if (!selectedImage) {
-        const imageUrl = await generateImageWithGemini3(prompt, effectiveAspectRatio, resolution);
-        setApiResult({ text: null, imageUrl });
+        result = await runPaidImageOperation('generate', resolution, variantCount, () =>
+          runJob(t('jobGenerateLabel'), signal => provider.generate({ prompt, aspectRatio: effectiveAspectRatio, resolution, variantCount, signal }))
+        );
       } else {
         let baseImagePart: GeminiImagePart;
         if (previousResultUrl) {
@@ -650,13 +964,12 @@ const App: React.FC = () => {
             const mimeType = header.match(/:(.*?);/)?.[1] || 'image/png';
             baseImagePart = { base64Data, mimeType };
         } else {
-            // Use captured data
-            if (!capturedCanvasData) {
-               throw new Error('Canvas data missing.');
-            }
-            const base64Data = capturedCanvasData.split(',')[1];
-            baseImagePart = { base64Data, mimeType: selectedImage.file.type };
+            // The source stays clean; the brush strokes go separately as the mask
+            baseImagePart = { base64Data: selectedImage.dataUrl.split(',')[1], mimeType: selectedImage.file.type };
         }
+        const maskPart: GeminiImagePart | undefined = capturedMask
+            ? { base64Data: capturedMask.split(',')[1], mimeType: 'image/png' }
+            : undefined;
         
         const imagesToSend: GeminiImagePart[] = [baseImagePart];
         const imageReferenceKeyword = t('imageReference');
@@ -674,47 +987,59 @@ const App: React.FC = () => {
           if (index !== selectedIndex) {
             const referencedImage = uploadedImages[index];
             if (referencedImage) {
+              referencedImageIds.push(referencedImage.id);
               const referencedBase64 = referencedImage.dataUrl.split(',')[1];
               imagesToSend.push({ base64Data: referencedBase64, mimeType: referencedImage.file.type });
             }
           }
         });
         
-        const finalPrompt = `${prompt}\n\n${t('instructionalPrompt')}`;
-        const response: GenerateContentResponse = await editImageWithGemini(
-          imagesToSend,
-          finalPrompt,
-          resolution,
-          effectiveAspectRatio
+        result = await runPaidImageOperation('edit', resolution, variantCount, () =>
+          runJob(t('jobEditLabel'), signal => provider.edit({
+            images: imagesToSend,
+            mask: maskPart,
+            prompt,
+            resolution,
+            aspectRatio: effectiveAspectRatio,
+            variantCount,
+            signal
+          }))
         );
-        
-        let resultText = '';
-        let resultImageUrl = '';
-        if (response.candidates && response.candidates[0] && response.candidates[0].content && response.candidates[0].content.parts) {
-          for (const part of response.candidates[0].content.parts) {
-            if (part.text) {
-              resultText += part.text + '\n';
-            } else if (part.inlineData) {
-              resultImageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-            }
-          }
-        } else {
-          throw new Error('Invalid response structure from API.');
-        }
-        setApiResult({ text: resultText.trim(), imageUrl: resultImageUrl });
       }
+      setApiResult(result);
+
+      const node: HistoryNode = {
+        id: `node-${Date.now()}`,
+        imageKey: historyKey,
+        // Editing a shown result continues that branch; otherwise start from the source
+        parentId: previousResultUrl ? currentNodeId : null,
+        params: { prompt, resolution, aspectRatio: effectiveAspectRatio, variantCount, providerId, referencedImageIds },
+        result,
+        createdAt: Date.now(),
+      };
+      setHistoryNodes(prev => [...prev, node]);
+      setCurrentNodeId(node.id);
+      saveHistoryNode(node).catch(err => console.error("Failed to save generation history", err));
     } catch (e: any) {
       console.error(e);
       // Catch Firestore Permission Error
       if (e.code === 'permission-denied' || e.message?.includes('Missing or insufficient permissions')) {
           setShowPermissionHelp(true);
           setLoading(false);
-          setApiResult({ text: null, imageUrl: previousResultUrl });
+          setApiResult(previousResult);
           return;
       }
 
       const errorMessage = e instanceof Error ? e.message : 'An unexpected error occurred.';
-      if (errorMessage === 'RATE_LIMIT_EXCEEDED') {
+      if (errorMessage === 'CANCELLED') {
+        // Cancelled on purpose; the previous result comes back without an error
+      } else if (errorMessage === 'TIMEOUT') {
+        setError(t('jobTimeoutError'));
+      } else if (errorMessage === 'INSUFFICIENT_CREDITS') {
+        setError(t('notEnoughCredits'));
+      } else if (errorMessage === 'ACCOUNT_SUSPENDED') {
+        markSuspended();
+      } else if (errorMessage === 'RATE_LIMIT_EXCEEDED') {
         setError(t('rateLimitError'));
       } else if (errorMessage === 'PERMISSION_DENIED' || errorMessage.includes('403') || errorMessage.includes('PERMISSION_DENIED')) {
         setError('PERMISSION_DENIED_UI');
@@ -722,45 +1047,57 @@ const App: React.FC = () => {
       } else {
         setError(errorMessage);
       }
-      setApiResult({ text: null, imageUrl: previousResultUrl });
+      setApiResult(previousResult);
     } finally {
       setLoading(false);
+      setGenerateJobId(null);
     }
-  }, [selectedImage, prompt, uploadedImages, selectedImageId, t, apiResult.imageUrl, aspectRatio, resolution, userProfile]);
+  }, [loading, selectedImage, prompt, uploadedImages, selectedImageId, t, apiResult, aspectRatio, resolution, userProfile, provider, providerId, variantCount, historyKey, currentNodeId, generationCost, runPaidImageOperation, markSuspended]);
 
   // Image & Canvas Handlers (Same as before)
   const handleFiles = useCallback((files: FileList) => {
     const filesArray = Array.from(files).filter(file => file.type.startsWith('image/'));
     if (filesArray.length === 0) return;
-    const newImages: UploadedImage[] = [];
-    let loadedCount = 0;
-    filesArray.forEach(file => {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        newImages.push({ id: `${file.name}-${Date.now()}`, file, dataUrl: event.target?.result as string });
-        loadedCount++;
-        if (loadedCount === filesArray.length) {
-          setUploadedImages(prev => [...prev, ...newImages]);
-          if (!selectedImageId && newImages.length > 0) setSelectedImageId(newImages[0].id);
-        }
-      };
-      reader.readAsDataURL(file);
-    });
+    Promise.all(filesArray.map(async (file): Promise<UploadedImage> => {
+      const { dataUrl, metadata } = await readUploadedFile(file);
+      return { id: `${file.name}-${Date.now()}`, file, dataUrl, metadata: metadata ?? undefined };
+    })).then(newImages => {
+      setUploadedImages(prev => [...prev, ...newImages]);
+      if (!selectedImageId && newImages.length > 0) setSelectedImageId(newImages[0].id);
+    }).catch(e => console.error("Failed to read uploaded images", e));
   }, [selectedImageId]);
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => { if (e.target.files) { handleFiles(e.target.files); e.target.value = ''; } };
   const handleUploadClick = () => fileInputRef.current?.click();
-  const handleImageSelect = (id: string) => { if(id !== selectedImageId) { setSelectedImageId(id); setApiResult({ text: null, imageUrl: null }); setError(null); } }
+  const handleImageSelect = (id: string) => { if(id !== selectedImageId) { setSelectedImageId(id); setApiResult(EMPTY_RESULT); setError(null); } }
   const handleImageDelete = (id: string) => {
     setUploadedImages(prev => prev.filter(img => img.id !== id));
+    setBatchSelection(prev => prev.filter(x => x !== id));
+    clearHistory(id).catch(e => console.error("Failed to clear generation history", e));
     if (selectedImageId === id) {
         const remaining = uploadedImages.filter(img => img.id !== id);
         setSelectedImageId(remaining.length > 0 ? remaining[0].id : null);
-        setApiResult({ text: null, imageUrl: null });
+        setApiResult(EMPTY_RESULT);
         setError(null);
     }
   }
   const handleImageReorder = (reorderedImages: UploadedImage[]) => setUploadedImages(reorderedImages);
-  const handleClearResult = () => { setApiResult({ text: null, imageUrl: null }); setError(null); };
+  const handleClearResult = () => { setApiResult(EMPTY_RESULT); setCurrentNodeId(null); setError(null); };
+  const handleSelectVariant = (imageUrl: string) => {
+    setApiResult(prev => ({ ...prev, imageUrl }));
+    const node = historyNodes.find(n => n.id === currentNodeId);
+    if (node) {
+      const updated = { ...node, result: { ...node.result, imageUrl } };
+      setHistoryNodes(prev => prev.map(n => n.id === updated.id ? updated : n));
+      saveHistoryNode(updated).catch(e => console.error("Failed to save generation history", e));
+    }
+  };
+  const handleOpenHistoryNode = (node: HistoryNode) => { setApiResult(node.result); setCurrentNodeId(node.id); setError(null); };
+  const handleDeleteHistoryNode = (node: HistoryNode) => {
+    const ids = collectSubtree(historyNodes, node.id);
+    setHistoryNodes(prev => prev.filter(n => !ids.includes(n.id)));
+    if (currentNodeId && ids.includes(currentNodeId)) handleClearResult();
+    deleteHistoryNodes(ids).catch(e => console.error("Failed to delete generation history", e));
+  };
   
   // Reuse existing helpers
   const handlePanByControl = useCallback((dx: number, dy: number) => { setPan(p => ({ x: p.x + dx, y: p.y + dy })); }, []);
@@ -837,29 +1174,13 @@ const App: React.FC = () => {
       const blob = new Blob([arrayBuffer], { type: mimeString });
       const filename = `result-${Date.now()}.${extension}`;
       const file = new File([blob], filename, { type: mimeString });
-      const newImage: UploadedImage = { id: `${file.name}-${Date.now()}`, file, dataUrl: dataUrl };
+      const newImage: UploadedImage = { id: `${file.name}-${Date.now()}`, file, dataUrl: dataUrl, metadata: { aiGenerated: true } };
       setUploadedImages(prev => [...prev, newImage]);
       setSelectedImageId(newImage.id);
-      setApiResult({ text: null, imageUrl: null });
+      setApiResult(EMPTY_RESULT);
       setError(null);
     } catch (e) { console.error(e); setError("Could not load result image."); }
   };
-  const handleDownloadResult = () => {
-    if (!apiResult.imageUrl) return;
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width; canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.fillStyle = '#FFFFFF'; ctx.fillRect(0, 0, canvas.width, canvas.height); ctx.drawImage(img, 0, 0);
-        const link = document.createElement('a'); link.href = canvas.toDataURL('image/jpeg', 1.0); link.download = `ivan-ai-photo.jpg`;
-        document.body.appendChild(link); link.click(); document.body.removeChild(link);
-      }
-    };
-    img.src = apiResult.imageUrl;
-  };
-
   const handleLayoutComplete = (dataUrl: string) => {
       const mime = dataUrl.match(/:(.*?);/)?.[1] || 'image/png';
       const file = new File([new Blob([new Uint8Array(0)])], `layout-${Date.now()}`, { type: mime });
@@ -868,24 +1189,105 @@ const App: React.FC = () => {
       setSelectedImageId(newImage.id);
       setIsLayoutEditorOpen(false);
   }
+  const handleToggleBatchSelection = (id: string) =>
+    setBatchSelection(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+
+  // One image of a batch prompt run; recorded in that image's history like a normal edit
+  const runBatchPrompt = async (image: UploadedImage, batchPrompt: string, batchAspectRatio: string, batchResolution: ImageResolution, batchSignal: AbortSignal): Promise<string> => {
+    const effectiveAspectRatio = toProviderAspectRatio(batchAspectRatio);
+    let result: ApiResult;
+    try {
+      result = await runPaidImageOperation('edit', batchResolution, 1, () => {
+        const job = enqueueJob(`${t('jobBatchLabel')}: ${image.file.name}`, signal => provider.edit({
+          images: [{ base64Data: image.dataUrl.split(',')[1], mimeType: image.file.type }],
+          prompt: batchPrompt,
+          resolution: batchResolution,
+          aspectRatio: effectiveAspectRatio,
+          variantCount: 1,
+          signal
+        }));
+        // Cancelling the batch also cancels its queued and running calls
+        batchSignal.addEventListener('abort', () => cancelJob(job.id), { once: true });
+        return job.promise;
+      });
+    } catch (e) {
+      if (e instanceof Error && e.message === 'ACCOUNT_SUSPENDED') markSuspended();
+      throw e;
+    }
+    if (!result.imageUrl) throw new Error(result.text || 'API did not return an image.');
+
+    const node: HistoryNode = {
+      id: `node-${Date.now()}-${image.id}`,
+      imageKey: image.id,
+      parentId: null,
+      params: { prompt: batchPrompt, resolution: batchResolution, aspectRatio: effectiveAspectRatio, variantCount: 1, providerId, referencedImageIds: [] },
+      result,
+      createdAt: Date.now(),
+    };
+    saveHistoryNode(node).catch(e => console.error("Failed to save generation history", e));
+    if (image.id === historyKey) setHistoryNodes(prev => [...prev, node]);
+    return result.imageUrl;
+  };
+
+  const handleAddBatchResults = (results: { source: UploadedImage; dataUrl: string }[], aiGenerated: boolean) => {
+    const newImages = results.map(({ source, dataUrl }, index): UploadedImage => {
+      const blob = dataUrlToBlob(dataUrl);
+      const file = new File([blob], `batch-${source.file.name}`, { type: blob.type });
+      const metadata = aiGenerated ? { aiGenerated: true } : source.metadata;
+      return { id: `${file.name}-${Date.now()}-${index}`, file, dataUrl, metadata };
+    });
+    setUploadedImages(prev => [...prev, ...newImages]);
+    setIsBatchOpen(false);
+    setBatchSelection([]);
+  };
+
+  const handleMetadataChange = (id: string, metadata: ImageMetadata) => setUploadedImages(prev => prev.map(img => img.id === id ? { ...img, metadata } : img));
   const handleOpenPhotoEditor = (id: string) => { const img = uploadedImages.find(i => i.id === id); if (img) setEditingImage(img); };
-  const handleSavePhotoEditor = (id: string, dataUrl: string) => { setUploadedImages(prev => prev.map(img => img.id === id ? { ...img, dataUrl } : img)); setEditingImage(null); };
+  const handleSavePhotoEditor = async (id: string, dataUrl: string, editDocument: EditDocument) => {
+    const before = uploadedImages.find(img => img.id === id);
+    setUploadedImages(prev => prev.map(img => img.id === id ? { ...img, dataUrl, editDocument } : img));
+    setEditingImage(null);
+    // CanvasEditor masks are in the old image's pixel coordinates and would land
+    // in the wrong place once the pixels move
+    if (before && maskHistories[id] && !(await keepsImageGeometry(before, dataUrl, editDocument))) {
+      setMaskHistories(prev => {
+        const { [id]: _, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
 
   if (appState === 'setup') return <SetupScreen onSave={handleSetupSave} t={t} />;
   if (appState === 'auth') return <AuthScreen t={t} onAuthSuccess={() => {}} />;
-  if (!hasKey) return <LaunchScreen onConnect={handleConnectApiKey} t={t} />;
+  if (userProfile?.suspended) return <SuspendedScreen t={t} />;
+  if (!hasKey && provider.capabilities.requiresApiKey) return <LaunchScreen onConnect={handleConnectApiKey} t={t} />;
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-200 font-sans relative">
       {showPermissionHelp && <PermissionErrorModal onClose={() => setShowPermissionHelp(false)} />}
+      {isBatchOpen && (
+        <BatchPanel
+          images={uploadedImages.filter(img => batchSelection.includes(img.id))}
+          presetSources={uploadedImages.filter(img => img.editDocument)}
+          initialPrompt={prompt}
+          initialAspectRatio={aspectRatio}
+          initialResolution={resolution}
+          resolutions={provider.capabilities.resolutions}
+          getCost={res => getImageOperationCost(pricing, 'edit', res)}
+          runPrompt={runBatchPrompt}
+          onAddResults={handleAddBatchResults}
+          onClose={() => setIsBatchOpen(false)}
+          t={t}
+        />
+      )}
       {isLayoutEditorOpen && <LayoutEditor onComplete={handleLayoutComplete} onClose={() => setIsLayoutEditorOpen(false)} t={t} />}
-      {editingImage && <PhotoEditor image={editingImage} onSave={handleSavePhotoEditor} onClose={() => setEditingImage(null)} t={t} />}
+      {editingImage && <PhotoEditor image={editingImage} onSave={handleSavePhotoEditor} onClose={() => setEditingImage(null)} runPaidImageOperation={runPaidImageOperation} removeCost={getImageOperationCost(pricing, 'remove', '1K')} segmentCost={getImageOperationCost(pricing, 'segment', '1K')} t={t} />}
 
       <div className="container mx-auto p-4 lg:p-8">
         <header className="mb-8 flex flex-col md:flex-row justify-between items-center gap-4">
              <div className="text-center md:text-left">
                 <h1 className="text-4xl lg:text-5xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 via-pink-500 to-red-500">
-                    {t('title')} <span className="text-xs bg-gray-800 text-gray-400 px-2 py-1 rounded border border-gray-600 align-middle ml-2">Gemini 3</span>
+                    {t('title')} <span className="text-xs bg-gray-800 text-gray-400 px-2 py-1 rounded border border-gray-600 align-middle ml-2">{provider.capabilities.label}</span>
                 </h1>
                 <p className="text-gray-400 mt-2">{t('subtitle')}</p>
             </div>
@@ -899,6 +1301,16 @@ const App: React.FC = () => {
                 <button onClick={() => logout()} className="text-xs bg-red-900/50 hover:bg-red-900 text-red-200 px-2 py-1 rounded">
                     {t('logoutButton')}
                 </button>
+                {availableProviders.length > 1 && (
+                    <select
+                        value={providerId}
+                        onChange={(e) => handleProviderChange(e.target.value as ImageProviderId)}
+                        className="bg-gray-700 border border-gray-600 text-gray-200 text-xs rounded-md p-1"
+                        title={t('imageProviderLabel')}
+                    >
+                        {availableProviders.map(p => <option key={p.id} value={p.id}>{p.capabilities.label}</option>)}
+                    </select>
+                )}
                 <div className="flex gap-2 border-l border-gray-600 pl-4">
                     <button onClick={() => setLang('en')} className={`px-2 py-1 text-xs rounded-md ${lang === 'en' ? 'bg-purple-600 text-white' : 'bg-gray-700'}`}>EN</button>
                     <button onClick={() => setLang('zh')} className={`px-2 py-1 text-xs rounded-md ${lang === 'zh' ? 'bg-purple-600 text-white' : 'bg-gray-700'}`}>中文</button>
@@ -914,20 +1326,14 @@ const App: React.FC = () => {
                     <span className="text-xl">{isAdminPanelOpen ? '−' : '+'}</span>
                 </div>
                 {isAdminPanelOpen && (
-                    <div className="mt-4 flex flex-col md:flex-row gap-4 items-end">
-                        <div className="flex-grow">
-                            <label className="block text-xs text-gray-400 mb-1">{t('targetEmailLabel')}</label>
-                            <input type="email" value={creditTargetEmail} onChange={e => setCreditTargetEmail(e.target.value)} className="w-full bg-gray-800 border border-gray-600 rounded p-2 text-sm" />
-                        </div>
-                        <div className="w-32">
-                             <label className="block text-xs text-gray-400 mb-1">{t('amountLabel')}</label>
-                             <input type="number" value={creditAmount} onChange={e => setCreditAmount(Number(e.target.value))} className="w-full bg-gray-800 border border-gray-600 rounded p-2 text-sm" />
-                        </div>
-                        <button onClick={handleAdminAddCredits} className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded font-bold text-sm">
-                            {t('addCreditsButton')}
-                        </button>
-                        {adminMsg && <span className="text-sm text-green-400">{adminMsg}</span>}
-                    </div>
+                    <AdminConsole
+                        currentUid={userProfile.uid}
+                        pricing={pricing}
+                        onSavePricing={handleSavePricing}
+                        onBalanceChange={handleAdminBalanceChange}
+                        onPermissionError={handlePermissionError}
+                        t={t}
+                    />
                 )}
             </div>
         )}
@@ -948,32 +1354,14 @@ const App: React.FC = () => {
 
             {apiResult.imageUrl && !loading ? (
                 // Result View
-                 <div className="flex flex-col flex-grow w-full h-full min-h-[400px] justify-center items-center bg-gray-900/50 rounded-lg p-4 relative">
-                     <div className="relative w-full aspect-square bg-black rounded-lg overflow-hidden flex items-center justify-center">
-                        <img src={apiResult.imageUrl} alt="Generated result" className="w-full h-full object-contain" />
-                     </div>
-                     <div className="flex flex-wrap items-center justify-center gap-4 mt-4">
-                        <button
-                            onClick={handleEditResult}
-                            className="flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-6 rounded-lg transition-all duration-300 transform hover:scale-105"
-                        >
-                            <EditIcon className="w-5 h-5" />
-                            <span>{t('editResultButton')}</span>
-                        </button>
-                        <button
-                            onClick={handleDownloadResult}
-                            className="flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-6 rounded-lg transition-all duration-300 transform hover:scale-105"
-                        >
-                            <DownloadIcon className="w-5 h-5" />
-                            <span>{t('downloadButton')}</span>
-                        </button>
-                    </div>
-                     {apiResult.text && (
-                        <div className="w-full bg-gray-700/50 p-4 rounded-lg mt-4">
-                             <p className="text-gray-300 whitespace-pre-wrap">{apiResult.text}</p>
-                        </div>
-                     )}
-                 </div>
+                 <ResultDisplay
+                    loading={false}
+                    error={null}
+                    apiResult={apiResult}
+                    t={t}
+                    onEditResult={handleEditResult}
+                    onSelectVariant={handleSelectVariant}
+                 />
             ) : (
                 // Canvas View
                  <div className="relative w-full aspect-[4/3] bg-gray-900 rounded-lg overflow-hidden border-2 border-dashed border-gray-700 group cursor-crosshair">
@@ -1002,6 +1390,10 @@ const App: React.FC = () => {
                                 imageSrc={selectedImage.dataUrl}
                                 brushSize={brushSize}
                                 brushColor={brushColor}
+                                isErasing={isErasing}
+                                maskHistory={maskHistory}
+                                onMaskHistoryChange={handleMaskHistoryChange}
+                                shortcutsEnabled={!editingImage && !isLayoutEditorOpen && !isBatchOpen}
                             />
                         </div>
                     )}
@@ -1034,12 +1426,29 @@ const App: React.FC = () => {
                     brushSize={brushSize}
                     onBrushSizeChange={setBrushSize}
                     brushColor={brushColor}
-                    onBrushColorChange={setBrushColor}
+                    onBrushColorChange={(color) => { setBrushColor(color); setIsErasing(false); }}
+                    isErasing={isErasing}
+                    onEraserToggle={() => setIsErasing(erasing => !erasing)}
+                    onUndo={() => canvasRef.current?.undo()}
+                    onRedo={() => canvasRef.current?.redo()}
+                    canUndo={maskHistory.past.length > 0}
+                    canRedo={maskHistory.future.length > 0}
                     onClear={() => canvasRef.current?.reset()}
                     t={t}
                 />
             )}
             
+            <ProjectSwitcher
+                projects={projects}
+                activeProjectId={activeProjectId}
+                disabled={isWorkspaceLoading || loading}
+                onSwitch={handleSwitchProject}
+                onCreate={handleCreateProject}
+                onRename={handleRenameProject}
+                onDelete={handleDeleteProject}
+                t={t}
+            />
+
             {/* Thumbnails */}
             <ThumbnailManager
                 images={uploadedImages}
@@ -1050,6 +1459,9 @@ const App: React.FC = () => {
                 onReorder={handleImageReorder}
                 onEdit={handleOpenPhotoEditor}
                 onOpenLayoutEditor={() => setIsLayoutEditorOpen(true)}
+                batchSelection={batchSelection}
+                onToggleBatchSelection={handleToggleBatchSelection}
+                onOpenBatch={() => setIsBatchOpen(true)}
                 t={t}
             />
           </div>
@@ -1067,10 +1479,10 @@ const App: React.FC = () => {
                     <div className="flex gap-2">
                         <button
                             onClick={handleRefinePrompt}
-                            disabled={!prompt || isRefining}
+                            disabled={!prompt || isRefining || !provider.capabilities.supportsRefine}
                             className="text-xs bg-indigo-600/30 hover:bg-indigo-600/50 text-indigo-300 border border-indigo-500/30 px-3 py-1.5 rounded-full transition-all flex items-center gap-1 disabled:opacity-50"
                         >
-                            {isRefining ? t('refiningButton') : t('enhancePromptButton')}
+                            {isRefining ? t('refiningButton') : `${t('enhancePromptButton')} (${refineCost} ${t('creditsLabel')})`}
                         </button>
                     </div>
                 </div>
@@ -1113,7 +1525,7 @@ const App: React.FC = () => {
                   <div>
                       <label className="block text-xs font-medium text-gray-400 mb-1">{t('resolutionLabel')}</label>
                       <div className="flex bg-gray-700 rounded-lg p-1">
-                          {(['1K', '2K', '4K'] as const).map((res) => (
+                          {provider.capabilities.resolutions.map((res) => (
                               <button
                                 key={res}
                                 onClick={() => setResolution(res)}
@@ -1126,6 +1538,24 @@ const App: React.FC = () => {
                   </div>
               </div>
 
+              <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">{t('variantCountLabel')}</label>
+                  <div className="flex bg-gray-700 rounded-lg p-1">
+                      {Array.from({ length: provider.capabilities.maxVariants }, (_, i) => i + 1).map((count) => (
+                          <button
+                            key={count}
+                            onClick={() => setVariantCount(count)}
+                            className={`flex-1 text-xs font-medium py-1.5 rounded-md transition-colors ${variantCount === count ? 'bg-purple-600 text-white shadow-sm' : 'text-gray-300 hover:text-white'}`}
+                          >
+                              {count}
+                          </button>
+                      ))}
+                  </div>
+                  <p className="text-xs text-gray-400 mt-2">
+                      {t('costPreviewLabel')}: {getImageOperationCost(pricing, selectedImage ? 'edit' : 'generate', resolution)} × {variantCount}{getVariantRate(pricing, variantCount) !== 100 && ` × ${getVariantRate(pricing, variantCount)}%`} = <span className="font-bold text-yellow-400">{generationCost} {t('creditsLabel')}</span>
+                  </p>
+              </div>
+
               <button
                 onClick={handleGenerate}
                 disabled={loading || (!selectedImage && !prompt)}
@@ -1146,10 +1576,18 @@ const App: React.FC = () => {
                 ) : (
                   <>
                     <SparklesIcon className="w-6 h-6" />
-                    {t('generateButton')}
+                    {t('generateButton')} ({generationCost} {t('creditsLabel')})
                   </>
                 )}
               </button>
+              {loading && generateJobId && (
+                <button
+                  onClick={() => cancelJob(generateJobId)}
+                  className="w-full py-2 rounded-xl font-semibold bg-gray-700 hover:bg-gray-600 text-gray-200"
+                >
+                  {t('cancelGenerationButton')}
+                </button>
+              )}
 
               {error && (
                 <div className="p-4 bg-red-900/30 border border-red-500/50 rounded-xl text-red-200 text-sm">
@@ -1166,11 +1604,35 @@ const App: React.FC = () => {
               )}
             </div>
 
+            {selectedImage && (
+                <div className="bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-700">
+                    <h3 className="text-sm font-medium text-gray-300 mb-3">{t('metadataTitle')}</h3>
+                    <MetadataPanel
+                        metadata={selectedImage.metadata ?? null}
+                        onChange={metadata => handleMetadataChange(selectedImage.id, metadata)}
+                        t={t}
+                    />
+                </div>
+            )}
+
+            <JobsPanel t={t} />
+
+            <div className="bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-700 overflow-y-auto max-h-[400px]">
+                <h3 className="text-sm font-medium text-gray-300 mb-3">{t('historyTitle')}</h3>
+                <HistoryPanel
+                    nodes={historyNodes}
+                    currentNodeId={currentNodeId}
+                    onOpen={handleOpenHistoryNode}
+                    onDelete={handleDeleteHistoryNode}
+                    t={t}
+                />
+            </div>
+
             <div className="bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-700 flex-grow overflow-y-auto max-h-[500px]">
                  <QuickPrompts
                     prompts={allQuickPrompts}
                     onPromptClick={setPrompt}
-                    onPromptsChange={setAllQuickPrompts}
+                    onPromptsChange={handleQuickPromptsChange}
                     t={t}
                 />
             </div>
@@ -0,0 +1,304 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
+import type { LedgerEntry, PricingConfig, TFunction, UserProfile } from '../types';
+import { listUsers, setUserRole, setUserSuspended, getUsageStats } from '../services/adminService';
+import { addCreditsByEmail, grantCredits, listLedgerEntries } from '../services/creditLedger';
+import { PricingEditor } from './PricingEditor';
+
+interface AdminConsoleProps {
+  currentUid: string;
+  pricing: PricingConfig;
+  onSavePricing: (pricing: PricingConfig) => Promise<void>;
+  onBalanceChange: (uid: string, credits: number) => void;
+  onPermissionError: () => void;
+  t: TFunction;
+}
+
+const HISTORY_LIMIT = 50;
+
+const isPermissionError = (e: any) =>
+  e?.code === 'permission-denied' || e?.message?.includes('Missing or insufficient permissions');
+
+const formatDate = (millis: number | null) => millis === null ? '—' : new Date(millis).toLocaleString();
+
+const UserDetails: React.FC<{ user: UserProfile; onPermissionError: () => void; t: TFunction }> = ({ user, onPermissionError, t }) => {
+  const [entries, setEntries] = useState<LedgerEntry[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    setFailed(false);
+    listLedgerEntries(user.uid)
+      .then(result => { if (!cancelled) setEntries(result); })
+      .catch(e => {
+        console.error("Failed to load ledger", e);
+        if (cancelled) return;
+        setFailed(true);
+        if (isPermissionError(e)) onPermissionError();
+      });
+    return () => { cancelled = true; };
+  }, [user.uid, user.credits, onPermissionError]);
+
+  if (failed) return <p className="text-sm text-red-400">{t('adminLoadError')}</p>;
+  if (!entries) return <p className="text-sm text-gray-400">{t('adminLoading')}</p>;
+
+  const stats = getUsageStats(entries);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h5 className="text-sm font-bold text-gray-200">{user.email}</h5>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+        <div className="bg-gray-800 rounded p-2"><div className="text-gray-400">{t('adminCreditsSpent')}</div><div className="text-lg font-bold">{stats.creditsSpent}</div></div>
+        <div className="bg-gray-800 rounded p-2"><div className="text-gray-400">{t('adminCreditsGranted')}</div><div className="text-lg font-bold">{stats.creditsGranted}</div></div>
+        <div className="bg-gray-800 rounded p-2">
+          <div className="text-gray-400">{t('adminCallsLabel')}</div>
+          {Object.entries(stats.calls).length === 0
+            ? <div className="text-lg font-bold">0</div>
+            : Object.entries(stats.calls).map(([reason, count]) => <div key={reason} className="font-mono">{reason}: {count}</div>)}
+        </div>
+        <div className="bg-gray-800 rounded p-2"><div className="text-gray-400">{t('adminLastActive')}</div><div>{formatDate(stats.lastActiveAt)}</div></div>
+      </div>
+      <h5 className="text-xs font-bold text-gray-400 uppercase">{t('adminHistoryTitle')}</h5>
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('adminHistoryEmpty')}</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto">
+          <table className="text-xs w-full">
+            <thead>
+              <tr className="text-gray-400 text-left">
+                <th className="font-medium py-1">{t('adminDateColumn')}</th>
+                <th className="font-medium py-1">{t('adminReasonColumn')}</th>
+                <th className="font-medium py-1 text-right">{t('adminChangeColumn')}</th>
+                <th className="font-medium py-1 text-right">{t('adminBalanceColumn')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.slice(0, HISTORY_LIMIT).map(entry => (
+                <tr key={entry.id} className="border-t border-gray-700">
+                  <td className="py-1 text-gray-400">{formatDate(entry.createdAt)}</td>
+                  <td className="py-1 font-mono">{entry.reason}</td>
+                  <td className={`py-1 text-right ${entry.type === 'debit' ? 'text-red-400' : 'text-green-400'}`}>
+                    {entry.type === 'debit' ? '-' : '+'}{entry.amount}
+                  </td>
+                  <td className="py-1 text-right">{entry.balanceAfter}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const AdminConsole: React.FC<AdminConsoleProps> = ({ currentUid, pricing, onSavePricing, onBalanceChange, onPermissionError, t }) => {
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  // pageCursors[i] is the document page i starts after (null for the first page)
+  const [pageCursors, setPageCursors] = useState<(QueryDocumentSnapshot | null)[]>([null]);
+  const [nextCursor, setNextCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [selectedUids, setSelectedUids] = useState<Set<string>>(new Set());
+  const [detailsUid, setDetailsUid] = useState<string | null>(null);
+  const [grantAmount, setGrantAmount] = useState(50);
+  const [grantEmail, setGrantEmail] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleError = useCallback((e: any) => {
+    console.error("Admin action failed", e);
+    if (isPermissionError(e)) onPermissionError();
+    setMessage({ text: t('adminActionError'), isError: true });
+  }, [onPermissionError, t]);
+
+  const currentCursor = pageCursors[pageCursors.length - 1];
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    listUsers(appliedSearch, currentCursor)
+      .then(page => {
+        if (cancelled) return;
+        setUsers(page.users);
+        setNextCursor(page.cursor);
+      })
+      .catch(e => { if (!cancelled) handleError(e); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [appliedSearch, currentCursor, reloadCount, handleError]);
+
+  const updateUser = (uid: string, changes: Partial<UserProfile>) => {
+    setUsers(prev => prev.map(u => u.uid === uid ? { ...u, ...changes } : u));
+  };
+
+  const applyBalances = (balances: Record<string, number>) => {
+    Object.entries(balances).forEach(([uid, credits]) => {
+      updateUser(uid, { credits });
+      onBalanceChange(uid, credits);
+    });
+  };
+
+  const handleSearch = () => {
+    setPageCursors([null]);
+    setAppliedSearch(search);
+    setSelectedUids(new Set());
+  };
+
+  const toggleSelected = (uid: string) => {
+    setSelectedUids(prev => {
+      const next = new Set(prev);
+      if (next.has(uid)) next.delete(uid); else next.add(uid);
+      return next;
+    });
+  };
+
+  const toggleAllOnPage = () => {
+    const allSelected = users.every(u => selectedUids.has(u.uid));
+    setSelectedUids(prev => {
+      const next = new Set(prev);
+      users.forEach(u => allSelected ? next.delete(u.uid) : next.add(u.uid));
+      return next;
+    });
+  };
+
+  const handleBulkGrant = async () => {
+    if (selectedUids.size === 0 || grantAmount <= 0) return;
+    try {
+      const { balances, failed } = await grantCredits([...selectedUids], grantAmount);
+      applyBalances(balances);
+      setSelectedUids(new Set(failed));
+      setMessage(failed.length
+        ? { text: `${t('adminBulkGrantFailed')} ${failed.length}`, isError: true }
+        : { text: t('creditsAddedSuccess'), isError: false });
+    } catch (e) {
+      handleError(e);
+    }
+  };
+
+  const handleGrantByEmail = async () => {
+    if (!grantEmail.trim() || grantAmount <= 0) return;
+    try {
+      await addCreditsByEmail(grantEmail.trim(), grantAmount);
+      setGrantEmail('');
+      setMessage({ text: t('creditsAddedSuccess'), isError: false });
+      // Refresh the current page so the new balance shows up
+      setReloadCount(count => count + 1);
+    } catch (e: any) {
+      if (isPermissionError(e)) onPermissionError();
+      setMessage({ text: t('creditsAddedError'), isError: true });
+    }
+  };
+
+  const handleToggleSuspended = async (user: UserProfile) => {
+    try {
+      await setUserSuspended(user.uid, !user.suspended);
+      updateUser(user.uid, { suspended: !user.suspended });
+    } catch (e) {
+      handleError(e);
+    }
+  };
+
+  const handleToggleAdmin = async (user: UserProfile) => {
+    const role = user.isAdmin ? 'user' : 'admin';
+    try {
+      await setUserRole(user.uid, role);
+      updateUser(user.uid, { role, isAdmin: role === 'admin' });
+    } catch (e) {
+      handleError(e);
+    }
+  };
+
+  const detailsUser = users.find(u => u.uid === detailsUid);
+
+  return (
+    <div className="flex flex-col gap-6 mt-4">
+      <div className="flex flex-col md:flex-row gap-4 items-end">
+        <div className="flex-grow">
+          <label className="block text-xs text-gray-400 mb-1">{t('targetEmailLabel')}</label>
+          <input type="email" value={grantEmail} onChange={e => setGrantEmail(e.target.value)} className="w-full bg-gray-800 border border-gray-600 rounded p-2 text-sm" />
+        </div>
+        <div className="w-32">
+          <label className="block text-xs text-gray-400 mb-1">{t('amountLabel')}</label>
+          <input type="number" min={1} value={grantAmount} onChange={e => setGrantAmount(Math.round(Number(e.target.value)))} className="w-full bg-gray-800 border border-gray-600 rounded p-2 text-sm" />
+        </div>
+        <button onClick={handleGrantByEmail} className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded font-bold text-sm">
+          {t('addCreditsButton')}
+        </button>
+        <button onClick={handleBulkGrant} disabled={selectedUids.size === 0} className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded font-bold text-sm disabled:opacity-50">
+          {t('adminBulkGrantButton')} ({selectedUids.size})
+        </button>
+      </div>
+      {message && <span className={`text-sm ${message.isError ? 'text-red-400' : 'text-green-400'}`}>{message.text}</span>}
+
+      <div className="flex flex-col gap-3">
+        <h4 className="text-sm font-bold text-blue-300">{t('adminUsersTitle')}</h4>
+        <div className="flex gap-2">
+          <input
+            type="search"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleSearch(); }}
+            placeholder={t('adminSearchPlaceholder')}
+            className="flex-grow bg-gray-800 border border-gray-600 rounded p-2 text-sm"
+          />
+          <button onClick={handleSearch} className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm">{t('adminSearchButton')}</button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="text-sm w-full">
+            <thead>
+              <tr className="text-xs text-gray-400 text-left">
+                <th className="py-1 w-8">
+                  <input type="checkbox" checked={users.length > 0 && users.every(u => selectedUids.has(u.uid))} onChange={toggleAllOnPage} />
+                </th>
+                <th className="font-medium py-1">{t('emailLabel')}</th>
+                <th className="font-medium py-1 text-right">{t('creditsLabel')}</th>
+                <th className="font-medium py-1 pl-4">{t('adminRoleColumn')}</th>
+                <th className="font-medium py-1">{t('adminStatusColumn')}</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map(user => (
+                <tr key={user.uid} className={`border-t border-gray-700 ${detailsUid === user.uid ? 'bg-blue-900/30' : ''}`}>
+                  <td className="py-1"><input type="checkbox" checked={selectedUids.has(user.uid)} onChange={() => toggleSelected(user.uid)} /></td>
+                  <td className="py-1 break-all">{user.email}</td>
+                  <td className="py-1 text-right text-yellow-400">{user.credits}</td>
+                  <td className="py-1 pl-4">{user.isAdmin ? t('adminRoleAdmin') : t('adminRoleUser')}</td>
+                  <td className={`py-1 ${user.suspended ? 'text-red-400' : 'text-green-400'}`}>{user.suspended ? t('adminSuspendedStatus') : t('adminActiveStatus')}</td>
+                  <td className="py-1">
+                    <div className="flex gap-1 justify-end">
+                      <button onClick={() => setDetailsUid(detailsUid === user.uid ? null : user.uid)} className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded">{t('adminDetailsButton')}</button>
+                      <button onClick={() => handleToggleSuspended(user)} disabled={user.uid === currentUid} className="text-xs bg-red-900/50 hover:bg-red-900 text-red-200 px-2 py-1 rounded disabled:opacity-50">
+                        {user.suspended ? t('adminRestoreButton') : t('adminSuspendButton')}
+                      </button>
+                      <button onClick={() => handleToggleAdmin(user)} disabled={user.uid === currentUid} className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50">
+                        {user.isAdmin ? t('adminRemoveAdminButton') : t('adminMakeAdminButton')}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!isLoading && users.length === 0 && <p className="text-sm text-gray-500 py-2">{t('adminNoUsers')}</p>}
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <button onClick={() => setPageCursors(prev => prev.slice(0, -1))} disabled={isLoading || pageCursors.length < 2} className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded disabled:opacity-50">{t('adminPrevPage')}</button>
+          <span className="text-gray-400">{pageCursors.length}</span>
+          <button onClick={() => nextCursor && setPageCursors(prev => [...prev, nextCursor])} disabled={isLoading || !nextCursor} className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded disabled:opacity-50">{t('adminNextPage')}</button>
+        </div>
+        {detailsUser && (
+          <div className="border-t border-blue-500/30 pt-4">
+            <UserDetails user={detailsUser} onPermissionError={onPermissionError} t={t} />
+          </div>
+        )}
+      </div>
+
+      <div className="pt-4 border-t border-blue-500/30">
+        <PricingEditor pricing={pricing} onSave={onSavePricing} t={t} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,327 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { AdjustmentPreset, BatchItem, BatchItemStatus, ImageResolution, StringTranslationKeys, TFunction, UploadedImage } from '../types';
+import { CloseIcon, DownloadIcon, PlusIcon, SparklesIcon } from './Icons';
+import { runQueue } from '../services/batchQueue';
+import { createZip } from '../services/zipArchive';
+import { downloadBlob } from '../services/imageExport';
+import { dataUrlToBlob } from '../services/workspaceStorage';
+import { normalizeAdjustments, renderAdjustedImage } from '../lib/imageAdjustments';
+import { listPresets } from '../services/presetLibrary';
+
+interface BatchPanelProps {
+  // The thumbnails picked for the batch, in project order
+  images: UploadedImage[];
+  // Edited images whose saved adjustments can be reused as a preset
+  presetSources: UploadedImage[];
+  initialPrompt: string;
+  initialAspectRatio: string;
+  initialResolution: ImageResolution;
+  resolutions: ImageResolution[];
+  getCost: (resolution: ImageResolution) => number;
+  // Runs one paid edit and returns the result image
+  runPrompt: (image: UploadedImage, prompt: string, aspectRatio: string, resolution: ImageResolution, signal: AbortSignal) => Promise<string>;
+  onAddResults: (results: { source: UploadedImage; dataUrl: string }[], aiGenerated: boolean) => void;
+  onClose: () => void;
+  t: TFunction;
+}
+
+type BatchMode = 'prompt' | 'preset';
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const ASPECT_RATIOS: { value: string; labelKey: StringTranslationKeys }[] = [
+  { value: '1:1', labelKey: 'ratio11' },
+  { value: '3:2', labelKey: 'ratio32' },
+  { value: '4:3', labelKey: 'ratio43' },
+  { value: '16:9', labelKey: 'ratio169' },
+  { value: '2:3', labelKey: 'ratio23' },
+  { value: '3:4', labelKey: 'ratio34' },
+  { value: '9:16', labelKey: 'ratio916' },
+];
+
+const STATUS_LABELS: Record<BatchItemStatus, StringTranslationKeys> = {
+  pending: 'batchStatusPending',
+  running: 'batchStatusRunning',
+  done: 'batchStatusDone',
+  failed: 'batchStatusFailed',
+  cancelled: 'batchStatusCancelled',
+};
+
+const STATUS_COLORS: Record<BatchItemStatus, string> = {
+  pending: 'text-gray-400',
+  running: 'text-blue-300',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+// Error codes thrown by the ledger and providers, shown in the user's language
+const ERROR_MESSAGES: Record<string, StringTranslationKeys> = {
+  INSUFFICIENT_CREDITS: 'notEnoughCredits',
+  ACCOUNT_SUSPENDED: 'accountSuspendedMessage',
+  RATE_LIMIT_EXCEEDED: 'rateLimitError',
+  TIMEOUT: 'jobTimeoutError',
+};
+
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  images, presetSources, initialPrompt, initialAspectRatio, initialResolution, resolutions, getCost, runPrompt, onAddResults, onClose, t
+}) => {
+  const [mode, setMode] = useState<BatchMode>('prompt');
+  const [prompt, setPrompt] = useState(initialPrompt);
+  const [aspectRatio, setAspectRatio] = useState(initialAspectRatio);
+  const [resolution, setResolution] = useState<ImageResolution>(initialResolution);
+  const [libraryPresets, setLibraryPresets] = useState<AdjustmentPreset[]>([]);
+  // Either a library preset id or the id of an edited image
+  const [presetId, setPresetId] = useState<string>(presetSources[0]?.id ?? '');
+  const [concurrency, setConcurrency] = useState(2);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  // Mode of the run whose results are shown
+  const [resultMode, setResultMode] = useState<BatchMode>('prompt');
+
+  useEffect(() => {
+    listPresets()
+      .then(presets => {
+        setLibraryPresets(presets);
+        if (presets.length > 0) setPresetId(presets[0].id);
+      })
+      .catch(e => console.error("Failed to load presets", e));
+  }, []);
+
+  const sourceDocument = presetSources.find(img => img.id === presetId)?.editDocument;
+  const presetAdjustments = libraryPresets.find(p => p.id === presetId)?.adjustments
+    ?? (sourceDocument ? normalizeAdjustments(sourceDocument.adjustments) : undefined);
+  const canStart = images.length > 0 && (mode === 'prompt' ? !!prompt.trim() : !!presetAdjustments);
+  const results = items
+    .filter(item => item.status === 'done' && item.resultUrl)
+    .map(item => ({ source: images.find(img => img.id === item.imageId)!, dataUrl: item.resultUrl! }))
+    .filter(result => !!result.source);
+  const doneCount = items.filter(item => item.status === 'done' || item.status === 'failed' || item.status === 'cancelled').length;
+
+  const updateItem = (imageId: string, patch: Partial<BatchItem>) =>
+    setItems(prev => prev.map(item => item.imageId === imageId ? { ...item, ...patch } : item));
+
+  const processImage = async (image: UploadedImage, signal: AbortSignal): Promise<string> => {
+    if (mode === 'prompt') return runPrompt(image, prompt, aspectRatio, resolution, signal);
+    const canvas = await renderAdjustedImage(image.dataUrl, presetAdjustments!);
+    return canvas.toDataURL(image.file.type === 'image/png' ? 'image/png' : 'image/jpeg', 0.92);
+  };
+
+  const handleStart = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setItems(images.map(image => ({ imageId: image.id, status: 'pending' })));
+    setResultMode(mode);
+    setIsRunning(true);
+
+    await runQueue(images, concurrency, async image => {
+      updateItem(image.id, { status: 'running' });
+      try {
+        const resultUrl = await processImage(image, controller.signal);
+        updateItem(image.id, { status: 'done', resultUrl });
+      } catch (e) {
+        console.error("Batch item failed:", e);
+        const message = e instanceof Error ? e.message : String(e);
+        if (message === 'CANCELLED') {
+          updateItem(image.id, { status: 'cancelled' });
+          return;
+        }
+        updateItem(image.id, { status: 'failed', error: ERROR_MESSAGES[message] ? t(ERROR_MESSAGES[message]) : message });
+        // Every later item would fail the same way
+        if (message === 'INSUFFICIENT_CREDITS' || message === 'ACCOUNT_SUSPENDED') controller.abort();
+      }
+    }, controller.signal);
+
+    setItems(prev => prev.map(item => item.status === 'pending' ? { ...item, status: 'cancelled' } : item));
+    setIsRunning(false);
+    abortRef.current = null;
+  };
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  const handleClose = () => {
+    handleCancel();
+    onClose();
+  };
+
+  const handleDownloadZip = async () => {
+    const usedNames = new Set<string>();
+    const entries = results.map(({ source, dataUrl }, index) => {
+      const blob = dataUrlToBlob(dataUrl);
+      const base = `${String(index + 1).padStart(2, '0')}-${source.file.name.replace(/\.[^/.]+$/, "")}`;
+      let name = `${base}.${EXTENSIONS[blob.type] || 'png'}`;
+      for (let n = 2; usedNames.has(name); n++) name = `${base}-${n}.${EXTENSIONS[blob.type] || 'png'}`;
+      usedNames.add(name);
+      return { name, data: blob };
+    });
+    try {
+      downloadBlob(await createZip(entries), `ivan-ai-batch-${Date.now()}.zip`);
+    } catch (e) {
+      console.error("Failed to build ZIP:", e);
+      alert(t('exportFailed'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm" onClick={handleClose}>
+      <div className="bg-gray-800 rounded-xl shadow-2xl max-w-3xl w-full max-h-full border border-gray-700 flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h3 className="text-xl font-bold text-gray-200">{t('batchTitle')}</h3>
+          <button onClick={handleClose} className="p-1 text-gray-400 hover:bg-gray-700 rounded-full"><CloseIcon className="w-6 h-6" /></button>
+        </header>
+
+        <div className="p-4 flex flex-col gap-4 overflow-y-auto">
+          <div className="flex bg-gray-700 rounded-lg p-1">
+            {(['prompt', 'preset'] as BatchMode[]).map(id => (
+              <button
+                key={id}
+                onClick={() => setMode(id)}
+                disabled={isRunning}
+                className={`flex-1 px-3 py-1 text-sm rounded-md ${mode === id ? 'bg-purple-600 text-white' : 'text-gray-300'}`}
+              >
+                {t(id === 'prompt' ? 'batchModePrompt' : 'batchModePreset')}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'prompt' ? (
+            <div className="flex flex-col gap-3">
+              <textarea
+                value={prompt}
+                onChange={e => setPrompt(e.target.value)}
+                disabled={isRunning}
+                rows={3}
+                placeholder={t('promptPlaceholder')}
+                className="w-full bg-gray-900 border border-gray-600 rounded-lg p-2 text-sm text-gray-200"
+              />
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">{t('aspectRatioLabel')}</label>
+                  <select
+                    value={aspectRatio}
+                    onChange={e => setAspectRatio(e.target.value)}
+                    disabled={isRunning}
+                    className="w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-2"
+                  >
+                    {ASPECT_RATIOS.map(({ value, labelKey }) => <option key={value} value={value}>{t(labelKey)}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">{t('resolutionLabel')}</label>
+                  <div className="flex bg-gray-700 rounded-lg p-1">
+                    {resolutions.map(res => (
+                      <button
+                        key={res}
+                        onClick={() => setResolution(res)}
+                        disabled={isRunning}
+                        className={`flex-1 text-xs font-medium py-1.5 rounded-md ${resolution === res ? 'bg-purple-600 text-white' : 'text-gray-300'}`}
+                      >
+                        {res}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <p className="text-xs text-gray-400">{t('batchCostLabel')}: {getCost(resolution) * images.length}</p>
+            </div>
+          ) : libraryPresets.length > 0 || presetSources.length > 0 ? (
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">{t('batchPresetLabel')}</label>
+              <select
+                value={presetId}
+                onChange={e => setPresetId(e.target.value)}
+                disabled={isRunning}
+                className="w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-2"
+              >
+                {libraryPresets.length > 0 && (
+                  <optgroup label={t('presetsTitle')}>
+                    {libraryPresets.map(p => <option key={p.id} value={p.id}>{p.folder ? `${p.folder} / ${p.name}` : p.name}</option>)}
+                  </optgroup>
+                )}
+                {presetSources.length > 0 && (
+                  <optgroup label={t('batchEditedImagesGroup')}>
+                    {presetSources.map(img => <option key={img.id} value={img.id}>{img.file.name}</option>)}
+                  </optgroup>
+                )}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">{t('batchPresetHelp')}</p>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">{t('batchNoPresets')}</p>
+          )}
+
+          <div className="flex items-center gap-3">
+            <label className="text-xs font-medium text-gray-400">{t('batchConcurrencyLabel')}</label>
+            <div className="flex bg-gray-700 rounded-lg p-1">
+              {CONCURRENCY_OPTIONS.map(count => (
+                <button
+                  key={count}
+                  onClick={() => setConcurrency(count)}
+                  disabled={isRunning}
+                  className={`px-3 text-xs font-medium py-1 rounded-md ${concurrency === count ? 'bg-purple-600 text-white' : 'text-gray-300'}`}
+                >
+                  {count}
+                </button>
+              ))}
+            </div>
+            {items.length > 0 && (
+              <span className="text-xs text-gray-400 ml-auto">{doneCount} / {items.length}</span>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {images.map(image => {
+              const item = items.find(i => i.imageId === image.id);
+              return (
+                <div key={image.id} className="bg-gray-900/50 rounded-lg p-2 flex flex-col gap-1">
+                  <div className="relative aspect-square bg-black rounded overflow-hidden">
+                    <img src={item?.resultUrl ?? image.dataUrl} alt={image.file.name} className="w-full h-full object-cover" />
+                    {item?.status === 'running' && <div className="absolute inset-0 bg-black/50 animate-pulse" />}
+                  </div>
+                  <p className="text-xs text-gray-300 truncate">{image.file.name}</p>
+                  {item && <p className={`text-xs ${STATUS_COLORS[item.status]}`}>{t(STATUS_LABELS[item.status])}</p>}
+                  {item?.error && <p className="text-xs text-red-300 break-words">{item.error}</p>}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <footer className="flex flex-wrap justify-end items-center gap-3 p-4 border-t border-gray-700">
+          {isRunning ? (
+            <button onClick={handleCancel} className="bg-red-600 hover:bg-red-700 text-white font-semibold py-2 px-4 rounded-lg">
+              {t('batchCancelButton')}
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={() => onAddResults(results, resultMode === 'prompt')}
+                disabled={results.length === 0}
+                className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg disabled:opacity-50"
+              >
+                <PlusIcon className="w-5 h-5" /> {t('batchAddToProject')}
+              </button>
+              <button
+                onClick={handleDownloadZip}
+                disabled={results.length === 0}
+                className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-lg disabled:opacity-50"
+              >
+                <DownloadIcon className="w-5 h-5" /> {t('batchDownloadZip')}
+              </button>
+              <button
+                onClick={handleStart}
+                disabled={!canStart}
+                className="flex items-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-lg disabled:opacity-50"
+              >
+                <SparklesIcon className="w-5 h-5" /> {t('batchStartButton')}
+              </button>
+            </>
+          )}
+        </footer>
+      </div>
+    </div>
+  );
+};
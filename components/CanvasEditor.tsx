@@ -1,23 +1,69 @@
 import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef, useCallback } from 'react';
+import type { MaskHistory, MaskStroke } from '../types';
 
 interface CanvasEditorProps {
   imageSrc: string;
   brushSize: number;
   brushColor: string;
+  isErasing: boolean;
+  // Strokes are kept by the parent so they survive the editor being remounted
+  maskHistory: MaskHistory;
+  onMaskHistoryChange: (history: MaskHistory) => void;
+  shortcutsEnabled?: boolean;
 }
 
 export interface CanvasEditorRef {
+  // The source image only; brush strokes live on the mask layer
   toDataURL: (type?: string, quality?: any) => string;
+  // PNG at the image's size: white where painted, black elsewhere. null if nothing is painted.
+  getMask: () => string | null;
+  // Clears every stroke; undoable like any other change
   reset: () => void;
+  undo: () => void;
+  redo: () => void;
 }
 
+export const EMPTY_MASK_HISTORY: MaskHistory = { past: [], present: [], future: [] };
+
+// Erase strokes cut out whatever was painted before them
+const drawStroke = (ctx: CanvasRenderingContext2D, stroke: MaskStroke, color: string) => {
+  const { points } = stroke;
+  ctx.globalCompositeOperation = stroke.mode === 'erase' ? 'destination-out' : 'source-over';
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = stroke.size;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  if (points.length === 1) {
+    ctx.arc(points[0].x, points[0].y, stroke.size / 2, 0, 2 * Math.PI);
+    ctx.fill();
+  } else {
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+    ctx.stroke();
+  }
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+const renderStrokes = (canvas: HTMLCanvasElement, strokes: MaskStroke[], color: string) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  strokes.forEach(stroke => drawStroke(ctx, stroke, color));
+};
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement && !!target.closest('input, textarea, select, [contenteditable="true"]');
+
 export const CanvasEditor = forwardRef<CanvasEditorRef, CanvasEditorProps>(
-  ({ imageSrc, brushSize, brushColor }, ref) => {
+  ({ imageSrc, brushSize, brushColor, isErasing, maskHistory, onMaskHistoryChange, shortcutsEnabled = true }, ref) => {
     const mainCanvasRef = useRef<HTMLCanvasElement>(null);
+    const maskCanvasRef = useRef<HTMLCanvasElement>(null);
     const previewCanvasRef = useRef<HTMLCanvasElement>(null);
     const [isDrawing, setIsDrawing] = useState(false);
     const [image, setImage] = useState<HTMLImageElement | null>(null);
-    const lastPoint = useRef<{ x: number, y: number } | null>(null);
+    const currentStroke = useRef<MaskStroke | null>(null);
 
     useEffect(() => {
       const img = new Image();
@@ -26,10 +72,13 @@ export const CanvasEditor = forwardRef<CanvasEditorRef, CanvasEditorProps>(
       img.onload = () => {
         setImage(img);
         const mainCanvas = mainCanvasRef.current;
+        const maskCanvas = maskCanvasRef.current;
         const previewCanvas = previewCanvasRef.current;
-        if (mainCanvas && previewCanvas) {
+        if (mainCanvas && maskCanvas && previewCanvas) {
           mainCanvas.width = img.naturalWidth;
           mainCanvas.height = img.naturalHeight;
+          maskCanvas.width = img.naturalWidth;
+          maskCanvas.height = img.naturalHeight;
           previewCanvas.width = img.naturalWidth;
           previewCanvas.height = img.naturalHeight;
           
@@ -42,23 +91,75 @@ export const CanvasEditor = forwardRef<CanvasEditorRef, CanvasEditorProps>(
       };
     }, [imageSrc]);
     
+    // Strokes are re-rendered from their vectors, so they stay sharp whenever the
+    // image reloads or the brush colour changes
+    useEffect(() => {
+      const canvas = maskCanvasRef.current;
+      if (canvas && image) renderStrokes(canvas, maskHistory.present, brushColor);
+    }, [image, maskHistory.present, brushColor]);
+
+    const commitStrokes = useCallback((strokes: MaskStroke[]) => {
+        const { past, present } = maskHistory;
+        onMaskHistoryChange({ past: [...past, present], present: strokes, future: [] });
+    }, [maskHistory, onMaskHistoryChange]);
+
     const resetCanvas = useCallback(() => {
-        const canvas = mainCanvasRef.current;
-        if (canvas && image) {
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-                ctx.clearRect(0, 0, canvas.width, canvas.height);
-                ctx.drawImage(image, 0, 0);
-            }
-        }
-    }, [image]);
+        if (maskHistory.present.length > 0) commitStrokes([]);
+    }, [maskHistory, commitStrokes]);
+
+    const undo = useCallback(() => {
+        const { past, present, future } = maskHistory;
+        if (past.length === 0) return;
+        onMaskHistoryChange({ past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future] });
+    }, [maskHistory, onMaskHistoryChange]);
+
+    const redo = useCallback(() => {
+        const { past, present, future } = maskHistory;
+        if (future.length === 0) return;
+        onMaskHistoryChange({ past: [...past, present], present: future[0], future: future.slice(1) });
+    }, [maskHistory, onMaskHistoryChange]);
+
+    useEffect(() => {
+      if (!shortcutsEnabled) return;
+      const handleKeyDown = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || isTextInput(e.target)) return;
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [shortcutsEnabled, undo, redo]);
+
+    const getMask = useCallback(() => {
+        const maskCanvas = maskCanvasRef.current;
+        const strokes = maskHistory.present;
+        if (!maskCanvas || !strokes.some(stroke => stroke.mode === 'paint')) return null;
+
+        const painted = document.createElement('canvas');
+        painted.width = maskCanvas.width;
+        painted.height = maskCanvas.height;
+        renderStrokes(painted, strokes, '#ffffff');
+
+        const mask = document.createElement('canvas');
+        mask.width = maskCanvas.width;
+        mask.height = maskCanvas.height;
+        const maskCtx = mask.getContext('2d');
+        if (!maskCtx) return null;
+        maskCtx.fillStyle = '#000000';
+        maskCtx.fillRect(0, 0, mask.width, mask.height);
+        maskCtx.drawImage(painted, 0, 0);
+        return mask.toDataURL('image/png');
+    }, [maskHistory]);
 
     useImperativeHandle(ref, () => ({
       toDataURL: (type?: string, quality?: any) => {
         const canvas = mainCanvasRef.current;
         return canvas ? canvas.toDataURL(type, quality) : '';
       },
-      reset: resetCanvas
+      getMask,
+      reset: resetCanvas,
+      undo,
+      redo
     }));
     
     const getCoordinates = useCallback((event: React.MouseEvent<HTMLDivElement> | React.TouchEvent<HTMLDivElement>, clamp: boolean = true) => {
@@ -127,35 +228,33 @@ export const CanvasEditor = forwardRef<CanvasEditorRef, CanvasEditorProps>(
 
     const startDrawing = (event: React.MouseEvent<HTMLDivElement> | React.TouchEvent<HTMLDivElement>) => {
       const coords = getCoordinates(event);
-      if (!coords) return;
+      const ctx = maskCanvasRef.current?.getContext('2d');
+      if (!coords || !ctx) return;
       setIsDrawing(true);
-      lastPoint.current = coords;
+      currentStroke.current = { mode: isErasing ? 'erase' : 'paint', size: brushSize, points: [coords] };
+      drawStroke(ctx, currentStroke.current, brushColor);
     };
 
     const draw = (event: React.MouseEvent<HTMLDivElement> | React.TouchEvent<HTMLDivElement>) => {
-      if (!isDrawing) return;
+      const stroke = currentStroke.current;
+      if (!isDrawing || !stroke) return;
       const coords = getCoordinates(event);
-      if (!coords || !lastPoint.current) return;
+      if (!coords) return;
       
-      const { x, y } = coords;
-      const ctx = mainCanvasRef.current?.getContext('2d');
+      // Only the new segment is drawn while moving; the full stroke is re-rendered once committed
+      const ctx = maskCanvasRef.current?.getContext('2d');
       if (ctx) {
-        ctx.beginPath();
-        ctx.moveTo(lastPoint.current.x, lastPoint.current.y);
-        ctx.lineTo(x, y);
-        ctx.strokeStyle = brushColor;
-        ctx.lineWidth = brushSize;
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-        ctx.stroke();
-        ctx.closePath();
+        drawStroke(ctx, { ...stroke, points: [stroke.points[stroke.points.length - 1], coords] }, brushColor);
       }
-      lastPoint.current = coords;
+      stroke.points.push(coords);
     };
 
     const stopDrawing = () => {
       setIsDrawing(false);
-      lastPoint.current = null;
+      if (currentStroke.current) {
+        commitStrokes([...maskHistory.present, currentStroke.current]);
+        currentStroke.current = null;
+      }
     };
     
     const drawPreview = (event: React.MouseEvent<HTMLDivElement>) => {
@@ -173,15 +272,21 @@ export const CanvasEditor = forwardRef<CanvasEditorRef, CanvasEditorProps>(
       
       const { x, y } = coords;
       
-      // Draw the new preview circle
+      // Draw the new preview circle; the eraser only shows its outline
       ctx.beginPath();
       ctx.arc(x, y, brushSize / 2, 0, 2 * Math.PI, false);
-      const colorWithAlpha = brushColor + '80'; // Add 50% alpha
-      ctx.fillStyle = colorWithAlpha;
-      ctx.fill();
-      ctx.strokeStyle = brushColor;
+      if (isErasing) {
+        ctx.setLineDash([6, 4]);
+        ctx.strokeStyle = '#ffffff';
+      } else {
+        const colorWithAlpha = brushColor + '80'; // Add 50% alpha
+        ctx.fillStyle = colorWithAlpha;
+        ctx.fill();
+        ctx.strokeStyle = brushColor;
+      }
       ctx.lineWidth = 2;
       ctx.stroke();
+      ctx.setLineDash([]);
     };
     
     const clearPreview = () => {
@@ -223,6 +328,10 @@ export const CanvasEditor = forwardRef<CanvasEditorRef, CanvasEditorProps>(
                 ref={mainCanvasRef}
                 className="absolute top-0 left-0 w-full h-full object-contain"
             />
+            <canvas
+                ref={maskCanvasRef}
+                className="absolute top-0 left-0 w-full h-full object-contain pointer-events-none opacity-60"
+            />
             <canvas
                 ref={previewCanvasRef}
                 className="absolute top-0 left-0 w-full h-full object-contain pointer-events-none"
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import type { ExportFormat, ExportOptions, ImageMetadata, MetadataGroup, StringTranslationKeys, TFunction } from '../types';
+import { CloseIcon, DownloadIcon } from './Icons';
+import {
+  EXPORT_FORMATS,
+  downloadBlob,
+  encodeExport,
+  formatExportFilename,
+  getExportSize,
+  getSupportedExportFormats,
+  loadExportOptions,
+  saveExportOptions,
+} from '../services/imageExport';
+import { writeImageMetadata } from '../services/imageMetadata';
+
+interface ExportDialogProps {
+  // Full-resolution render of what is being exported; null while it is being prepared
+  source: HTMLCanvasElement | null;
+  baseName: string;
+  // Fields read from the original upload, if any
+  metadata?: ImageMetadata | null;
+  onClose: () => void;
+  t: TFunction;
+}
+
+const ESTIMATE_DELAY_MS = 300;
+
+const METADATA_GROUPS: { id: MetadataGroup; labelKey: StringTranslationKeys; fields: (keyof ImageMetadata)[] }[] = [
+  { id: 'camera', labelKey: 'metadataCameraLabel', fields: ['make', 'model', 'lensModel'] },
+  { id: 'capture', labelKey: 'metadataCaptureLabel', fields: ['dateTimeOriginal', 'exposureTime', 'fNumber', 'iso', 'focalLength'] },
+  { id: 'author', labelKey: 'metadataAuthorLabel', fields: ['artist', 'copyright', 'description'] },
+  { id: 'location', labelKey: 'metadataLocationLabel', fields: ['gps'] },
+];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ source, baseName, metadata = null, onClose, t }) => {
+  const [options, setOptions] = useState<ExportOptions>(loadExportOptions);
+  const [formats, setFormats] = useState<ExportFormat[]>(['png', 'jpeg']);
+  const [estimate, setEstimate] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [markAiGenerated, setMarkAiGenerated] = useState(metadata?.aiGenerated ?? false);
+
+  useEffect(() => {
+    getSupportedExportFormats().then(supported => {
+      setFormats(supported);
+      setOptions(prev => supported.includes(prev.format) ? prev : { ...prev, format: 'jpeg' });
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+    setEstimate(null);
+    const timer = setTimeout(() => {
+      encode(source)
+        .then(blob => { if (!cancelled) setEstimate(blob.size); })
+        .catch(e => console.error("Failed to estimate export size", e));
+    }, ESTIMATE_DELAY_MS);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [source, options, markAiGenerated]);
+
+  const encode = async (canvas: HTMLCanvasElement) =>
+    writeImageMetadata(await encodeExport(canvas, options), metadata, options.metadataGroups, markAiGenerated);
+
+  const availableGroups = METADATA_GROUPS.filter(group => group.fields.some(field => metadata?.[field] !== undefined));
+
+  const toggleGroup = (id: MetadataGroup, checked: boolean) =>
+    update({ metadataGroups: checked ? [...options.metadataGroups, id] : options.metadataGroups.filter(g => g !== id) });
+
+  const update = (patch: Partial<ExportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const format = EXPORT_FORMATS[options.format];
+  const size = source ? getExportSize(source.width, source.height, options.longEdge) : null;
+  const filename = formatExportFilename(options.filenameTemplate, {
+    name: baseName,
+    width: size?.width ?? 0,
+    height: size?.height ?? 0,
+    format: options.format,
+  });
+
+  const handleExport = async () => {
+    if (!source) return;
+    setIsExporting(true);
+    try {
+      const blob = await encode(source);
+      downloadBlob(blob, filename);
+      saveExportOptions(options);
+      onClose();
+    } catch (e) {
+      console.error("Failed to export image:", e);
+      alert(t('exportFailed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-gray-800 rounded-xl shadow-2xl max-w-md w-full border border-gray-700 p-6 flex flex-col gap-4" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-bold text-gray-200">{t('exportTitle')}</h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:bg-gray-700 rounded-full"><CloseIcon className="w-6 h-6" /></button>
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">{t('exportFormatLabel')}</label>
+          <div className="flex bg-gray-700 rounded-lg p-1">
+            {formats.map(id => (
+              <button
+                key={id}
+                onClick={() => update({ format: id })}
+                className={`flex-1 px-3 py-1 text-sm rounded-md uppercase ${options.format === id ? 'bg-purple-600 text-white' : 'text-gray-300'}`}
+              >
+                {id}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className={format.lossy ? '' : 'opacity-40'}>
+          <label className="flex justify-between text-sm text-gray-400 mb-1">
+            <span>{t('exportQualityLabel')}</span>
+            <span>{options.quality}</span>
+          </label>
+          <input
+            type="range"
+            min={1}
+            max={100}
+            value={options.quality}
+            disabled={!format.lossy}
+            onChange={e => update({ quality: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">{t('exportLongEdgeLabel')}</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              value={options.longEdge ?? ''}
+              placeholder={t('exportOriginalSize')}
+              onChange={e => update({ longEdge: Number(e.target.value) > 0 ? Math.round(Number(e.target.value)) : null })}
+              className="w-32 bg-gray-900 border border-gray-600 rounded p-2 text-sm"
+            />
+            <span className="text-sm text-gray-400">px</span>
+            {size && <span className="text-xs text-gray-500 ml-auto">{size.width} × {size.height}</span>}
+          </div>
+        </div>
+
+        <label className={`flex items-center gap-2 text-sm text-gray-300 ${format.alpha ? '' : 'opacity-40'}`}>
+          <input
+            type="checkbox"
+            checked={format.alpha && options.preserveTransparency}
+            disabled={!format.alpha}
+            onChange={e => update({ preserveTransparency: e.target.checked })}
+          />
+          {t('exportTransparencyLabel')}
+        </label>
+
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">{t('exportMetadataLabel')}</label>
+          <div className="flex flex-col gap-1">
+            {availableGroups.map(group => (
+              <label key={group.id} className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={options.metadataGroups.includes(group.id)}
+                  onChange={e => toggleGroup(group.id, e.target.checked)}
+                />
+                {t(group.labelKey)}
+              </label>
+            ))}
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input type="checkbox" checked={markAiGenerated} onChange={e => setMarkAiGenerated(e.target.checked)} />
+              {t('exportAiGeneratedLabel')}
+            </label>
+          </div>
+          {!['png', 'jpeg'].includes(options.format) && <p className="text-xs text-yellow-400 mt-1">{t('exportMetadataUnsupported')}</p>}
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">{t('exportFilenameLabel')}</label>
+          <input
+            type="text"
+            value={options.filenameTemplate}
+            onChange={e => update({ filenameTemplate: e.target.value })}
+            className="w-full bg-gray-900 border border-gray-600 rounded p-2 text-sm"
+          />
+          <p className="text-xs text-gray-500 mt-1">{t('exportFilenameHint')}</p>
+          <p className="text-xs text-gray-300 mt-1 truncate">{filename}</p>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 pt-2 border-t border-gray-700">
+          <span className="text-sm text-gray-400">
+            {t('exportEstimatedSize')}: {estimate !== null ? formatBytes(estimate) : '…'}
+          </span>
+          <button
+            onClick={handleExport}
+            disabled={!source || isExporting}
+            className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:opacity-50"
+          >
+            <DownloadIcon className="w-5 h-5" />
+            <span>{t('downloadButton')}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Histogram, TFunction } from '../types';
+
+interface HistogramPanelProps {
+    histogram: Histogram | null;
+    showHighlightClipping: boolean;
+    showShadowClipping: boolean;
+    onToggleHighlightClipping: () => void;
+    onToggleShadowClipping: () => void;
+    t: TFunction;
+}
+
+type HistogramMode = 'rgb' | 'luminance';
+
+const WIDTH = 256;
+const HEIGHT = 96;
+
+const drawChannel = (ctx: CanvasRenderingContext2D, bins: Uint32Array, peak: number, color: string) => {
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.moveTo(0, HEIGHT);
+    for (let v = 0; v < 256; v++) {
+        ctx.lineTo(v, HEIGHT - Math.min(1, bins[v] / peak) * HEIGHT);
+    }
+    ctx.lineTo(WIDTH, HEIGHT);
+    ctx.closePath();
+    ctx.fill();
+};
+
+const formatPercent = (fraction: number) => `${(fraction * 100).toFixed(fraction > 0 && fraction < 0.001 ? 2 : 1)}%`;
+
+export const HistogramPanel: React.FC<HistogramPanelProps> = (
+    { histogram, showHighlightClipping, showShadowClipping, onToggleHighlightClipping, onToggleShadowClipping, t }
+) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [mode, setMode] = useState<HistogramMode>('rgb');
+
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx) return;
+        ctx.clearRect(0, 0, WIDTH, HEIGHT);
+        if (!histogram) return;
+
+        const channels = mode === 'rgb' ? [histogram.red, histogram.green, histogram.blue] : [histogram.luminance];
+        // The end bins pile up whenever anything clips, so they don't set the scale
+        let peak = 1;
+        for (const bins of channels) {
+            for (let v = 1; v < 255; v++) peak = Math.max(peak, bins[v]);
+        }
+
+        if (mode === 'rgb') {
+            ctx.globalCompositeOperation = 'lighter';
+            drawChannel(ctx, histogram.red, peak, 'rgba(220, 38, 38, 0.8)');
+            drawChannel(ctx, histogram.green, peak, 'rgba(22, 163, 74, 0.8)');
+            drawChannel(ctx, histogram.blue, peak, 'rgba(37, 99, 235, 0.8)');
+            ctx.globalCompositeOperation = 'source-over';
+        } else {
+            drawChannel(ctx, histogram.luminance, peak, 'rgba(209, 213, 219, 0.8)');
+        }
+    }, [histogram, mode]);
+
+    const clipButtonClass = (active: boolean, activeColor: string) =>
+        `px-2 py-0.5 rounded text-xs font-mono ${active ? `${activeColor} text-white` : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+    return (
+        <div className="p-3 bg-gray-900/50 rounded-lg space-y-2">
+            <div className="flex justify-between items-center">
+                <h4 className="font-semibold text-gray-400">{t('histogramLabel')}</h4>
+                <div className="flex bg-gray-700 rounded-md p-0.5">
+                    {(['rgb', 'luminance'] as HistogramMode[]).map(id => (
+                        <button
+                            key={id}
+                            onClick={() => setMode(id)}
+                            className={`px-2 py-0.5 text-xs rounded ${mode === id ? 'bg-purple-600 text-white' : 'text-gray-300'}`}
+                        >
+                            {t(id === 'rgb' ? 'histogramRgb' : 'histogramLuminance')}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <canvas ref={canvasRef} width={WIDTH} height={HEIGHT} className="w-full h-24 bg-gray-800 rounded" />
+            <div className="flex justify-between items-center">
+                <button
+                    onClick={onToggleShadowClipping}
+                    className={clipButtonClass(showShadowClipping, 'bg-blue-600')}
+                    title={t('shadowClippingToggle')}
+                >
+                    ◀ {formatPercent(histogram?.shadowClipped ?? 0)}
+                </button>
+                <span className="text-xs text-gray-500">{t('clippingLabel')}</span>
+                <button
+                    onClick={onToggleHighlightClipping}
+                    className={clipButtonClass(showHighlightClipping, 'bg-red-600')}
+                    title={t('highlightClippingToggle')}
+                >
+                    {formatPercent(histogram?.highlightClipped ?? 0)} ▶
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import type { HistoryNode, TFunction } from '../types';
+import { CloseIcon, CompareIcon, TrashIcon } from './Icons';
+
+interface HistoryPanelProps {
+  nodes: HistoryNode[];
+  currentNodeId: string | null;
+  onOpen: (node: HistoryNode) => void;
+  onDelete: (node: HistoryNode) => void;
+  t: TFunction;
+}
+
+interface TreeRow {
+  node: HistoryNode;
+  depth: number;
+}
+
+// Depth-first order so branches render right under the result they came from
+const flattenTree = (nodes: HistoryNode[]): TreeRow[] => {
+  const children = new Map<string | null, HistoryNode[]>();
+  nodes.forEach(node => {
+    const parentKey = node.parentId && nodes.some(n => n.id === node.parentId) ? node.parentId : null;
+    children.set(parentKey, [...(children.get(parentKey) || []), node]);
+  });
+
+  const rows: TreeRow[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    (children.get(parentId) || []).forEach(node => {
+      rows.push({ node, depth });
+      visit(node.id, depth + 1);
+    });
+  };
+  visit(null, 0);
+  return rows;
+};
+
+const NodeDetails: React.FC<{ node: HistoryNode; t: TFunction }> = ({ node, t }) => (
+  <div className="text-xs text-gray-400 space-y-1">
+    <p className="text-gray-200 whitespace-pre-wrap break-words">{node.params.prompt}</p>
+    <p>
+      {node.params.resolution} · {node.params.aspectRatio} · {node.result.variants.length} {t('variantCountLabel')}
+      {node.params.referencedImageIds.length > 0 && ` · ${t('historyReferencesLabel')} ${node.params.referencedImageIds.length}`}
+    </p>
+    <p>{new Date(node.createdAt).toLocaleString()}</p>
+  </div>
+);
+
+const HistoryCompareModal: React.FC<{ nodes: [HistoryNode, HistoryNode]; onClose: () => void; t: TFunction }> = ({ nodes, onClose, t }) => (
+  <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm" onClick={onClose}>
+    <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-6xl border border-gray-700 p-6" onClick={e => e.stopPropagation()}>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-bold text-gray-200">{t('historyCompareTitle')}</h3>
+        <button onClick={onClose}><CloseIcon className="w-6 h-6 text-gray-400" /></button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {nodes.map(node => (
+          <div key={node.id} className="flex flex-col gap-3">
+            <div className="w-full aspect-square bg-black rounded-lg overflow-hidden">
+              {node.result.imageUrl && <img src={node.result.imageUrl} alt={node.params.prompt} className="w-full h-full object-contain" />}
+            </div>
+            <NodeDetails node={node} t={t} />
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ nodes, currentNodeId, onOpen, onDelete, t }) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const rows = useMemo(() => flattenTree(nodes), [nodes]);
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) return prev.filter(x => x !== id);
+      // Keep the most recent two picks
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const compareNodes = compareIds
+    .map(id => nodes.find(node => node.id === id))
+    .filter((node): node is HistoryNode => !!node);
+
+  if (nodes.length === 0) {
+    return <p className="text-sm text-gray-500">{t('historyEmpty')}</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {isComparing && compareNodes.length === 2 && (
+        <HistoryCompareModal nodes={[compareNodes[0], compareNodes[1]]} onClose={() => setIsComparing(false)} t={t} />
+      )}
+      <div className="flex justify-between items-center">
+        <p className="text-xs text-gray-500">{t('historyHelperText')}</p>
+        <button
+          onClick={() => setIsComparing(true)}
+          disabled={compareNodes.length !== 2}
+          className="flex items-center gap-1 text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 px-3 py-1.5 rounded-full disabled:opacity-50"
+        >
+          <CompareIcon className="w-4 h-4" /> {t('compareButton')}
+        </button>
+      </div>
+      {rows.map(({ node, depth }) => (
+        <div
+          key={node.id}
+          style={{ marginLeft: depth * 16 }}
+          className={`flex items-center gap-3 p-2 rounded-lg border cursor-pointer transition-colors ${node.id === currentNodeId ? 'border-purple-500 bg-purple-900/20' : 'border-gray-700 hover:bg-gray-700/50'}`}
+          onClick={() => onOpen(node)}
+        >
+          <input
+            type="checkbox"
+            checked={compareIds.includes(node.id)}
+            onClick={e => e.stopPropagation()}
+            onChange={() => toggleCompare(node.id)}
+            className="accent-purple-500"
+            title={t('compareButton')}
+          />
+          <div className="w-12 h-12 flex-shrink-0 bg-black rounded overflow-hidden">
+            {node.result.imageUrl && <img src={node.result.imageUrl} alt="" className="w-full h-full object-cover" />}
+          </div>
+          <div className="flex-grow min-w-0">
+            <p className="text-sm text-gray-200 truncate">{node.params.prompt}</p>
+            <p className="text-xs text-gray-500">
+              {node.params.resolution} · {node.params.aspectRatio} · {new Date(node.createdAt).toLocaleTimeString()}
+            </p>
+          </div>
+          <button
+            onClick={e => { e.stopPropagation(); onDelete(node); }}
+            className="p-1 text-gray-500 hover:text-red-400"
+            title={t('historyDeleteBranch')}
+          >
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import type { Job, JobStatus, StringTranslationKeys, TFunction } from '../types';
+import { cancelJob, clearFinishedJobs, subscribeJobs } from '../services/jobQueue';
+
+interface JobsPanelProps {
+  t: TFunction;
+}
+
+const STATUS_LABELS: Record<JobStatus, StringTranslationKeys> = {
+  pending: 'jobStatusPending',
+  running: 'jobStatusRunning',
+  retrying: 'jobStatusRetrying',
+  done: 'jobStatusDone',
+  failed: 'jobStatusFailed',
+  cancelled: 'jobStatusCancelled',
+};
+
+const STATUS_COLORS: Record<JobStatus, string> = {
+  pending: 'text-gray-400',
+  running: 'text-blue-300',
+  retrying: 'text-yellow-300',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+// Error codes thrown by the ledger, providers and queue, shown in the user's language
+const ERROR_MESSAGES: Record<string, StringTranslationKeys> = {
+  INSUFFICIENT_CREDITS: 'notEnoughCredits',
+  ACCOUNT_SUSPENDED: 'accountSuspendedMessage',
+  RATE_LIMIT_EXCEEDED: 'rateLimitError',
+  TIMEOUT: 'jobTimeoutError',
+};
+
+const isActive = (job: Job) => job.status === 'pending' || job.status === 'running' || job.status === 'retrying';
+
+// Lists provider calls from the job queue; renders nothing until there is one
+export const JobsPanel: React.FC<JobsPanelProps> = ({ t }) => {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => subscribeJobs(setJobs), []);
+
+  // Ticks the backoff countdown while any job is waiting to retry
+  const hasRetrying = jobs.some(job => job.status === 'retrying');
+  useEffect(() => {
+    if (!hasRetrying) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasRetrying]);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-700 overflow-y-auto max-h-[300px]">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-sm font-medium text-gray-300">{t('jobsTitle')}</h3>
+        {jobs.some(job => !isActive(job)) && (
+          <button onClick={clearFinishedJobs} className="text-xs text-gray-400 hover:text-gray-200">
+            {t('jobsClearFinished')}
+          </button>
+        )}
+      </div>
+      <ul className="flex flex-col gap-2">
+        {[...jobs].reverse().map(job => (
+          <li key={job.id} className="flex items-start justify-between gap-3 bg-gray-900/50 rounded-md p-2">
+            <div className="min-w-0">
+              <p className="text-sm text-gray-200 truncate">{job.label}</p>
+              <p className={`text-xs ${STATUS_COLORS[job.status]}`}>
+                {t(STATUS_LABELS[job.status])}
+                {job.status === 'retrying' && job.retryAt && ` (${Math.max(0, Math.ceil((job.retryAt - now) / 1000))}s)`}
+                {job.attempts > 1 && ` · ${t('jobAttemptLabel')} ${job.attempts}`}
+              </p>
+              {job.status === 'failed' && job.error && (
+                <p className="text-xs text-red-300 break-words">{ERROR_MESSAGES[job.error] ? t(ERROR_MESSAGES[job.error]) : job.error}</p>
+              )}
+            </div>
+            {isActive(job) && (
+              <button onClick={() => cancelJob(job.id)} className="shrink-0 text-xs text-gray-300 bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded">
+                {t('jobCancelButton')}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
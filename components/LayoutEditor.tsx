@@ -1,6 +1,8 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import type { TFunction } from '../types';
-import { CloseIcon, PlusIcon, MirrorIcon, TrashIcon, BringForwardIcon, SendBackwardIcon, RotateIcon } from './Icons';
+import { CloseIcon, PlusIcon, MirrorIcon, TrashIcon, BringForwardIcon, SendBackwardIcon, RotateIcon, DownloadIcon } from './Icons';
+import { ExportDialog } from './ExportDialog';
+import { readUploadedFile } from '../services/imageMetadata';
 
 interface LayoutEditorProps {
     onComplete: (dataUrl: string) => void;
@@ -41,6 +43,7 @@ export const LayoutEditor: React.FC<LayoutEditorProps> = ({ onComplete, onClose,
     const [interaction, setInteraction] = useState<Interaction>(null);
     const [isExporting, setIsExporting] = useState(false);
     const [viewScale, setViewScale] = useState(1);
+    const [exportSource, setExportSource] = useState<HTMLCanvasElement | null>(null);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
     const canvasAreaRef = useRef<HTMLDivElement>(null);
@@ -84,34 +87,30 @@ export const LayoutEditor: React.FC<LayoutEditorProps> = ({ onComplete, onClose,
         const filesArray = Array.from(files).filter(file => file.type.startsWith('image/'));
         if (filesArray.length === 0) return;
 
-        filesArray.forEach(file => {
-            const reader = new FileReader();
-            reader.onload = (event) => {
-                const dataUrl = event.target?.result as string;
-                const img = new Image();
-                img.onload = () => {
-                    const aspectRatio = img.naturalWidth / img.naturalHeight;
-                    const initialWidth = Math.min(img.naturalWidth, canvasWidth * 0.25);
-                    const initialHeight = initialWidth / aspectRatio;
+        filesArray.forEach(async file => {
+            const { dataUrl } = await readUploadedFile(file);
+            const img = new Image();
+            img.onload = () => {
+                const aspectRatio = img.naturalWidth / img.naturalHeight;
+                const initialWidth = Math.min(img.naturalWidth, canvasWidth * 0.25);
+                const initialHeight = initialWidth / aspectRatio;
 
-                    const newLayer: Layer = {
-                        id: `${file.name}-${Date.now()}`,
-                        dataUrl,
-                        x: (canvasWidth / 2) - (initialWidth / 2),
-                        y: (canvasHeight / 2) - (initialHeight / 2),
-                        width: initialWidth,
-                        height: initialHeight,
-                        rotation: 0,
-                        scaleX: 1,
-                        zIndex: ++lastZIndex.current,
-                        aspectRatio,
-                    };
-                    setLayers(prev => [...prev, newLayer]);
-                    setSelectedLayerId(newLayer.id);
+                const newLayer: Layer = {
+                    id: `${file.name}-${Date.now()}`,
+                    dataUrl,
+                    x: (canvasWidth / 2) - (initialWidth / 2),
+                    y: (canvasHeight / 2) - (initialHeight / 2),
+                    width: initialWidth,
+                    height: initialHeight,
+                    rotation: 0,
+                    scaleX: 1,
+                    zIndex: ++lastZIndex.current,
+                    aspectRatio,
                 };
-                img.src = dataUrl;
+                setLayers(prev => [...prev, newLayer]);
+                setSelectedLayerId(newLayer.id);
             };
-            reader.readAsDataURL(file);
+            img.src = dataUrl;
         });
     };
 
@@ -196,6 +195,46 @@ export const LayoutEditor: React.FC<LayoutEditorProps> = ({ onComplete, onClose,
         };
     }, [interaction, handleMouseMove, handleMouseUp]);
 
+    // Draws the layout at full size; the background stays transparent when no color is given
+    const renderLayout = async (background: string | null): Promise<HTMLCanvasElement> => {
+        const canvas = document.createElement('canvas');
+        canvas.width = canvasWidth;
+        canvas.height = canvasHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Could not get canvas context");
+    
+        if (background) {
+            ctx.fillStyle = background;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
+    
+        const imageElements = await Promise.all(
+            layers.map(layer => new Promise<HTMLImageElement>((resolve, reject) => {
+                const img = new Image();
+                img.crossOrigin = "anonymous";
+                img.onload = () => resolve(img);
+                img.onerror = reject;
+                img.src = layer.dataUrl;
+            }))
+        );
+    
+        const sortedLayers = [...layers].sort((a, b) => a.zIndex - b.zIndex);
+    
+        sortedLayers.forEach(layer => {
+            const img = imageElements[layers.findIndex(l => l.id === layer.id)];
+            ctx.save();
+            const centerX = layer.x + layer.width / 2;
+            const centerY = layer.y + layer.height / 2;
+            ctx.translate(centerX, centerY);
+            ctx.rotate((layer.rotation * Math.PI) / 180);
+            ctx.scale(layer.scaleX, 1);
+            ctx.drawImage(img, -layer.width / 2, -layer.height / 2, layer.width, layer.height);
+            ctx.restore();
+        });
+
+        return canvas;
+    };
+
     const handleExport = async () => {
         setIsExporting(true);
         setSelectedLayerId(null);
@@ -204,46 +243,21 @@ export const LayoutEditor: React.FC<LayoutEditorProps> = ({ onComplete, onClose,
         await new Promise(resolve => setTimeout(resolve, 50));
     
         try {
-            const canvas = document.createElement('canvas');
-            canvas.width = canvasWidth;
-            canvas.height = canvasHeight;
-            const ctx = canvas.getContext('2d');
-            if (!ctx) throw new Error("Could not get canvas context");
-    
-            ctx.fillStyle = '#FFFFFF';
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-            const imageElements = await Promise.all(
-                layers.map(layer => new Promise<HTMLImageElement>((resolve, reject) => {
-                    const img = new Image();
-                    img.crossOrigin = "anonymous";
-                    img.onload = () => resolve(img);
-                    img.onerror = reject;
-                    img.src = layer.dataUrl;
-                }))
-            );
-    
-            const sortedLayers = [...layers].sort((a, b) => a.zIndex - b.zIndex);
-    
-            sortedLayers.forEach(layer => {
-                const img = imageElements[layers.findIndex(l => l.id === layer.id)];
-                ctx.save();
-                const centerX = layer.x + layer.width / 2;
-                const centerY = layer.y + layer.height / 2;
-                ctx.translate(centerX, centerY);
-                ctx.rotate((layer.rotation * Math.PI) / 180);
-                ctx.scale(layer.scaleX, 1);
-                ctx.drawImage(img, -layer.width / 2, -layer.height / 2, layer.width, layer.height);
-                ctx.restore();
-            });
-    
-            const dataUrl = canvas.toDataURL('image/jpeg', 1.0);
-            onComplete(dataUrl);
+            const canvas = await renderLayout('#FFFFFF');
+            onComplete(canvas.toDataURL('image/jpeg', 1.0));
         } catch (error) {
             console.error("Failed to export layout:", error);
             setIsExporting(false);
         }
     };
+
+    const handleDownload = async () => {
+        try {
+            setExportSource(await renderLayout(null));
+        } catch (error) {
+            console.error("Failed to render layout for download:", error);
+        }
+    };
     
     const changeZIndex = (direction: 'up' | 'down') => {
         if (!selectedLayer) return;
@@ -349,11 +363,16 @@ export const LayoutEditor: React.FC<LayoutEditorProps> = ({ onComplete, onClose,
                 {/* Footer */}
                 <footer className="flex justify-end items-center p-3 border-t border-gray-700 flex-shrink-0 gap-3">
                     <button onClick={onClose} className="bg-gray-600 hover:bg-gray-500 text-white font-semibold py-2 px-4 rounded-lg">{t('layoutCancel')}</button>
+                    <button onClick={handleDownload} disabled={layers.length === 0 || isExporting} className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed">
+                        <DownloadIcon className="w-5 h-5" />
+                        <span>{t('downloadButton')}</span>
+                    </button>
                     <button onClick={handleExport} disabled={layers.length === 0 || isExporting} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed">
                         {isExporting ? t('generatingButton') : t('layoutAiEdit')}
                     </button>
                 </footer>
             </div>
+            {exportSource && <ExportDialog source={exportSource} baseName="ivan-ai-layout" onClose={() => setExportSource(null)} t={t} />}
         </div>
     );
 };
@@ -2,38 +2,25 @@
 
 
 import React from 'react';
-import type { TFunction, StringTranslationKeys } from '../types';
-import { UndoIcon, SunIcon, MoonIcon, ContrastIcon, SaturationIcon, SharpenIcon, BlurIcon } from './Icons';
-
-export type LightBrushMode = 
-  | 'increaseWhiteLight'
-  | 'increaseYellowLight'
-  | 'increaseBlueDark'
-  | 'decreaseBrightness'
-  | 'decreaseHighlights'
-  | 'increaseShadows'
-  | 'increaseContrast'
-  | 'decreaseContrast'
-  | 'increaseSaturation'
-  | 'decreaseSaturation'
-  | 'increaseSharpness'
-  | 'increaseBlur';
-
-export interface LightBrushSettings {
-    size: number;
-    strength: number;
-    feather: number;
-    mode: LightBrushMode;
-    color: string;
-}
+import type { TFunction, StringTranslationKeys, LightBrushMode, LightBrushSettings, TonalRange } from '../types';
+import { UndoIcon, SunIcon, MoonIcon, ContrastIcon, SaturationIcon, SharpenIcon, BlurIcon, StackIcon, SparklesIcon } from './Icons';
 
 interface LightBrushPanelProps {
     settings: LightBrushSettings;
     onSettingsChange: (settings: LightBrushSettings) => void;
     onUndo: () => void;
+    hasCloneSource: boolean;
+    isPickingCloneSource: boolean;
+    onPickingCloneSourceChange: (isPicking: boolean) => void;
     t: TFunction;
 }
 
+const TONAL_RANGES: { id: TonalRange; labelKey: StringTranslationKeys }[] = [
+    { id: 'shadows', labelKey: 'tonalRangeShadows' },
+    { id: 'midtones', labelKey: 'tonalRangeMidtones' },
+    { id: 'highlights', labelKey: 'tonalRangeHighlights' },
+];
+
 const Slider: React.FC<{ label: string; value: number; onChange: (value: number) => void; min?: number; max?: number; step?: number; resetValue: number; }> =
     ({ label, value, onChange, min = 0, max = 100, step = 1, resetValue }) => (
         <div>
@@ -49,8 +36,8 @@ const Slider: React.FC<{ label: string; value: number; onChange: (value: number)
         </div>
     );
 
-export const LightBrushPanel: React.FC<LightBrushPanelProps> = ({ settings, onSettingsChange, onUndo, t }) => {
-    const handleSettingChange = (key: keyof LightBrushSettings, value: number | string | LightBrushMode) => {
+export const LightBrushPanel: React.FC<LightBrushPanelProps> = ({ settings, onSettingsChange, onUndo, hasCloneSource, isPickingCloneSource, onPickingCloneSourceChange, t }) => {
+    const handleSettingChange = (key: keyof LightBrushSettings, value: number | string | LightBrushMode | TonalRange) => {
         onSettingsChange({ ...settings, [key]: value });
     };
 
@@ -59,6 +46,7 @@ export const LightBrushPanel: React.FC<LightBrushPanelProps> = ({ settings, onSe
         if (mode === 'increaseWhiteLight') defaultColor = '#ffffff';
         else if (mode === 'increaseYellowLight') defaultColor = '#ffdc96';
         else if (mode === 'increaseBlueDark') defaultColor = '#b4c8ff';
+        else if (mode === 'colorGrade') defaultColor = '#ffa64d';
 
         onSettingsChange({ ...settings, mode, color: defaultColor });
     };
@@ -76,9 +64,16 @@ export const LightBrushPanel: React.FC<LightBrushPanelProps> = ({ settings, onSe
         { id: 'decreaseSaturation', icon: SaturationIcon, labelKey: 'decreaseSaturation' },
         { id: 'increaseSharpness', icon: SharpenIcon, labelKey: 'increaseSharpness' },
         { id: 'increaseBlur', icon: BlurIcon, labelKey: 'increaseBlur' },
+        { id: 'dodge', icon: SunIcon, labelKey: 'lightModeDodge' },
+        { id: 'burn', icon: MoonIcon, labelKey: 'lightModeBurn' },
+        { id: 'colorGrade', icon: SaturationIcon, labelKey: 'lightModeColorGrade' },
+        { id: 'clone', icon: StackIcon, labelKey: 'lightModeClone' },
+        { id: 'heal', icon: SparklesIcon, labelKey: 'lightModeHeal' },
     ];
 
-    const showColorPicker = settings.mode === 'increaseWhiteLight' || settings.mode === 'increaseYellowLight' || settings.mode === 'increaseBlueDark';
+    const showColorPicker = settings.mode === 'increaseWhiteLight' || settings.mode === 'increaseYellowLight' || settings.mode === 'increaseBlueDark' || settings.mode === 'colorGrade';
+    const showTonalRange = settings.mode === 'dodge' || settings.mode === 'burn';
+    const showCloneSource = settings.mode === 'clone' || settings.mode === 'heal';
 
     return (
         <div className="flex flex-col gap-4">
@@ -95,7 +90,7 @@ export const LightBrushPanel: React.FC<LightBrushPanelProps> = ({ settings, onSe
                 
                 {showColorPicker && (
                     <div className="flex items-center gap-2 mt-2">
-                        <label className="text-sm text-gray-300">{t('lightColorLabel')}:</label>
+                        <label className="text-sm text-gray-300">{t(settings.mode === 'colorGrade' ? 'gradeColorLabel' : 'lightColorLabel')}:</label>
                         <input
                             type="color"
                             value={settings.color}
@@ -104,6 +99,35 @@ export const LightBrushPanel: React.FC<LightBrushPanelProps> = ({ settings, onSe
                         />
                     </div>
                 )}
+
+                {showTonalRange && (
+                    <div>
+                        <label className="text-sm text-gray-300">{t('tonalRangeLabel')}</label>
+                        <div className="flex bg-gray-700 rounded-lg p-1 mt-1">
+                            {TONAL_RANGES.map(range => (
+                                <button
+                                    key={range.id}
+                                    onClick={() => handleSettingChange('tonalRange', range.id)}
+                                    className={`flex-1 py-1 text-sm rounded-md ${settings.tonalRange === range.id ? 'bg-purple-600 text-white' : 'text-gray-300'}`}
+                                >
+                                    {t(range.labelKey)}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {showCloneSource && (
+                    <div className="space-y-2 mt-2">
+                        <button
+                            onClick={() => onPickingCloneSourceChange(!isPickingCloneSource)}
+                            className={`w-full py-1.5 text-sm rounded-md ${isPickingCloneSource ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+                        >
+                            {t('setCloneSourceButton')}
+                        </button>
+                        <p className="text-xs text-gray-500">{t(hasCloneSource ? 'cloneSourceSetHelp' : 'cloneSourceHelp')}</p>
+                    </div>
+                )}
             </div>
 
             <div className="flex flex-col gap-2 p-3 bg-gray-900/50 rounded-lg">
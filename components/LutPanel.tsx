@@ -0,0 +1,62 @@
+import React, { useRef } from 'react';
+import type { Adjustments, TFunction } from '../types';
+import { FilmIcon, TrashIcon } from './Icons';
+import { parseCubeLut } from '../lib/cubeLut';
+
+interface LutPanelProps {
+    lut: Adjustments['lut'];
+    onChange: (lut: Adjustments['lut']) => void;
+    t: TFunction;
+}
+
+export const LutPanel: React.FC<LutPanelProps> = ({ lut, onChange, t }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const table = parseCubeLut(await file.text(), file.name.replace(/\.[^/.]+$/, ''));
+            onChange({ table, opacity: lut?.opacity ?? 100 });
+        } catch (error) {
+            console.error("Failed to load LUT", error);
+            alert(t('lutLoadFailed'));
+        }
+    };
+
+    return (
+        <div className="p-3 bg-gray-900/50 rounded-lg space-y-3">
+            <div className="flex justify-between items-center">
+                <h4 className="font-semibold text-gray-400">{t('lutLabel')}</h4>
+                <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 text-xs text-purple-400 hover:text-purple-300 font-semibold">
+                    <FilmIcon className="w-4 h-4" />{t('lutLoadButton')}
+                </button>
+                <input ref={fileInputRef} type="file" accept=".cube" onChange={handleFile} className="hidden" />
+            </div>
+            {lut ? (
+                <>
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm text-gray-200 truncate" title={lut.table.name}>{lut.table.name}</span>
+                        <button onClick={() => onChange(null)} className="p-1 text-gray-400 hover:text-red-400" title={t('lutRemoveButton')}>
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <label onDoubleClick={() => onChange({ ...lut, opacity: 100 })} title="Double-click to reset" className="text-sm text-gray-300 cursor-pointer">{t('lutOpacityLabel')}</label>
+                            <span className="text-xs text-gray-400 font-mono bg-gray-700 px-2 py-0.5 rounded">{lut.opacity}</span>
+                        </div>
+                        <input
+                            type="range" min={0} max={100} value={lut.opacity}
+                            onChange={e => onChange({ ...lut, opacity: Number(e.target.value) })}
+                            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                        />
+                    </div>
+                </>
+            ) : (
+                <p className="text-xs text-gray-500">{t('lutEmpty')}</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import type { ImageMetadata, StringTranslationKeys, TFunction } from '../types';
+import { TrashIcon } from './Icons';
+
+interface MetadataPanelProps {
+  metadata: ImageMetadata | null;
+  onChange: (metadata: ImageMetadata) => void;
+  t: TFunction;
+}
+
+type AuthorField = 'artist' | 'copyright' | 'description';
+
+const AUTHOR_FIELDS: { id: AuthorField; labelKey: StringTranslationKeys }[] = [
+  { id: 'artist', labelKey: 'metadataArtistLabel' },
+  { id: 'copyright', labelKey: 'metadataCopyrightLabel' },
+  { id: 'description', labelKey: 'metadataDescriptionLabel' },
+];
+
+const formatExposure = (seconds: number) => seconds >= 1 ? `${seconds}s` : `1/${Math.round(1 / seconds)}s`;
+
+const Row: React.FC<{ label: string; value?: string }> = ({ label, value }) =>
+  value ? (
+    <div className="flex justify-between gap-3 text-xs">
+      <span className="text-gray-500">{label}</span>
+      <span className="text-gray-300 text-right truncate">{value}</span>
+    </div>
+  ) : null;
+
+export const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata, onChange, t }) => {
+  const [draft, setDraft] = useState<Record<AuthorField, string>>({ artist: '', copyright: '', description: '' });
+
+  useEffect(() => {
+    setDraft({
+      artist: metadata?.artist ?? '',
+      copyright: metadata?.copyright ?? '',
+      description: metadata?.description ?? '',
+    });
+  }, [metadata]);
+
+  // Author fields are saved when the input loses focus
+  const commitField = (field: AuthorField) => {
+    const value = draft[field].trim();
+    if (value === (metadata?.[field] ?? '')) return;
+    const next: ImageMetadata = { ...metadata };
+    if (value) next[field] = value; else delete next[field];
+    onChange(next);
+  };
+
+  const removeLocation = () => {
+    if (!metadata) return;
+    const { gps, ...rest } = metadata;
+    onChange(rest);
+  };
+
+  const capture = metadata && [
+    metadata.exposureTime ? formatExposure(metadata.exposureTime) : null,
+    metadata.fNumber ? `f/${metadata.fNumber.toFixed(1)}` : null,
+    metadata.iso ? `ISO ${metadata.iso}` : null,
+    metadata.focalLength ? `${Math.round(metadata.focalLength)}mm` : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="flex flex-col gap-3">
+      {metadata?.aiGenerated && (
+        <span className="self-start text-xs font-semibold bg-purple-900/50 text-purple-300 border border-purple-700 px-2 py-0.5 rounded-full">
+          {t('metadataAiGeneratedBadge')}
+        </span>
+      )}
+      <div className="flex flex-col gap-1">
+        <Row label={t('metadataCameraLabel')} value={[metadata?.make, metadata?.model].filter(Boolean).join(' ')} />
+        <Row label={t('metadataLensLabel')} value={metadata?.lensModel} />
+        <Row label={t('metadataDateLabel')} value={metadata?.dateTimeOriginal} />
+        <Row label={t('metadataCaptureLabel')} value={capture || undefined} />
+        {!metadata && <p className="text-xs text-gray-500">{t('metadataEmpty')}</p>}
+      </div>
+      {metadata?.gps && (
+        <div className="flex items-center justify-between gap-2 text-xs bg-yellow-900/20 border border-yellow-700/50 rounded-md p-2">
+          <span className="text-yellow-200">
+            {t('metadataLocationLabel')}: {metadata.gps.latitude.toFixed(5)}, {metadata.gps.longitude.toFixed(5)}
+          </span>
+          <button onClick={removeLocation} className="flex items-center gap-1 text-yellow-300 hover:text-red-400" title={t('metadataRemoveLocation')}>
+            <TrashIcon className="w-4 h-4" /> {t('metadataRemoveLocation')}
+          </button>
+        </div>
+      )}
+      <div className="flex flex-col gap-2">
+        {AUTHOR_FIELDS.map(({ id, labelKey }) => (
+          <label key={id} className="flex flex-col gap-1 text-xs text-gray-400">
+            {t(labelKey)}
+            <input
+              type="text"
+              value={draft[id]}
+              onChange={e => setDraft(prev => ({ ...prev, [id]: e.target.value }))}
+              onBlur={() => commitField(id)}
+              className="bg-gray-900 border border-gray-600 rounded p-2 text-sm text-gray-200"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,80 +1,31 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import type { TFunction, UploadedImage, StringTranslationKeys } from '../types';
-import { CloseIcon, DownloadIcon, SaveIcon, RedrawIcon, MirrorIcon, FlipVerticalIcon, CropIcon, ZoomInIcon, ZoomOutIcon, ArrowsPointingOutIcon, SwapVerticalIcon, TextIcon, TrashIcon, RotateIcon, ImageIcon, LightBrushIcon, UndoIcon, SharpenIcon, BlurIcon, EraserIcon, EyeIcon, BrushIcon, PlusIcon, EyeSlashIcon, SunIcon, MagicEraserIcon, SparklesIcon, SaturationIcon, ContrastIcon, FilmIcon, UserCircleIcon, CompareIcon, LeafIcon, ArrowUpIcon, ArrowDownIcon, ArrowLeftIcon, ArrowRightIcon, SplitViewIcon, RadialGradientIcon, LinearGradientIcon, InvertIcon } from './Icons';
-import { LightBrushPanel, type LightBrushSettings, type LightBrushMode } from './LightBrushPanel';
-import { editImageWithGemini } from '../services/geminiService';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import type { TFunction, UploadedImage, StringTranslationKeys, PaidImageOperationRunner, Adjustments, Transforms, AdjustmentBrushSettings, ColorChannelId, ColorMixerAdjustments, RawBrushStroke, BrushPoint, MaskType, MaskLayer, MaskComponent, MaskOperation, SegmentationTarget, LightBrushStroke, LightBrushSettings, LightBrushMode, TextOverlay, ImageOverlay, Overlay, EditDocument, Histogram } from '../types';
+import { CloseIcon, DownloadIcon, SaveIcon, RedrawIcon, MirrorIcon, FlipVerticalIcon, CropIcon, ZoomInIcon, ZoomOutIcon, ArrowsPointingOutIcon, SwapVerticalIcon, TextIcon, TrashIcon, RotateIcon, ImageIcon, LightBrushIcon, UndoIcon, SharpenIcon, BlurIcon, EraserIcon, EyeIcon, BrushIcon, PlusIcon, EyeSlashIcon, SunIcon, MagicEraserIcon, SparklesIcon, SaturationIcon, ContrastIcon, FilmIcon, UserCircleIcon, CompareIcon, LeafIcon, ArrowUpIcon, ArrowDownIcon, ArrowLeftIcon, ArrowRightIcon, RedoIcon, SplitViewIcon, RadialGradientIcon, LinearGradientIcon, InvertIcon } from './Icons';
+import { LightBrushPanel } from './LightBrushPanel';
+import { ExportDialog } from './ExportDialog';
+import { PresetLibrary } from './PresetLibrary';
+import { LutPanel } from './LutPanel';
+import { ToneCurvePanel } from './ToneCurvePanel';
+import { HistogramPanel } from './HistogramPanel';
+import { INITIAL_ADJUSTMENTS, INITIAL_COLOR_MIXER, applySharpen, isNeutralAdjustments } from '../lib/imageAdjustments';
+import { getImageProvider, getClosestAspectRatio } from '../services/imageProvider';
+import { createSelection } from '../lib/segmentation';
+import { computeRangeMask, sampleColor } from '../lib/rangeMask';
+import { applyDodgeBurn, blendHeal } from '../lib/retouch';
+import { enqueueJob, cancelJob } from '../services/jobQueue';
+import { analyzeCanvas } from '../services/histogramService';
+import { releaseRenderSource, renderAdjustments, setRenderSource, type RenderedImage } from '../services/renderService';
 
 interface PhotoEditorProps {
     image: UploadedImage;
-    onSave: (id: string, dataUrl: string) => void;
+    onSave: (id: string, dataUrl: string, editDocument: EditDocument) => void;
     onClose: () => void;
+    runPaidImageOperation: PaidImageOperationRunner;
+    removeCost: number;
+    segmentCost: number;
     t: TFunction;
 }
 
-// Overlay Types
-interface BaseOverlay {
-    id: string;
-    type: 'text' | 'image';
-    x: number; // %
-    y: number; // %
-    width: number; // %
-    height: number; // %
-    rotation: number; // degrees
-    opacity: number; // 0-100
-    zIndex: number;
-    templateId?: string; // Links an overlay instance to its source template
-}
-
-interface TextOverlay extends BaseOverlay {
-    type: 'text';
-    text: string;
-    fontSize: number; // px, relative to view
-    fontFamily: string;
-    color: string;
-    bold: boolean;
-    italic: boolean;
-}
-
-interface ImageOverlay extends BaseOverlay {
-    type: 'image';
-    dataUrl: string;
-    aspectRatio: number;
-}
-
-type Overlay = TextOverlay | ImageOverlay;
-
-// The raw data for a stroke stored in history
-interface RawBrushStroke {
-    id: string;
-    points: { x: number; y: number }[];
-    settings: AdjustmentBrushSettings | { size: number; feather: number; strength: number; };
-}
-
-type MaskType = 'brush' | 'radial' | 'linear';
-
-interface MaskLayer {
-    id: string;
-    name: string;
-    isVisible: boolean;
-    type: MaskType;
-    strokes: RawBrushStroke[];
-    gradient?: {
-        start: { x: number, y: number }; // % for Linear (Start), Radial (Center)
-        end: { x: number, y: number };   // % for Linear (End), Radial (Width/Radius Handle)
-        radiusY?: number; // Aspect ratio for Radial (1 = circle)
-        rotation?: number;
-        feather: number;
-    };
-    invert: boolean;
-    adjustments: Adjustments;
-}
-
-interface LightBrushStroke {
-    id: string;
-    points: { x: number; y: number }[];
-    settings: LightBrushSettings;
-}
-
 const COLOR_CHANNELS = [
     { id: 'reds', labelKey: 'redsLabel', color: 'bg-red-500' },
     { id: 'oranges', labelKey: 'orangesLabel', color: 'bg-orange-500' },
@@ -86,49 +37,13 @@ const COLOR_CHANNELS = [
     { id: 'magentas', labelKey: 'magentasLabel', color: 'bg-pink-500' },
 ] as const;
 
-type ColorChannelId = typeof COLOR_CHANNELS[number]['id'];
-
-type ColorMixerAdjustments = Record<ColorChannelId, { h: number; s: number; l: number }>;
-
-
-const INITIAL_COLOR_MIXER: ColorMixerAdjustments = {
-    reds: { h: 0, s: 0, l: 0 },
-    oranges: { h: 0, s: 0, l: 0 },
-    yellows: { h: 0, s: 0, l: 0 },
-    greens: { h: 0, s: 0, l: 0 },
-    aquas: { h: 0, s: 0, l: 0 },
-    blues: { h: 0, s: 0, l: 0 },
-    purples: { h: 0, s: 0, l: 0 },
-    magentas: { h: 0, s: 0, l: 0 },
-};
-
-
-const INITIAL_ADJUSTMENTS = {
-    enhance: 0,
-    accent: 0,
-    brightness: 0,
-    exposure: 0,
-    contrast: 0,
-    highlights: 0,
-    shadows: 0,
-    vignette: 0,
-    saturate: 0,
-    vibrance: 0,
-    temperature: 0,
-    tint: 0,
-    clarity: 0,
-    dehaze: 0,
-    blur: 0,
-    colorMixer: INITIAL_COLOR_MIXER,
-};
-
-const INITIAL_TRANSFORMS = {
+const INITIAL_TRANSFORMS: Transforms = {
     rotate: 0,
     scaleX: 1,
     scaleY: 1,
 };
 
-const INITIAL_ADJUSTMENT_BRUSH_SETTINGS = {
+const INITIAL_ADJUSTMENT_BRUSH_SETTINGS: AdjustmentBrushSettings = {
     size: 50,
     feather: 80,
     strength: 50, // Opacity of the brush stroke
@@ -142,18 +57,9 @@ const INITIAL_LIGHT_BRUSH_SETTINGS: LightBrushSettings = {
     feather: 100,
     mode: 'increaseWhiteLight',
     color: '#ffffff',
+    tonalRange: 'midtones',
 };
 
-type Adjustments = typeof INITIAL_ADJUSTMENTS;
-type Transforms = typeof INITIAL_TRANSFORMS;
-type AdjustmentBrushSettings = typeof INITIAL_ADJUSTMENT_BRUSH_SETTINGS;
-
-const sharpenFilterSVG = `<svg xmlns="http://www.w3.org/2000/svg" width="0" height="0" style="position:absolute;overflow:hidden;">
-  <filter id="photo-editor-sharpen">
-    <feGaussianBlur stdDeviation="0.8" in="SourceGraphic" result="blur" />
-    <feComposite in="SourceGraphic" in2="blur" operator="arithmetic" k1="2.5" k2="-1.5" k3="0" k4="0" />
-  </filter>
-</svg>`;
 
 const getDefaultTemplates = (): TextOverlay[] => {
     const baseStyle = {
@@ -462,6 +368,7 @@ const OverlayRenderer: React.FC<OverlayRendererProps> = ({
         <div
             className="overlay-container"
             style={overlayStyle}
+            onPointerDown={(e) => { if (isTextTabActive) e.stopPropagation(); }}
             onMouseDown={(e) => handleInteractionStart(e, 'move')}
             onTouchStart={(e) => handleInteractionStart(e, 'move')}
             onClick={(e) => { e.stopPropagation(); if (isTextTabActive) onSelect(overlay.id); }}
@@ -531,224 +438,166 @@ const OverlayRenderer: React.FC<OverlayRendererProps> = ({
     );
 };
 
-function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
-    r /= 255; g /= 255; b /= 255;
-    const max = Math.max(r, g, b), min = Math.min(r, g, b);
-    let h = 0, s = 0, l = (max + min) / 2;
-
-    if (max !== min) {
-        const d = max - min;
-        s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-        switch (max) {
-            case r: h = (g - b) / d + (g < b ? 6 : 0); break;
-            case g: h = (b - r) / d + 2; break;
-            case b: h = (r - g) / d + 4; break;
-        }
-        h /= 6;
-    }
-    return [h * 360, s, l];
-}
-
-function hslToRgb(h: number, s: number, l: number): [number, number, number] {
-    let r: number, g: number, b: number;
-    
-    if (s === 0) {
-        r = g = b = l;
-    } else {
-        const hue2rgb = (p: number, q: number, t: number) => {
-            if (t < 0) t += 1;
-            if (t > 1) t -= 1;
-            if (t < 1/6) return p + (q - p) * 6 * t;
-            if (t < 1/2) return q;
-            if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
-            return p;
-        };
-        const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-        const p = 2 * l - q;
-        h /= 360;
-        r = hue2rgb(p, q, h + 1/3);
-        g = hue2rgb(p, q, h);
-        b = hue2rgb(p, q, h - 1/3);
-    }
-    return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
+// One step in the editor's undo history
+interface EditHistoryEntry {
+    label: StringTranslationKeys;
+    document: EditDocument;
 }
 
-const COLOR_RANGES: Record<ColorChannelId, { center: number, range: number }> = {
-    reds: { center: 0, range: 60 },
-    oranges: { center: 30, range: 30 },
-    yellows: { center: 60, range: 30 },
-    greens: { center: 120, range: 90 },
-    aquas: { center: 180, range: 30 },
-    blues: { center: 225, range: 90 },
-    purples: { center: 285, range: 30 },
-    magentas: { center: 330, range: 60 }
+// Changes arriving within this window (slider drags, overlay moves) become one history step
+const HISTORY_COMMIT_DELAY_MS = 400;
+const MAX_HISTORY_ENTRIES = 100;
+
+// Longest wait between a canvas redraw and the histogram catching up
+const HISTOGRAM_INTERVAL_MS = 150;
+
+// Long side of the quick renders shown while a control is being dragged
+const PROXY_RENDER_SIZE = 1024;
+
+// Light pen pressure shrinks a dab to this fraction of the brush size
+const MIN_PRESSURE_SIZE = 0.25;
+// Tilting the pen this far from vertical gives the broadest, softest dab
+const FULL_TILT_DEGREES = 60;
+
+// Size and strength multipliers for a dab. Pressure scales both; tilt lays the
+// pen on its side for a wider, lighter mark. Points without pen data get 1.
+const getPenDynamics = (point: BrushPoint) => {
+    const pressure = point.pressure ?? 1;
+    const tilt = Math.min(1, Math.hypot(point.tiltX ?? 0, point.tiltY ?? 0) / FULL_TILT_DEGREES);
+    return {
+        size: (MIN_PRESSURE_SIZE + (1 - MIN_PRESSURE_SIZE) * pressure) * (1 + 0.5 * tilt),
+        strength: pressure * (1 - 0.25 * tilt),
+    };
 };
 
-const applyVibrance = (imageData: ImageData, vibrance: number) => {
-    const data = imageData.data;
-    const amount = vibrance / 50;
-
-    for (let i = 0; i < data.length; i += 4) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-
-        const [h, s, l] = rgbToHsl(r, g, b);
-
-        if (s < 0.05) continue;
+// Every sample since the last pointermove; pens report far more often than
+// events fire. Browsers without getCoalescedEvents give just the event.
+const getPointerSamples = (e: React.PointerEvent): PointerEvent[] => {
+    const samples = typeof e.nativeEvent.getCoalescedEvents === 'function' ? e.nativeEvent.getCoalescedEvents() : [];
+    return samples.length > 0 ? samples : [e.nativeEvent];
+};
 
-        let skinProtect = 1.0;
-        if (h > 15 && h < 45) {
-            const distFromSkinCenter = Math.abs(h - 30);
-            skinProtect = Math.min(1.0, (distFromSkinCenter / 15.0) * 0.7 + 0.3);
-        }
+const interpolateBrushPoint = (a: BrushPoint, b: BrushPoint, t: number): BrushPoint => {
+    const mix = (from?: number, to?: number) => from === undefined || to === undefined ? from : from + (to - from) * t;
+    return {
+        x: a.x + (b.x - a.x) * t,
+        y: a.y + (b.y - a.y) * t,
+        pressure: mix(a.pressure, b.pressure),
+        tiltX: mix(a.tiltX, b.tiltX),
+        tiltY: mix(a.tiltY, b.tiltY),
+    };
+};
 
-        const saturationBoost = amount * (1 - Math.pow(s, 2)) * skinProtect;
-        const newS = Math.max(0, Math.min(1, s + saturationBoost));
-        
-        if (newS !== s) {
-            const [newR, newG, newB] = hslToRgb(h, newS, l);
-            data[i] = newR;
-            data[i + 1] = newG;
-            data[i + 2] = newB;
-        }
+// Pixel rectangle a stroke's dabs can reach, clipped to the image; null when
+// the stroke lies entirely outside it. Pen dynamics grow a dab to 1.5× the size.
+const getStrokeBounds = (points: BrushPoint[], size: number, width: number, height: number) => {
+    const reach = size * 0.75 + 2;
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const p of points) {
+        minX = Math.min(minX, p.x);
+        minY = Math.min(minY, p.y);
+        maxX = Math.max(maxX, p.x);
+        maxY = Math.max(maxY, p.y);
     }
+    const left = Math.max(0, Math.floor(minX - reach));
+    const top = Math.max(0, Math.floor(minY - reach));
+    const right = Math.min(width, Math.ceil(maxX + reach));
+    const bottom = Math.min(height, Math.ceil(maxY + reach));
+    if (right <= left || bottom <= top) return null;
+    return { x: left, y: top, width: right - left, height: bottom - top };
 };
 
-const applyColorMixer = (imageData: ImageData, colorMixer: ColorMixerAdjustments) => {
-    const data = imageData.data;
+// Light brush modes that paint with pixels taken from elsewhere in the image
+const isCloneMode = (mode: LightBrushMode) => mode === 'clone' || mode === 'heal';
 
-    for (let i = 0; i < data.length; i += 4) {
-        const [h, s, l] = rgbToHsl(data[i], data[i+1], data[i+2]);
-        if (s < 0.01) continue;
+// Mask layers the adjustment brush paints on; AI selections and range masks take brush refinements
+const isPaintableMask = (type?: MaskType) => type === 'brush' || type === 'subject' || type === 'sky' || type === 'color' || type === 'luminance';
 
-        let totalH = 0;
-        let totalS = 0;
-        let totalL = 0;
+const MASK_OPERATION_COMPOSITES: Record<MaskOperation, GlobalCompositeOperation> = {
+    add: 'source-over',
+    subtract: 'destination-out',
+    intersect: 'destination-in',
+};
 
-        for (const key in COLOR_RANGES) {
-            const channel = key as ColorChannelId;
-            const { center, range } = COLOR_RANGES[channel];
-            
-            let dist = Math.abs(h - center);
-            if (dist > 180) {
-                 dist = 360 - dist;
-            }
-            
-            const influence = Math.max(0, 1 - (dist / (range / 2)));
-            if (influence > 0) {
-                totalH += colorMixer[channel].h * influence;
-                totalS += (colorMixer[channel].s / 100) * influence;
-                totalL += (colorMixer[channel].l / 100) * influence;
-            }
-        }
-        
-        const newH = (h + totalH + 360) % 360;
-        const newS = Math.max(0, Math.min(1, s + totalS));
-        const newL = Math.max(0, Math.min(1, l + totalL));
-
-        const [r, g, b] = hslToRgb(newH, newS, newL);
-        data[i] = r;
-        data[i+1] = g;
-        data[i+2] = b;
-    }
+const MASK_OPERATION_LABELS: Record<MaskOperation, StringTranslationKeys> = {
+    add: 'maskOperationAdd',
+    subtract: 'maskOperationSubtract',
+    intersect: 'maskOperationIntersect',
 };
 
-const applyAdjustmentsToContext = (ctx: CanvasRenderingContext2D, adjustments: Adjustments, source: HTMLCanvasElement | HTMLImageElement) => {
-    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+const MASK_TYPE_LABELS: Record<MaskType, StringTranslationKeys> = {
+    brush: 'addBrushMaskButton',
+    radial: 'addRadialMaskButton',
+    linear: 'addLinearMaskButton',
+    subject: 'selectSubjectButton',
+    sky: 'selectSkyButton',
+    color: 'addColorRangeMaskButton',
+    luminance: 'addLuminanceRangeMaskButton',
+};
 
-    const { enhance, accent, brightness, exposure, contrast, clarity, saturate, highlights, shadows, vignette, temperature, tint, blur, colorMixer, dehaze } = adjustments;
-    const enhanceRatio = enhance / 100;
-    const accentRatio = accent / 100;
-    
-    let baseShadows = shadows;
-    let baseHighlights = highlights;
+// Long side of the photo copy colour and luminance range masks are computed on
+const RANGE_MASK_SIZE = 1024;
+
+// A new component of `type` with its default shape
+const createMaskComponent = (type: MaskType, operation: MaskOperation = 'add'): MaskComponent => {
+    const component: MaskComponent = { id: `mask-component-${Date.now()}`, type, operation, strokes: [] };
+    if (type === 'linear') {
+        component.gradient = { start: { x: 50, y: 20 }, end: { x: 50, y: 80 }, feather: 20 };
+    } else if (type === 'radial') {
+        component.gradient = { start: { x: 50, y: 50 }, end: { x: 80, y: 50 }, feather: 20, rotation: 0, radiusY: 1 };
+    } else if (type === 'color') {
+        component.colorRange = { color: null, tolerance: 25, feather: 50 };
+    } else if (type === 'luminance') {
+        component.luminanceRange = { min: 70, max: 100, feather: 50 };
+    }
+    return component;
+};
 
-    baseShadows += accentRatio * 50;
-    baseHighlights -= accentRatio * 40;
+const updateMaskComponent = (layers: MaskLayer[], layerId: string, componentId: string, update: (component: MaskComponent) => MaskComponent) =>
+    layers.map(l => l.id === layerId ? { ...l, components: l.components.map(c => c.id === componentId ? update(c) : c) } : l);
 
-    const effectiveShadows = Math.max(-100, Math.min(100, baseShadows + enhanceRatio * 40));
-    const effectiveHighlights = Math.max(-100, Math.min(100, baseHighlights + enhanceRatio * -30));
-    
-    const effectiveContrast = Math.max(-100, Math.min(100, contrast + enhanceRatio * 15 + (dehaze ?? 0) * 0.3));
-    const effectiveSaturate = Math.max(-100, Math.min(100, saturate + enhanceRatio * 10 + (dehaze ?? 0) * 0.15));
-    const effectiveClarity = Math.max(0, Math.min(10, clarity + enhanceRatio * 2));
-
-    const filterList = [
-        `brightness(${100 + brightness + exposure - ((dehaze ?? 0) * 0.1)}%)`,
-        `contrast(${100 + effectiveContrast + (effectiveClarity * 2.5)}%)`,
-        `saturate(${100 + effectiveSaturate}%)`,
-    ];
-    if (blur > 0) {
-        filterList.push(`blur(${blur}px)`);
-    }
-    if (effectiveClarity > 5) {
-        filterList.push('url(#photo-editor-sharpen)');
-    }
-    ctx.filter = filterList.join(' ');
-    
-    ctx.drawImage(source, 0, 0);
-    ctx.filter = 'none';
+// Layers saved before the tone curve existed lack its fields, and layers saved
+// before components existed hold their one shape at the top level
+const normalizeMaskLayer = (layer: MaskLayer): MaskLayer => {
+    const { type, strokes, gradient, selection, colorRange, luminanceRange, ...rest } = layer as MaskLayer & Partial<Omit<MaskComponent, 'id' | 'operation'>>;
+    const components = rest.components ?? (type ? [{ id: `${layer.id}-shape`, type, operation: 'add' as const, strokes: strokes ?? [], gradient, selection, colorRange, luminanceRange }] : []);
+    return { ...rest, components, adjustments: { ...INITIAL_ADJUSTMENTS, ...layer.adjustments } };
+};
 
-    const isVibranceActive = adjustments.vibrance !== 0;
-    const isColorMixerActive = Object.values(colorMixer).some(c => c.h !== 0 || c.s !== 0 || c.l !== 0);
+// Long side of the photo sent for subject/sky segmentation
+const SEGMENT_SOURCE_SIZE = 1536;
 
-    if (isVibranceActive || isColorMixerActive) {
-        const imageData = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
-        if (isVibranceActive) {
-            applyVibrance(imageData, adjustments.vibrance);
-        }
-        if (isColorMixerActive) {
-            applyColorMixer(imageData, colorMixer);
-        }
-        ctx.putImageData(imageData, 0, 0);
-    }
+// Draws a render into `canvas` at the photo's full size, stretching proxies
+// Worker renders hold GPU memory until closed, so every one must end up here
+const releaseRender = (image: RenderedImage) => {
+    if (image instanceof ImageBitmap) image.close();
+};
 
-    if (temperature !== 0) {
-        ctx.globalCompositeOperation = 'overlay';
-        if (temperature > 0) {
-            ctx.fillStyle = `rgba(255, 165, 0, ${temperature / 250})`;
-        } else {
-            ctx.fillStyle = `rgba(0, 100, 255, ${-temperature / 250})`;
-        }
-        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
-    }
-    if (tint !== 0) {
-        ctx.globalCompositeOperation = 'overlay';
-        if (tint > 0) {
-            ctx.fillStyle = `rgba(255, 0, 255, ${tint / 250})`;
-        } else {
-            ctx.fillStyle = `rgba(0, 255, 0, ${-tint / 250})`;
-        }
-        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
-    }
+const drawRender = (canvas: HTMLCanvasElement, image: RenderedImage, width: number, height: number) => {
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(image, 0, 0, width, height);
+    releaseRender(image);
+};
 
-    if (effectiveHighlights !== 0) {
-        ctx.globalCompositeOperation = 'soft-light';
-        const alpha = Math.abs(effectiveHighlights) / 100;
-        ctx.fillStyle = effectiveHighlights > 0 ? `rgba(255,255,255,${alpha})` : `rgba(0,0,0,${alpha})`;
-        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
-    }
-    if (effectiveShadows !== 0) {
-        ctx.globalCompositeOperation = 'soft-light';
-        const alpha = Math.pow(Math.abs(effectiveShadows) / 100, 1.5); 
-        ctx.fillStyle = effectiveShadows > 0 ? `rgba(255,255,255,${alpha})` : `rgba(0,0,0,${alpha})`;
-        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
-    }
-    
-    ctx.globalCompositeOperation = 'source-over';
-
-    if (vignette > 0) {
-        const outerRadius = Math.sqrt(Math.pow(ctx.canvas.width / 2, 2) + Math.pow(ctx.canvas.height / 2, 2));
-        const gradient = ctx.createRadialGradient(
-            ctx.canvas.width / 2, ctx.canvas.height / 2, outerRadius * (1 - vignette / 100),
-            ctx.canvas.width / 2, ctx.canvas.height / 2, outerRadius
-        );
-        gradient.addColorStop(0, 'rgba(0,0,0,0)');
-        gradient.addColorStop(1, `rgba(0,0,0,${vignette / 100 * 0.8})`);
-        ctx.fillStyle = gradient;
-        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
-    }
+const isSameDocument = (a: EditDocument, b: EditDocument) =>
+    a.sourceDataUrl === b.sourceDataUrl &&
+    a.adjustments === b.adjustments &&
+    a.transforms === b.transforms &&
+    a.overlays === b.overlays &&
+    a.maskLayers === b.maskLayers &&
+    a.lightBrushStrokes === b.lightBrushStrokes &&
+    a.removeToolStrokes === b.removeToolStrokes;
+
+// Names a step after the part of the stack it touched
+const describeChange = (prev: EditDocument, next: EditDocument): StringTranslationKeys => {
+    if (prev.sourceDataUrl !== next.sourceDataUrl) return 'historyStepImageReplaced';
+    if (prev.maskLayers !== next.maskLayers) return 'adjustmentBrushLabel';
+    if (prev.lightBrushStrokes !== next.lightBrushStrokes) return 'lightbrushLabel';
+    if (prev.overlays !== next.overlays) return 'textLabel';
+    if (prev.removeToolStrokes !== next.removeToolStrokes) return 'removeToolLabel';
+    if (prev.transforms !== next.transforms) return 'historyStepTransform';
+    return 'adjustmentsLabel';
 };
 
 interface PanControlProps {
@@ -789,6 +638,7 @@ const PanControl: React.FC<PanControlProps> = ({ onPan, panSpeed = 5 }) => {
   return (
     <div 
         className="absolute bottom-4 right-4 z-20 w-40 h-40 grid grid-cols-3 grid-rows-3 gap-2"
+        onPointerDown={e => e.stopPropagation()}
         onMouseDown={e => e.stopPropagation()}
         onMouseUp={e => e.stopPropagation()}
         onTouchStart={e => e.stopPropagation()}
@@ -847,10 +697,12 @@ const PanControl: React.FC<PanControlProps> = ({ onPan, panSpeed = 5 }) => {
   );
 };
 
-export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose, t }) => {
-    const [editedDataUrl, setEditedDataUrl] = useState(image.dataUrl);
-    const [adjustments, setAdjustments] = useState<Adjustments>(INITIAL_ADJUSTMENTS);
-    const [transforms, setTransforms] = useState<Transforms>(INITIAL_TRANSFORMS);
+export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose, runPaidImageOperation, removeCost, segmentCost, t }) => {
+    // Reopening an edited image restores its edit stack on top of the unedited source
+    const savedDocument = image.editDocument;
+    const [editedDataUrl, setEditedDataUrl] = useState(savedDocument?.sourceDataUrl ?? image.dataUrl);
+    const [adjustments, setAdjustments] = useState<Adjustments>(() => savedDocument ? { ...INITIAL_ADJUSTMENTS, ...savedDocument.adjustments } : INITIAL_ADJUSTMENTS);
+    const [transforms, setTransforms] = useState<Transforms>(() => savedDocument ? { ...INITIAL_TRANSFORMS, ...savedDocument.transforms } : INITIAL_TRANSFORMS);
     const [isSaving, setIsSaving] = useState(false);
     
     const [activeTab, setActiveTab] = useState<'adjust' | 'lightBrush' | 'adjustmentBrush' | 'text' | 'remove'>('adjust');
@@ -860,30 +712,51 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
     const [isSplitView, setIsSplitView] = useState(false);
     const [splitPosition, setSplitPosition] = useState(50);
 
-    const [overlays, setOverlays] = useState<Overlay[]>([]);
+    const [overlays, setOverlays] = useState<Overlay[]>(savedDocument?.overlays ?? []);
     const [selectedOverlayId, setSelectedOverlayId] = useState<string | null>(null);
     const overlaysRef = useRef(overlays);
     useEffect(() => {
         overlaysRef.current = overlays;
     }, [overlays]);
-    const lastZIndex = useRef<number>(0);
+    const lastZIndex = useRef<number>(Math.max(0, ...overlays.map(o => o.zIndex)));
     const watermarkInputRef = useRef<HTMLInputElement>(null);
     const isOverlayInteractingRef = useRef(false);
      
-    const [maskLayers, setMaskLayers] = useState<MaskLayer[]>([]);
-    const [activeMaskLayerId, setActiveMaskLayerId] = useState<string | null>(null);
+    const [maskLayers, setMaskLayers] = useState<MaskLayer[]>(() => savedDocument?.maskLayers.map(normalizeMaskLayer) ?? []);
+    const [activeMaskLayerId, setActiveMaskLayerId] = useState<string | null>(savedDocument?.maskLayers[0]?.id ?? null);
+    const [activeMaskComponentId, setActiveMaskComponentId] = useState<string | null>(null);
     const [adjustmentBrushSettings, setAdjustmentBrushSettings] = useState<AdjustmentBrushSettings>(INITIAL_ADJUSTMENT_BRUSH_SETTINGS);
     const [isBrushing, setIsBrushing] = useState(false);
     const currentAdjustmentStrokeRef = useRef<RawBrushStroke | null>(null);
     const activeMaskLayer = maskLayers.find(l => l.id === activeMaskLayerId);
+    // Brushing, gradient handles and the eyedropper edit this component of the active layer
+    const activeMaskComponent = activeMaskLayer?.components.find(c => c.id === activeMaskComponentId) ?? activeMaskLayer?.components[activeMaskLayer.components.length - 1];
     const isGradientInteractRef = useRef(false);
+    // Decoded subject/sky selections, keyed by their data URL
+    const selectionImagesRef = useRef<Record<string, HTMLImageElement>>({});
+    const [selectionsLoaded, setSelectionsLoaded] = useState(0);
+    const [segmentingTarget, setSegmentingTarget] = useState<SegmentationTarget | null>(null);
+    // Range masks are computed from a scaled copy of the photo and cached per
+    // layer until its range changes
+    const rangeSourceRef = useRef<{ image: HTMLImageElement; pixels: ImageData } | null>(null);
+    const rangeMaskCacheRef = useRef<Record<string, { key: string; pixels: ImageData; canvas: HTMLCanvasElement }>>({});
+    const [isPickingRangeColor, setIsPickingRangeColor] = useState(false);
+    const isPickingColor = isPickingRangeColor && activeTab === 'adjustmentBrush' && activeMaskComponent?.type === 'color';
 
     const [lightBrushSettings, setLightBrushSettings] = useState<LightBrushSettings>(INITIAL_LIGHT_BRUSH_SETTINGS);
-    const [lightBrushStrokes, setLightBrushStrokes] = useState<LightBrushStroke[]>([]);
+    const [lightBrushStrokes, setLightBrushStrokes] = useState<LightBrushStroke[]>(savedDocument?.lightBrushStrokes ?? []);
     const currentLightBrushStrokeRef = useRef<LightBrushStroke | null>(null);
-
-    const [removeToolStrokes, setRemoveToolStrokes] = useState<RawBrushStroke[]>([]);
+    // Clone/heal source, set by Alt-click (or a tap after "Set source"). The
+    // first stroke after it fixes the offset; later strokes keep it, so the
+    // source follows the brush.
+    const [cloneSource, setCloneSource] = useState<{ x: number; y: number } | null>(null);
+    const cloneOffsetRef = useRef<{ x: number; y: number } | null>(null);
+    const [isPickingCloneSource, setIsPickingCloneSource] = useState(false);
+    const isCloning = activeTab === 'lightBrush' && isCloneMode(lightBrushSettings.mode);
+
+    const [removeToolStrokes, setRemoveToolStrokes] = useState<RawBrushStroke[]>(savedDocument?.removeToolStrokes ?? []);
     const [removeToolSettings, setRemoveToolSettings] = useState<{ size: number; feather: number; }>({ size: 50, feather: 50 });
+    const removeJobIdRef = useRef<string | null>(null);
     const [isRemoving, setIsRemoving] = useState(false);
     const currentRemoveStrokeRef = useRef<RawBrushStroke | null>(null);
 
@@ -914,13 +787,164 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
     const visibleCanvasRef = useRef<HTMLCanvasElement>(null);
     const baseLayerCanvasRef = useRef(document.createElement('canvas'));
     const maskCanvasRefs = useRef<Record<string, HTMLCanvasElement>>({});
+    const maskComponentCanvasRef = useRef(document.createElement('canvas'));
     const removeMaskCanvasRef = useRef(document.createElement('canvas'));
     const lightBrushCanvasRef = useRef(document.createElement('canvas'));
     const brushingCanvasRef = useRef<HTMLCanvasElement>(null);
+    // Touch pointers that are down, for pinch zoom
+    const touchPointsRef = useRef(new Map<number, { x: number; y: number }>());
+    const isSplitDraggingRef = useRef(false);
     const [redrawTrigger, setRedrawTrigger] = useState(0);
+
+    // --- Off-thread rendering ---
+    // The global adjustments and each mask layer's adjustments are rendered by
+    // the render service into these canvases, then composited below.
+    const [renderSourceId, setRenderSourceId] = useState<number | null>(null);
+    const [renderVersion, setRenderVersion] = useState(0);
+    const [isInteracting, setIsInteracting] = useState(false);
+    const maskRenderCanvasRefs = useRef<Record<string, HTMLCanvasElement>>({});
+    const isFullRenderPendingRef = useRef(true);
+    // Inputs of the last full-size render, so grabbing a control without moving it re-renders nothing
+    const lastFullRenderRef = useRef<unknown[] | null>(null);
+    const fullRenderWaitersRef = useRef<(() => void)[]>([]);
+
+    const waitForFullRender = useCallback(() => {
+        if (!isFullRenderPendingRef.current) return Promise.resolve();
+        return new Promise<void>(resolve => fullRenderWaitersRef.current.push(resolve));
+    }, []);
+
+    useEffect(() => {
+        const handleRelease = () => setIsInteracting(false);
+        window.addEventListener('pointerup', handleRelease);
+        window.addEventListener('pointercancel', handleRelease);
+        window.addEventListener('blur', handleRelease);
+        return () => {
+            window.removeEventListener('pointerup', handleRelease);
+            window.removeEventListener('pointercancel', handleRelease);
+            window.removeEventListener('blur', handleRelease);
+        };
+    }, []);
+
+    // --- Histogram & clipping ---
+    const [histogram, setHistogram] = useState<Histogram | null>(null);
+    const [showHighlightClipping, setShowHighlightClipping] = useState(false);
+    const [showShadowClipping, setShowShadowClipping] = useState(false);
+    const clippingCanvasRef = useRef<HTMLCanvasElement>(null);
+    const clippingOptionsRef = useRef({ highlights: false, shadows: false });
+    const histogramTimerRef = useRef<number | null>(null);
+
+    // Slider drags redraw the canvas every frame; analyse at most once per
+    // interval, always reading whatever the canvas shows when the timer fires
+    const scheduleHistogram = useCallback(() => {
+        if (histogramTimerRef.current !== null) return;
+        histogramTimerRef.current = window.setTimeout(async () => {
+            histogramTimerRef.current = null;
+            const canvas = visibleCanvasRef.current;
+            if (!canvas) return;
+            try {
+                const analysis = await analyzeCanvas(canvas, clippingOptionsRef.current);
+                if (!analysis) return;
+                setHistogram(analysis.histogram);
+                const clippingCanvas = clippingCanvasRef.current;
+                const clippingCtx = clippingCanvas?.getContext('2d');
+                if (!clippingCanvas || !clippingCtx) return;
+                if (analysis.overlay) {
+                    clippingCanvas.width = analysis.overlay.width;
+                    clippingCanvas.height = analysis.overlay.height;
+                    clippingCtx.putImageData(analysis.overlay, 0, 0);
+                } else {
+                    clippingCtx.clearRect(0, 0, clippingCanvas.width, clippingCanvas.height);
+                }
+            } catch (error) {
+                console.error("Failed to analyse the canvas", error);
+            }
+        }, HISTOGRAM_INTERVAL_MS);
+    }, []);
+
+    useEffect(() => {
+        clippingOptionsRef.current = { highlights: showHighlightClipping, shadows: showShadowClipping };
+        scheduleHistogram();
+    }, [showHighlightClipping, showShadowClipping, scheduleHistogram]);
+
+    useEffect(() => () => {
+        if (histogramTimerRef.current !== null) clearTimeout(histogramTimerRef.current);
+    }, []);
     
     const [isCropping, setIsCropping] = useState(false);
+    const [exportSource, setExportSource] = useState<HTMLCanvasElement | null>(null);
     const selectedOverlay = overlays.find(o => o.id === selectedOverlayId) || null;
+
+    // --- Edit history ---
+    // Every change to the edit stack is recorded as an EditDocument snapshot. Snapshots
+    // share the parts that did not change, and because the source image is part of
+    // them, crops and AI removals can be undone like any other step.
+    const currentDocument = useMemo<EditDocument>(() => ({
+        version: 1,
+        sourceDataUrl: editedDataUrl,
+        adjustments,
+        transforms,
+        overlays,
+        maskLayers,
+        lightBrushStrokes,
+        removeToolStrokes,
+    }), [editedDataUrl, adjustments, transforms, overlays, maskLayers, lightBrushStrokes, removeToolStrokes]);
+    const [editHistory, setEditHistory] = useState<{ entries: EditHistoryEntry[]; index: number }>(() => ({
+        entries: [{ label: 'historyStepOpened', document: currentDocument }],
+        index: 0,
+    }));
+    // Set just before a change that should carry its own name (crop, AI remove, reset)
+    const pendingHistoryLabelRef = useRef<StringTranslationKeys | null>(null);
+    const presentDocument = editHistory.entries[editHistory.index].document;
+    const hasUncommittedChange = !isSameDocument(presentDocument, currentDocument);
+
+    useEffect(() => {
+        if (!hasUncommittedChange) return;
+        const timer = setTimeout(() => {
+            const label = pendingHistoryLabelRef.current ?? describeChange(presentDocument, currentDocument);
+            pendingHistoryLabelRef.current = null;
+            setEditHistory(prev => {
+                const entries = [...prev.entries.slice(0, prev.index + 1), { label, document: currentDocument }].slice(-MAX_HISTORY_ENTRIES);
+                return { entries, index: entries.length - 1 };
+            });
+        }, HISTORY_COMMIT_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [hasUncommittedChange, presentDocument, currentDocument]);
+
+    const restoreDocument = useCallback((doc: EditDocument) => {
+        setEditedDataUrl(doc.sourceDataUrl);
+        setAdjustments(doc.adjustments);
+        setTransforms(doc.transforms);
+        setOverlays(doc.overlays);
+        setMaskLayers(doc.maskLayers);
+        setLightBrushStrokes(doc.lightBrushStrokes);
+        setRemoveToolStrokes(doc.removeToolStrokes);
+        setActiveMaskLayerId(prev => doc.maskLayers.some(l => l.id === prev) ? prev : doc.maskLayers[0]?.id ?? null);
+        setSelectedOverlayId(prev => doc.overlays.some(o => o.id === prev) ? prev : null);
+        lastZIndex.current = Math.max(lastZIndex.current, ...doc.overlays.map(o => o.zIndex));
+        pendingHistoryLabelRef.current = null;
+    }, []);
+
+    const handleJumpToHistory = useCallback((index: number) => {
+        const entry = editHistory.entries[index];
+        if (!entry) return;
+        setEditHistory(prev => ({ ...prev, index }));
+        restoreDocument(entry.document);
+    }, [editHistory.entries, restoreDocument]);
+
+    const handleUndo = useCallback(() => {
+        // A change still waiting to be committed is simply dropped
+        if (hasUncommittedChange) {
+            restoreDocument(presentDocument);
+        } else if (editHistory.index > 0) {
+            handleJumpToHistory(editHistory.index - 1);
+        }
+    }, [hasUncommittedChange, presentDocument, editHistory.index, restoreDocument, handleJumpToHistory]);
+
+    const handleRedo = useCallback(() => {
+        if (!hasUncommittedChange && editHistory.index < editHistory.entries.length - 1) {
+            handleJumpToHistory(editHistory.index + 1);
+        }
+    }, [hasUncommittedChange, editHistory.index, editHistory.entries.length, handleJumpToHistory]);
     
     useEffect(() => {
         if (activeTab !== 'text') {
@@ -938,32 +962,26 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
         }));
     }, []);
 
+    const handleApplyPreset = useCallback((next: Adjustments) => {
+        pendingHistoryLabelRef.current = 'presetsTitle';
+        setAdjustments(next);
+    }, []);
+
     useEffect(() => {
         if (activeTab === 'adjustmentBrush' && maskLayers.length === 0) {
             const newLayer: MaskLayer = {
                 id: `mask-${Date.now()}`,
                 name: `${t('maskLayerName')} 1`,
                 isVisible: true,
-                type: 'brush',
-                strokes: [],
+                components: [createMaskComponent('brush')],
                 adjustments: { ...INITIAL_ADJUSTMENTS, colorMixer: INITIAL_COLOR_MIXER },
                 invert: false,
             };
             setMaskLayers([newLayer]);
             setActiveMaskLayerId(newLayer.id);
         }
-    }, [activeTab, maskLayers.length, t]);
-
-    useEffect(() => {
-        const svgContainer = document.createElement('div');
-        svgContainer.innerHTML = sharpenFilterSVG;
-        svgContainer.id = "photo-editor-svg-filters";
-        document.body.appendChild(svgContainer);
-        return () => {
-             const el = document.getElementById("photo-editor-svg-filters");
-             if (el) document.body.removeChild(el);
-        };
-    }, []);
+        // Only on entering the tab, so undoing the first layer does not immediately recreate it
+    }, [activeTab]);
 
     const resetAll = useCallback(() => {
         setAdjustments(INITIAL_ADJUSTMENTS);
@@ -976,6 +994,8 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
         setAdjustmentBrushSettings(INITIAL_ADJUSTMENT_BRUSH_SETTINGS);
         setLightBrushSettings(INITIAL_LIGHT_BRUSH_SETTINGS);
         setLightBrushStrokes([]);
+        setCloneSource(null);
+        cloneOffsetRef.current = null;
         setRemoveToolStrokes([]);
     }, []);
 
@@ -989,16 +1009,14 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
             const target = e.target as HTMLElement;
             const isTyping = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable;
 
-            if (e.ctrlKey && !isTyping) {
-                if (e.key === 'z') {
+            if ((e.ctrlKey || e.metaKey) && !isTyping) {
+                const key = e.key.toLowerCase();
+                if (key === 'y' || (key === 'z' && e.shiftKey)) {
                     e.preventDefault();
-                    if(activeTab === 'adjustmentBrush') {
-                        handleUndoAdjustmentStroke();
-                    } else if (activeTab === 'lightBrush') {
-                        handleUndoLightBrushStroke();
-                    } else if (activeTab === 'remove') {
-                        handleUndoRemoveStroke();
-                    }
+                    if (!isCropping) handleRedo();
+                } else if (key === 'z') {
+                    e.preventDefault();
+                    if (!isCropping) handleUndo();
                 } else if (e.key === '0' || e.code === 'Digit0') {
                     e.preventDefault();
                     resetView();
@@ -1024,7 +1042,7 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
             window.removeEventListener('keydown', handleKeyDown);
             window.removeEventListener('keyup', handleKeyUp);
         };
-    }, [resetView, activeTab, activeMaskLayerId]);
+    }, [resetView, handleUndo, handleRedo, isCropping]);
 
     useEffect(() => {
         const canvases = [
@@ -1110,18 +1128,196 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
     }, [sourceImage]);
     
     useEffect(() => {
-        const canvas = baseLayerCanvasRef.current;
-        const source = sourceImage;
-        if (!source || source.naturalWidth === 0) return;
+        if (!sourceImage || sourceImage.naturalWidth === 0) return;
+        let sourceId: number | null = null;
+        let isCurrent = true;
+        setRenderSource(sourceImage)
+            .then(id => {
+                sourceId = id;
+                if (isCurrent) setRenderSourceId(id);
+                else releaseRenderSource(id);
+            })
+            .catch(e => console.error("Failed to prepare the image for rendering", e));
+        return () => {
+            isCurrent = false;
+            if (sourceId !== null) releaseRenderSource(sourceId);
+        };
+    }, [sourceImage]);
 
-        canvas.width = source.naturalWidth;
-        canvas.height = source.naturalHeight;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-        
-        applyAdjustmentsToContext(ctx, adjustments, source);
-        
-    }, [adjustments, sourceImage, redrawTrigger]);
+    // Stroke edits don't change what a layer renders, so only re-render when
+    // the visible layers or their adjustments change
+    const maskRenderKey = JSON.stringify(maskLayers.filter(l => l.isVisible && !isNeutralAdjustments(l.adjustments)).map(l => [l.id, l.adjustments]));
+    const maskRenderLayers = useMemo(
+        () => maskLayers.filter(l => l.isVisible && !isNeutralAdjustments(l.adjustments)),
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [maskRenderKey]
+    );
+
+    useEffect(() => {
+        if (!sourceImage || renderSourceId === null) return;
+        const inputs = [adjustments, maskRenderLayers, sourceImage, renderSourceId, redrawTrigger];
+        if (lastFullRenderRef.current?.every((input, i) => input === inputs[i])) return;
+        let isCurrent = true;
+        const maxSize = isInteracting ? PROXY_RENDER_SIZE : undefined;
+        isFullRenderPendingRef.current = true;
+
+        const handleRenderError = (e: unknown) => {
+            if (e instanceof Error && e.message === 'CANCELLED') return;
+            console.error("Failed to render adjustments", e);
+            if (!isCurrent) return;
+            // Don't leave an export waiting on a render that will never arrive
+            isFullRenderPendingRef.current = false;
+            setRenderVersion(v => v + 1);
+        };
+
+        const layerRenders = maskRenderLayers.map(layer =>
+            renderAdjustments(`mask-${layer.id}`, renderSourceId, { ...adjustments, ...layer.adjustments }, maxSize));
+        Promise.allSettled([renderAdjustments('base', renderSourceId, adjustments, maxSize), ...layerRenders])
+            .then(results => {
+                const images = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+                const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+                // A stale or partly failed render is dropped, but the layers that did arrive still need closing
+                if (!isCurrent || failure) {
+                    images.forEach(releaseRender);
+                    if (failure) handleRenderError(failure.reason);
+                    return;
+                }
+                const [base, ...layers] = images;
+                const { naturalWidth: width, naturalHeight: height } = sourceImage;
+                drawRender(baseLayerCanvasRef.current, base, width, height);
+                const renderCanvases: Record<string, HTMLCanvasElement> = {};
+                maskRenderLayers.forEach((layer, i) => {
+                    const canvas = maskRenderCanvasRefs.current[layer.id] ?? document.createElement('canvas');
+                    drawRender(canvas, layers[i], width, height);
+                    renderCanvases[layer.id] = canvas;
+                });
+                maskRenderCanvasRefs.current = renderCanvases;
+                isFullRenderPendingRef.current = maxSize !== undefined;
+                lastFullRenderRef.current = maxSize === undefined ? inputs : null;
+                setRenderVersion(v => v + 1);
+            })
+            .catch(handleRenderError);
+        return () => {
+            isCurrent = false;
+        };
+    }, [adjustments, maskRenderLayers, sourceImage, renderSourceId, isInteracting, redrawTrigger]);
+
+    const getRangeSourcePixels = useCallback((): ImageData | null => {
+        if (!sourceImage) return null;
+        if (rangeSourceRef.current?.image === sourceImage) return rangeSourceRef.current.pixels;
+        const scale = Math.min(1, RANGE_MASK_SIZE / Math.max(sourceImage.naturalWidth, sourceImage.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(sourceImage.naturalWidth * scale));
+        canvas.height = Math.max(1, Math.round(sourceImage.naturalHeight * scale));
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) return null;
+        ctx.drawImage(sourceImage, 0, 0, canvas.width, canvas.height);
+        const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        rangeSourceRef.current = { image: sourceImage, pixels };
+        return pixels;
+    }, [sourceImage]);
+
+    const getRangeMaskCanvas = (component: MaskComponent): HTMLCanvasElement | null => {
+        const pixels = getRangeSourcePixels();
+        if (!pixels) return null;
+        const key = JSON.stringify([component.type, component.colorRange, component.luminanceRange]);
+        const cached = rangeMaskCacheRef.current[component.id];
+        if (cached && cached.key === key && cached.pixels === pixels) return cached.canvas;
+
+        const mask = computeRangeMask(pixels, component);
+        if (!mask) return null;
+        const canvas = document.createElement('canvas');
+        canvas.width = mask.width;
+        canvas.height = mask.height;
+        canvas.getContext('2d')?.putImageData(mask, 0, 0);
+        rangeMaskCacheRef.current[component.id] = { key, pixels, canvas };
+        return canvas;
+    };
+
+    // Eyedropper for colour-range components; samples the unadjusted photo
+    const handlePickRangeColor = useCallback((coords: { x: number; y: number }) => {
+        const pixels = getRangeSourcePixels();
+        if (!pixels || !sourceImage || !activeMaskLayerId || !activeMaskComponent) return;
+        const scale = pixels.width / sourceImage.naturalWidth;
+        const color = sampleColor(pixels, coords.x * scale, coords.y * scale);
+        setMaskLayers(prev => updateMaskComponent(prev, activeMaskLayerId, activeMaskComponent.id, c => c.colorRange ? { ...c, colorRange: { ...c.colorRange, color } } : c));
+        setIsPickingRangeColor(false);
+    }, [getRangeSourcePixels, sourceImage, activeMaskLayerId, activeMaskComponent]);
+
+    // Draws one mask component's shape, white with coverage as alpha
+    const drawMaskComponent = (ctx: CanvasRenderingContext2D, component: MaskComponent) => {
+        if (component.type === 'brush') {
+             component.strokes.forEach(stroke => {
+                drawFeatheredStroke(ctx, stroke);
+            });
+        } else if (component.selection) {
+            // Brush strokes add to or erase from the AI selection
+            let selection = selectionImagesRef.current[component.selection];
+            if (!selection) {
+                selection = new Image();
+                selection.onload = () => setSelectionsLoaded(v => v + 1);
+                selection.src = component.selection;
+                selectionImagesRef.current[component.selection] = selection;
+            }
+            if (selection.complete && selection.naturalWidth > 0) {
+                ctx.drawImage(selection, 0, 0, ctx.canvas.width, ctx.canvas.height);
+            }
+            component.strokes.forEach(stroke => {
+                drawFeatheredStroke(ctx, stroke);
+            });
+        } else if (component.type === 'color' || component.type === 'luminance') {
+            const rangeMask = getRangeMaskCanvas(component);
+            if (rangeMask) {
+                ctx.imageSmoothingQuality = 'high';
+                ctx.drawImage(rangeMask, 0, 0, ctx.canvas.width, ctx.canvas.height);
+            }
+            component.strokes.forEach(stroke => {
+                drawFeatheredStroke(ctx, stroke);
+            });
+        } else if (component.gradient) {
+             const { width, height } = ctx.canvas;
+             if (component.type === 'linear') {
+                 const { start, end, feather } = component.gradient;
+                 const x1 = start.x / 100 * width;
+                 const y1 = start.y / 100 * height;
+                 const x2 = end.x / 100 * width;
+                 const y2 = end.y / 100 * height;
+                 
+                 const grad = ctx.createLinearGradient(x1, y1, x2, y2);
+                 grad.addColorStop(0, 'rgba(255,255,255,1)');
+                 grad.addColorStop(1, 'rgba(255,255,255,0)');
+                 
+                 ctx.fillStyle = grad;
+                 ctx.fillRect(0,0,width,height);
+             } else if (component.type === 'radial') {
+                 const { start, end, rotation, radiusY } = component.gradient;
+                 const cx = start.x / 100 * width;
+                 const cy = start.y / 100 * height;
+                 
+                 const rx = Math.hypot((end.x - start.x)/100 * width, (end.y - start.y)/100 * height);
+                 const ry = rx * (radiusY || 1);
+                 
+                 ctx.save();
+                 ctx.translate(cx, cy);
+                 if (rotation) ctx.rotate(rotation * Math.PI / 180);
+                 ctx.scale(1, ry/rx); 
+                 
+                 const grad = ctx.createRadialGradient(0, 0, 0, 0, 0, rx);
+                 const featherRatio = (component.gradient.feather || 0) / 100;
+                 const innerStop = Math.max(0, 1 - featherRatio);
+                 
+                 grad.addColorStop(0, 'rgba(255,255,255,1)');
+                 grad.addColorStop(innerStop, 'rgba(255,255,255,1)');
+                 grad.addColorStop(1, 'rgba(255,255,255,0)');
+                 
+                 ctx.fillStyle = grad;
+                 const maxR = Math.max(rx, ry);
+                 ctx.fillRect(-maxR*2/ (ry/rx), -maxR*2/ (ry/rx), maxR*4/ (ry/rx), maxR*4/ (ry/rx));
+                 
+                 ctx.restore();
+             }
+        }
+    };
 
     useEffect(() => {
         if (!sourceImage) return;
@@ -1139,53 +1335,23 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
             if (!ctx) return;
             ctx.clearRect(0, 0, maskCanvas.width, maskCanvas.height);
 
-            if (layer.type === 'brush') {
-                 layer.strokes.forEach(stroke => {
-                    drawFeatheredStroke(ctx, stroke);
-                });
-            } else if (layer.gradient) {
-                 const { width, height } = maskCanvas;
-                 if (layer.type === 'linear') {
-                     const { start, end, feather } = layer.gradient;
-                     const x1 = start.x / 100 * width;
-                     const y1 = start.y / 100 * height;
-                     const x2 = end.x / 100 * width;
-                     const y2 = end.y / 100 * height;
-                     
-                     const grad = ctx.createLinearGradient(x1, y1, x2, y2);
-                     grad.addColorStop(0, 'rgba(255,255,255,1)');
-                     grad.addColorStop(1, 'rgba(255,255,255,0)');
-                     
-                     ctx.fillStyle = grad;
-                     ctx.fillRect(0,0,width,height);
-                 } else if (layer.type === 'radial') {
-                     const { start, end, rotation, radiusY } = layer.gradient;
-                     const cx = start.x / 100 * width;
-                     const cy = start.y / 100 * height;
-                     
-                     const rx = Math.hypot((end.x - start.x)/100 * width, (end.y - start.y)/100 * height);
-                     const ry = rx * (radiusY || 1);
-                     
-                     ctx.save();
-                     ctx.translate(cx, cy);
-                     if (rotation) ctx.rotate(rotation * Math.PI / 180);
-                     ctx.scale(1, ry/rx); 
-                     
-                     const grad = ctx.createRadialGradient(0, 0, 0, 0, 0, rx);
-                     const featherRatio = (layer.gradient.feather || 0) / 100;
-                     const innerStop = Math.max(0, 1 - featherRatio);
-                     
-                     grad.addColorStop(0, 'rgba(255,255,255,1)');
-                     grad.addColorStop(innerStop, 'rgba(255,255,255,1)');
-                     grad.addColorStop(1, 'rgba(255,255,255,0)');
-                     
-                     ctx.fillStyle = grad;
-                     const maxR = Math.max(rx, ry);
-                     ctx.fillRect(-maxR*2/ (ry/rx), -maxR*2/ (ry/rx), maxR*4/ (ry/rx), maxR*4/ (ry/rx));
-                     
-                     ctx.restore();
-                 }
-            }
+            // The first component is drawn straight onto the mask; each later one
+            // is drawn on scratch and combined with what is there so far
+            layer.components.forEach((component, index) => {
+                if (index === 0) {
+                    drawMaskComponent(ctx, component);
+                    return;
+                }
+                const scratch = maskComponentCanvasRef.current;
+                scratch.width = maskCanvas.width;
+                scratch.height = maskCanvas.height;
+                const scratchCtx = scratch.getContext('2d');
+                if (!scratchCtx) return;
+                drawMaskComponent(scratchCtx, component);
+                ctx.globalCompositeOperation = MASK_OPERATION_COMPOSITES[component.operation];
+                ctx.drawImage(scratch, 0, 0);
+                ctx.globalCompositeOperation = 'source-over';
+            });
 
             if (layer.invert) {
                 ctx.globalCompositeOperation = 'source-out';
@@ -1195,7 +1361,7 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
             }
         });
 
-    }, [maskLayers, sourceImage, redrawTrigger]);
+    }, [maskLayers, sourceImage, redrawTrigger, selectionsLoaded]);
 
     useEffect(() => {
         const canvas = removeMaskCanvasRef.current;
@@ -1229,6 +1395,7 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
         if (isComparing) {
             ctx.clearRect(0, 0, visibleCanvas.width, visibleCanvas.height);
             ctx.drawImage(sourceImage, 0, 0);
+            scheduleHistogram();
             return;
         }
     
@@ -1239,10 +1406,8 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
             if (!layer.isVisible) return;
 
             const maskCanvas = maskCanvasRefs.current[layer.id];
-            if (!maskCanvas) return;
-
-            const hasBrushAdjustments = Object.values(layer.adjustments).some(v => v !== 0 && (typeof v !== 'object' || (typeof v === 'object' && v !== null && Object.values(v).some(channel => Object.values(channel as object).some(val => val !== 0)))));
-            if (!hasBrushAdjustments) return;
+            const renderCanvas = maskRenderCanvasRefs.current[layer.id];
+            if (!maskCanvas || !renderCanvas) return;
 
             const tempCanvas = document.createElement('canvas');
             tempCanvas.width = baseCanvas.width;
@@ -1250,7 +1415,7 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
             const tempCtx = tempCanvas.getContext('2d');
             if (!tempCtx) return;
 
-            applyAdjustmentsToContext(tempCtx, { ...adjustments, ...layer.adjustments }, sourceImage);
+            tempCtx.drawImage(renderCanvas, 0, 0);
             
             tempCtx.globalCompositeOperation = 'destination-in';
             tempCtx.drawImage(maskCanvas, 0, 0);
@@ -1311,7 +1476,15 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
         }
     
         ctx.globalCompositeOperation = 'source-over';
-    }, [isCropping, sourceImage, adjustments, maskLayers, activeMaskLayerId, adjustmentBrushSettings.showMask, lightBrushStrokes, redrawTrigger, activeTab, removeToolStrokes, isComparing]);
+        scheduleHistogram();
+    }, [isCropping, sourceImage, renderVersion, maskLayers, activeMaskLayerId, adjustmentBrushSettings.showMask, lightBrushStrokes, redrawTrigger, activeTab, removeToolStrokes, isComparing, scheduleHistogram, selectionsLoaded]);
+
+    // Runs after the composite above, so anyone waiting sees the full-size result
+    useEffect(() => {
+        if (isFullRenderPendingRef.current) return;
+        fullRenderWaitersRef.current.forEach(resolve => resolve());
+        fullRenderWaitersRef.current = [];
+    }, [renderVersion]);
 
     const drawFeatheredStroke = (ctx: CanvasRenderingContext2D, stroke: RawBrushStroke) => {
         const { settings } = stroke;
@@ -1319,8 +1492,9 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
 
         ctx.globalCompositeOperation = isErasing ? 'destination-out' : 'source-over';
     
-        const drawBrushDab = (p: { x: number; y: number }) => {
-            const brushRadius = settings.size / 2;
+        const drawBrushDab = (p: BrushPoint) => {
+            const dynamics = getPenDynamics(p);
+            const brushRadius = settings.size * dynamics.size / 2;
             if (brushRadius <= 0) return;
 
             const featherRatio = settings.feather / 100;
@@ -1328,7 +1502,7 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
             const innerStop = Math.max(0, 1 - effectiveFeatherRatio);
             
             const gradient = ctx.createRadialGradient(p.x, p.y, 0, p.x, p.y, brushRadius);
-            const color = `rgba(255, 255, 255, ${settings.strength / 100})`;
+            const color = `rgba(255, 255, 255, ${settings.strength * dynamics.strength / 100})`;
     
             gradient.addColorStop(0, color);
             gradient.addColorStop(innerStop, color);
@@ -1347,18 +1521,31 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
                 const p1 = stroke.points[i - 1];
                 const p2 = stroke.points[i];
                 const dist = Math.hypot(p2.x - p1.x, p2.y - p1.y);
-                const angle = Math.atan2(p2.y - p1.y, p2.x - p1.x);
-                const step = Math.min(10, settings.size / 4);
+                // Light pen pressure makes smaller dabs, which need to sit closer together
+                const step = Math.min(10, settings.size * getPenDynamics(p1).size / 4);
                 for (let j = 0; j < dist; j += Math.max(1, step)) {
-                    const x = p1.x + Math.cos(angle) * j;
-                    const y = p1.y + Math.sin(angle) * j;
-                    drawBrushDab({ x, y });
+                    drawBrushDab(interpolateBrushPoint(p1, p2, j / dist));
                 }
             }
         }
         ctx.globalCompositeOperation = 'source-over';
     };
     
+    // Strokes in progress go straight onto the layer's mask, as the component
+    // they belong to would change it; committing the stroke rebuilds the mask.
+    // The mask on screen is already inverted for inverted layers, and adding to
+    // the mask before inverting is the same as erasing from it afterwards.
+    const drawLiveMaskStroke = useCallback((stroke: RawBrushStroke) => {
+        if (!activeMaskLayer || !activeMaskComponent) return;
+        const maskCtx = maskCanvasRefs.current[activeMaskLayer.id]?.getContext('2d');
+        if (!maskCtx) return;
+        const operation = activeMaskLayer.components[0]?.id === activeMaskComponent.id ? 'add' : activeMaskComponent.operation;
+        if (operation === 'intersect') return;
+        const isErasing = 'isErasing' in stroke.settings && stroke.settings.isErasing;
+        const erasesMask = isErasing !== (operation === 'subtract') !== activeMaskLayer.invert;
+        drawFeatheredStroke(maskCtx, { ...stroke, settings: { ...stroke.settings, isErasing: erasesMask } });
+    }, [activeMaskLayer, activeMaskComponent]);
+
     const hexToRgb = (hex: string) => {
         const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
         return result ? {
@@ -1368,6 +1555,19 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
         } : { r: 255, g: 255, b: 255 };
     }
 
+    // Blurred pixels of `bounds`, drawn with a margin so the blur doesn't pull in transparency at the edges
+    const blurRegion = (image: HTMLCanvasElement, bounds: { x: number; y: number; width: number; height: number }, radius: number) => {
+        const margin = radius * 2;
+        const canvas = document.createElement('canvas');
+        canvas.width = bounds.width + margin * 2;
+        canvas.height = bounds.height + margin * 2;
+        const blurCtx = canvas.getContext('2d');
+        if (!blurCtx) return null;
+        blurCtx.filter = `blur(${radius}px)`;
+        blurCtx.drawImage(image, margin - bounds.x, margin - bounds.y);
+        return blurCtx.getImageData(margin, margin, bounds.width, bounds.height);
+    };
+
     const applyFilteredStroke = (ctx: CanvasRenderingContext2D, stroke: LightBrushStroke, source: HTMLCanvasElement | HTMLImageElement) => {
         const { mode, strength, color } = stroke.settings;
         const rgb = hexToRgb(color || '#ffffff');
@@ -1382,7 +1582,9 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
         maskCanvas.height = ctx.canvas.height;
         const maskCtx = maskCanvas.getContext('2d');
         if (!maskCtx) return;
-        drawFeatheredStroke(maskCtx, { ...stroke, settings: { ...stroke.settings, isErasing: false, showMask: false } });
+        // Cloned pixels have no strength of their own, so the full slider range goes to opacity
+        const maskStrength = isCloneMode(mode) ? strength * 5 : strength;
+        drawFeatheredStroke(maskCtx, { ...stroke, settings: { ...stroke.settings, strength: maskStrength, isErasing: false, showMask: false } });
 
         let needsFilter = false;
         
@@ -1428,14 +1630,51 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
                 tempCtx.filter = `saturate(${100 - strength}%)`;
                 needsFilter = true;
                 break;
-            case 'increaseSharpness':
-                tempCtx.filter = 'url(#photo-editor-sharpen)';
-                needsFilter = true;
+            case 'increaseSharpness': {
+                tempCtx.drawImage(source, 0, 0);
+                const pixels = tempCtx.getImageData(0, 0, tempCanvas.width, tempCanvas.height);
+                applySharpen(pixels);
+                tempCtx.putImageData(pixels, 0, 0);
                 break;
+            }
             case 'increaseBlur':
                 tempCtx.filter = `blur(${strength / 10}px)`;
                 needsFilter = true;
                 break;
+            case 'dodge':
+            case 'burn': {
+                const bounds = getStrokeBounds(stroke.points, stroke.settings.size, tempCanvas.width, tempCanvas.height);
+                if (!bounds) return;
+                tempCtx.drawImage(source, 0, 0);
+                const pixels = tempCtx.getImageData(bounds.x, bounds.y, bounds.width, bounds.height);
+                applyDodgeBurn(pixels, mode === 'dodge', stroke.settings.tonalRange ?? 'midtones', strength / 20);
+                tempCtx.putImageData(pixels, bounds.x, bounds.y);
+                break;
+            }
+            case 'colorGrade':
+                // 'color' keeps each pixel's luminance and takes hue and saturation from the fill
+                tempCtx.drawImage(source, 0, 0);
+                tempCtx.globalCompositeOperation = 'color';
+                tempCtx.fillStyle = `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${strength / 20})`;
+                tempCtx.fillRect(0, 0, tempCanvas.width, tempCanvas.height);
+                break;
+            case 'clone':
+            case 'heal': {
+                // Samples what has been drawn so far, so earlier strokes can be cloned too
+                if (!stroke.cloneOffset) return;
+                tempCtx.drawImage(ctx.canvas, -stroke.cloneOffset.x, -stroke.cloneOffset.y);
+                if (mode === 'clone') break;
+                const bounds = getStrokeBounds(stroke.points, stroke.settings.size, tempCanvas.width, tempCanvas.height);
+                if (!bounds) return;
+                const radius = Math.max(2, Math.round(stroke.settings.size / 8));
+                const patch = tempCtx.getImageData(bounds.x, bounds.y, bounds.width, bounds.height);
+                const patchBlur = blurRegion(tempCanvas, bounds, radius);
+                const destinationBlur = blurRegion(ctx.canvas, bounds, radius);
+                if (!patchBlur || !destinationBlur) return;
+                blendHeal(patch, patchBlur, destinationBlur);
+                tempCtx.putImageData(patch, bounds.x, bounds.y);
+                break;
+            }
         }
 
         if(needsFilter) {
@@ -1475,10 +1714,10 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
     }, [isCropping]);
 
     const handlePanStart = useCallback((clientX: number, clientY: number, force = false) => {
-        if(!force && (isCropping || selectedOverlayId || (activeTab === 'adjustmentBrush' && activeMaskLayer?.type === 'brush') || activeTab === 'lightBrush' || activeTab === 'remove' || isGradientInteractRef.current)) return;
+        if(!force && (isCropping || selectedOverlayId || (activeTab === 'adjustmentBrush' && isPaintableMask(activeMaskComponent?.type)) || activeTab === 'lightBrush' || activeTab === 'remove' || isGradientInteractRef.current)) return;
         panStartRef.current = { startX: clientX, startY: clientY, startPan: pan };
         setIsPanning(true);
-    }, [isCropping, pan, selectedOverlayId, activeTab, activeMaskLayer?.type]);
+    }, [isCropping, pan, selectedOverlayId, activeTab, activeMaskComponent?.type]);
 
     const handlePanMove = useCallback((clientX: number, clientY: number) => {
         if (!isPanning || isCropping) return;
@@ -1520,7 +1759,7 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
 
     const drawBrushPreview = useCallback((clientX: number, clientY: number) => {
         const canvas = brushingCanvasRef.current;
-        if (!canvas || ((activeTab !== 'adjustmentBrush' || activeMaskLayer?.type !== 'brush') && activeTab !== 'lightBrush' && activeTab !== 'remove') || !sourceImage) return;
+        if (!canvas || ((activeTab !== 'adjustmentBrush' || !isPaintableMask(activeMaskComponent?.type)) && activeTab !== 'lightBrush' && activeTab !== 'remove') || !sourceImage) return;
         
         const ctx = canvas.getContext('2d');
         if (!ctx) return;
@@ -1577,7 +1816,42 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
         ctx.setLineDash([5 * imagePixelsPerScreenPixel, 5 * imagePixelsPerScreenPixel]);
         ctx.stroke();
         ctx.setLineDash([]);
-    }, [activeTab, sourceImage, getCoordsInImage, adjustmentBrushSettings, lightBrushSettings, removeToolSettings, activeMaskLayer]);
+
+        // Crosshair where a clone or heal stroke started here would sample from
+        if (activeTab === 'lightBrush' && isCloneMode(lightBrushSettings.mode) && cloneSource) {
+            const offset = cloneOffsetRef.current;
+            const sourceX = offset ? x + offset.x : cloneSource.x;
+            const sourceY = offset ? y + offset.y : cloneSource.y;
+            const arm = 8 * imagePixelsPerScreenPixel;
+            ctx.beginPath();
+            ctx.moveTo(sourceX - arm, sourceY);
+            ctx.lineTo(sourceX + arm, sourceY);
+            ctx.moveTo(sourceX, sourceY - arm);
+            ctx.lineTo(sourceX, sourceY + arm);
+            ctx.stroke();
+        }
+    }, [activeTab, sourceImage, getCoordsInImage, adjustmentBrushSettings, lightBrushSettings, removeToolSettings, activeMaskLayer, cloneSource]);
+
+    // The remove tool ignores the pen; its mask only marks what to remove
+    const toBrushPoint = (sample: PointerEvent, coords: { x: number; y: number }): BrushPoint =>
+        sample.pointerType === 'pen' ? { ...coords, pressure: sample.pressure, tiltX: sample.tiltX, tiltY: sample.tiltY } : coords;
+
+    const handleSetCloneSource = (coords: { x: number; y: number }) => {
+        setCloneSource(coords);
+        cloneOffsetRef.current = null;
+        setIsPickingCloneSource(false);
+    };
+
+    // Null for a clone or heal stroke before a source has been set
+    const createLightBrushStroke = (point: BrushPoint): LightBrushStroke | null => {
+        const stroke: LightBrushStroke = { id: `light-stroke-${Date.now()}`, points: [point], settings: lightBrushSettings };
+        if (!isCloneMode(lightBrushSettings.mode)) return stroke;
+        if (!cloneSource) return null;
+        if (!cloneOffsetRef.current) {
+            cloneOffsetRef.current = { x: cloneSource.x - point.x, y: cloneSource.y - point.y };
+        }
+        return { ...stroke, cloneOffset: cloneOffsetRef.current };
+    };
 
     const clearBrushPreview = useCallback(() => {
         const canvas = brushingCanvasRef.current;
@@ -1586,12 +1860,12 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
        if (ctx) ctx.clearRect(0, 0, canvas.width, canvas.height);
     }, []);
 
-    const onMouseUp = useCallback(() => {
+    const finishStroke = useCallback(() => {
         if (isBrushing) {
-            if(activeTab === 'adjustmentBrush' && currentAdjustmentStrokeRef.current && activeMaskLayerId) {
+            if(activeTab === 'adjustmentBrush' && currentAdjustmentStrokeRef.current && activeMaskLayerId && activeMaskComponent) {
                 const strokeToCommit = currentAdjustmentStrokeRef.current;
                 if (strokeToCommit.points.length > 0) {
-                     setMaskLayers(prev => prev.map(l => l.id === activeMaskLayerId ? { ...l, strokes: [...l.strokes, strokeToCommit] } : l));
+                     setMaskLayers(prev => updateMaskComponent(prev, activeMaskLayerId, activeMaskComponent.id, c => ({ ...c, strokes: [...c.strokes, strokeToCommit] })));
                 }
                 currentAdjustmentStrokeRef.current = null;
             } else if (activeTab === 'lightBrush' && currentLightBrushStrokeRef.current) {
@@ -1610,61 +1884,75 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
         }
         setIsBrushing(false);
         handlePanEnd();
-    }, [isBrushing, handlePanEnd, activeMaskLayerId, activeTab]);
+    }, [isBrushing, handlePanEnd, activeMaskLayerId, activeMaskComponent, activeTab]);
+
+    const setSplitPositionAt = (clientX: number) => {
+        if (!imageContainerRef.current) return;
+        const containerRect = imageContainerRef.current.getBoundingClientRect();
+        const displayWidth = displayDims.width * zoom;
+        const displayLeft = containerRect.left + displayDims.x * zoom + pan.x;
+        const pct = ((clientX - displayLeft) / displayWidth) * 100;
+        setSplitPosition(Math.max(0, Math.min(100, pct)));
+    };
 
-    const onMouseDown = useCallback((e: React.MouseEvent) => {
+    // Mouse, pen and touch all arrive here. The pointer is captured on down so
+    // a stroke keeps going when it leaves the canvas; two touch pointers pinch.
+    const onPointerDown = (e: React.PointerEvent) => {
+        if (isCropping || isGradientInteractRef.current) return;
+        if (e.pointerType === 'mouse' && e.button !== 0) return;
         e.preventDefault();
-        if (e.button !== 0) return;
-        
-        if (isGradientInteractRef.current) return;
-
-        if (isSplitView) {
-             const sliderHandle = (e.target as HTMLElement).closest('.split-view-slider');
-             if (sliderHandle && imageContainerRef.current) {
-                 const handleSplitDrag = (moveEvent: MouseEvent) => {
-                    if (!imageContainerRef.current) return;
-                    const containerRect = imageContainerRef.current.getBoundingClientRect();
-                    const displayWidth = displayDims.width * zoom;
-                    const displayLeft = containerRect.left + displayDims.x * zoom + pan.x;
-                    
-                    let relativeX = moveEvent.clientX - displayLeft;
-                    let pct = (relativeX / displayWidth) * 100;
-                    pct = Math.max(0, Math.min(100, pct));
-                    setSplitPosition(pct);
-                 };
-                 
-                 const stopSplitDrag = () => {
-                     window.removeEventListener('mousemove', handleSplitDrag);
-                     window.removeEventListener('mouseup', stopSplitDrag);
-                 };
-                 window.addEventListener('mousemove', handleSplitDrag);
-                 window.addEventListener('mouseup', stopSplitDrag);
-                 return;
-             }
+        e.currentTarget.setPointerCapture(e.pointerId);
+
+        if (e.pointerType === 'touch') {
+            touchPointsRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+            if (touchPointsRef.current.size === 2) {
+                setIsPanning(false);
+                setIsBrushing(false);
+                const [t1, t2] = Array.from(touchPointsRef.current.values());
+                pinchStartRef.current = {
+                    dist: Math.hypot(t1.x - t2.x, t1.y - t2.y),
+                    mid: { x: (t1.x + t2.x) / 2, y: (t1.y + t2.y) / 2 },
+                    zoom: zoom,
+                    pan: pan,
+                };
+                return;
+            }
+            if (touchPointsRef.current.size > 2) return;
+            pinchStartRef.current = null;
+        }
+
+        // A finger drags the split anywhere on the image; mouse and pen use the handle
+        if (isSplitView && (e.pointerType === 'touch' || (e.target as HTMLElement).closest('.split-view-slider'))) {
+            isSplitDraggingRef.current = true;
+            return;
         }
 
         if (isSpacebarDown) {
             handlePanStart(e.clientX, e.clientY, true);
             return;
         }
-        
+
         const coords = getCoordsInImage(e.clientX, e.clientY);
         if (!coords) return;
+        const point = toBrushPoint(e.nativeEvent, coords);
 
-        if (activeTab === 'adjustmentBrush' && activeMaskLayerId && activeMaskLayer?.type === 'brush') {
+        if (isPickingColor) {
+            handlePickRangeColor(coords);
+        } else if (isCloning && (e.altKey || isPickingCloneSource)) {
+            handleSetCloneSource(coords);
+        } else if (activeTab === 'adjustmentBrush' && activeMaskLayerId && isPaintableMask(activeMaskComponent?.type)) {
             setIsBrushing(true);
             currentAdjustmentStrokeRef.current = {
                 id: `stroke-${Date.now()}`,
-                points: [coords],
+                points: [point],
                 settings: adjustmentBrushSettings,
             };
         } else if (activeTab === 'lightBrush') {
-            setIsBrushing(true);
-            currentLightBrushStrokeRef.current = {
-                id: `light-stroke-${Date.now()}`,
-                points: [coords],
-                settings: lightBrushSettings,
-            };
+            const stroke = createLightBrushStroke(point);
+            if (stroke) {
+                setIsBrushing(true);
+                currentLightBrushStrokeRef.current = stroke;
+            }
         } else if (activeTab === 'remove') {
             setIsBrushing(true);
             currentRemoveStrokeRef.current = {
@@ -1675,193 +1963,93 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
         } else {
             handlePanStart(e.clientX, e.clientY, false);
         }
-    }, [activeTab, getCoordsInImage, adjustmentBrushSettings, lightBrushSettings, handlePanStart, isSpacebarDown, activeMaskLayerId, removeToolSettings, isSplitView, displayDims, zoom, pan, activeMaskLayer?.type]);
-    
-    const onMouseMove = useCallback((e: React.MouseEvent) => {
-        e.preventDefault();
-        const isBrushActive = (activeTab === 'adjustmentBrush' && activeMaskLayer?.type === 'brush') || activeTab === 'lightBrush' || activeTab === 'remove';
-        if (isSpacebarDown || isPanning) {
-            handlePanMove(e.clientX, e.clientY);
-        } else if (isBrushActive && !isSplitView) {
-            drawBrushPreview(e.clientX, e.clientY);
-            if (isBrushing) {
-                const coords = getCoordsInImage(e.clientX, e.clientY);
-                if (coords) {
-                     if (activeTab === 'adjustmentBrush' && currentAdjustmentStrokeRef.current && activeMaskLayerId) {
-                        currentAdjustmentStrokeRef.current.points.push(coords);
-                        const maskCanvas = maskCanvasRefs.current[activeMaskLayerId];
-                        if(maskCanvas) {
-                           const maskCtx = maskCanvas.getContext('2d');
-                           if(maskCtx) drawFeatheredStroke(maskCtx, currentAdjustmentStrokeRef.current);
-                        }
-                     } else if (activeTab === 'lightBrush' && currentLightBrushStrokeRef.current) {
-                        currentLightBrushStrokeRef.current.points.push(coords);
-                     } else if (activeTab === 'remove' && currentRemoveStrokeRef.current) {
-                        currentRemoveStrokeRef.current.points.push(coords);
-                        const maskCanvas = removeMaskCanvasRef.current;
-                        const maskCtx = maskCanvas.getContext('2d');
-                        if (maskCtx) drawFeatheredStroke(maskCtx, currentRemoveStrokeRef.current);
-                     }
-                } else {
-                    requestAnimationFrame(() => onMouseUp());
-                }
-            }
-        }
-    }, [activeTab, drawBrushPreview, isBrushing, getCoordsInImage, handlePanMove, onMouseUp, isSpacebarDown, isPanning, activeMaskLayerId, isSplitView, activeMaskLayer?.type]);
-
-     const onMouseLeave = useCallback(() => {
-        if (isBrushing) {
-            onMouseUp();
-        }
-        clearBrushPreview();
-        handlePanEnd();
-    }, [onMouseUp, clearBrushPreview, isBrushing, handlePanEnd]);
-
-    const onTouchStart = (e: React.TouchEvent) => {
-        if (isCropping || isGradientInteractRef.current) return;
-
-        if (isSplitView) {
-             const sliderHandle = (e.target as HTMLElement).closest('.split-view-slider');
-             if (sliderHandle && imageContainerRef.current) {
-                 return; 
-             }
-        }
+    };
 
-        if (e.touches.length === 2) {
-            setIsPanning(false);
-            setIsBrushing(false);
-            const t1 = e.touches[0];
-            const t2 = e.touches[1];
-            pinchStartRef.current = {
-                dist: Math.hypot(t1.clientX - t2.clientX, t1.clientY - t2.clientY),
-                mid: { x: (t1.clientX + t2.clientX) / 2, y: (t1.clientY + t2.clientY) / 2 },
-                zoom: zoom,
-                pan: pan,
-            };
-        } else if (e.touches.length === 1) {
-            pinchStartRef.current = null;
-            const { clientX, clientY } = e.touches[0];
-            
-            if(isSplitView) {
-                if (imageContainerRef.current) {
-                    const rect = (e.target as HTMLElement).getBoundingClientRect();
-                }
-            }
+    const handlePinchMove = () => {
+        const pinchStart = pinchStartRef.current;
+        if (!pinchStart || !imageContainerRef.current) return;
+        const [t1, t2] = Array.from(touchPointsRef.current.values());
+        const newDist = Math.hypot(t1.x - t2.x, t1.y - t2.y);
+        const newZoom = Math.max(1, Math.min(3, pinchStart.zoom * newDist / pinchStart.dist));
 
-            const coords = getCoordsInImage(clientX, clientY);
-            const isBrushTab = (activeTab === 'adjustmentBrush' && activeMaskLayer?.type === 'brush') || activeTab === 'lightBrush' || activeTab === 'remove';
+        const rect = imageContainerRef.current.getBoundingClientRect();
+        const startMidOnScreen = { x: pinchStart.mid.x - rect.left, y: pinchStart.mid.y - rect.top };
+        const worldPoint = {
+            x: (startMidOnScreen.x - pinchStart.pan.x) / pinchStart.zoom,
+            y: (startMidOnScreen.y - pinchStart.pan.y) / pinchStart.zoom,
+        };
+        const newMidOnScreen = { x: (t1.x + t2.x) / 2 - rect.left, y: (t1.y + t2.y) / 2 - rect.top };
+        setZoom(newZoom);
+        setPan({
+            x: newMidOnScreen.x - worldPoint.x * newZoom,
+            y: newMidOnScreen.y - worldPoint.y * newZoom,
+        });
+    };
 
-            if (isBrushTab && coords && !isSplitView) {
-                setIsBrushing(true);
-                if (activeTab === 'adjustmentBrush' && activeMaskLayerId) {
-                    currentAdjustmentStrokeRef.current = { id: `stroke-${Date.now()}`, points: [coords], settings: adjustmentBrushSettings };
-                } else if (activeTab === 'lightBrush') {
-                    currentLightBrushStrokeRef.current = { id: `light-stroke-${Date.now()}`, points: [coords], settings: lightBrushSettings };
-                } else if (activeTab === 'remove') {
-                    currentRemoveStrokeRef.current = { id: `remove-stroke-${Date.now()}`, points: [coords], settings: { ...removeToolSettings, strength: 100 } };
-                }
-            } else {
-                handlePanStart(clientX, clientY, false);
+    const onPointerMove = (e: React.PointerEvent) => {
+        if (isCropping) return;
+        if (e.pointerType === 'touch' && touchPointsRef.current.has(e.pointerId)) {
+            touchPointsRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+            if (pinchStartRef.current && touchPointsRef.current.size === 2) {
+                handlePinchMove();
+                return;
             }
         }
-    };
-    
-    const onTouchMove = (e: React.TouchEvent) => {
-        if (isCropping) return;
-        
-        if (isSplitView && e.touches.length === 1 && imageContainerRef.current) {
-             const touch = e.touches[0];
-             const sliderHandle = (e.target as HTMLElement).closest('.split-view-slider');
-             if(sliderHandle || isSplitView) {
-                const containerRect = imageContainerRef.current.getBoundingClientRect();
-                const displayWidth = displayDims.width * zoom;
-                const displayLeft = containerRect.left + displayDims.x * zoom + pan.x;
-                
-                if (touch.clientY >= displayDims.y * zoom + pan.y + containerRect.top && 
-                    touch.clientY <= (displayDims.y + displayDims.height) * zoom + pan.y + containerRect.top) {
-                        let relativeX = touch.clientX - displayLeft;
-                        let pct = (relativeX / displayWidth) * 100;
-                        pct = Math.max(0, Math.min(100, pct));
-                        setSplitPosition(pct);
-                        return;
-                    }
-             }
+        if (isSplitDraggingRef.current) {
+            setSplitPositionAt(e.clientX);
+            return;
         }
 
-        if (e.touches.length === 2 && pinchStartRef.current) {
-            e.preventDefault();
-            const t1 = e.touches[0];
-            const t2 = e.touches[1];
-            const newDist = Math.hypot(t1.clientX - t2.clientX, t1.clientY - t2.clientY);
-            const scale = newDist / pinchStartRef.current.dist;
-            const newZoom = Math.max(1, Math.min(3, pinchStartRef.current.zoom * scale));
-
-            if (imageContainerRef.current) {
-                const rect = imageContainerRef.current.getBoundingClientRect();
-                const startMidOnScreen = { x: pinchStartRef.current.mid.x - rect.left, y: pinchStartRef.current.mid.y - rect.top };
-                const worldPoint = {
-                    x: (startMidOnScreen.x - pinchStartRef.current.pan.x) / pinchStartRef.current.zoom,
-                    y: (startMidOnScreen.y - pinchStartRef.current.pan.y) / pinchStartRef.current.zoom,
-                };
-                const newMid = { x: (t1.clientX + t2.clientX) / 2, y: (t1.clientY + t2.clientY) / 2 };
-                const newMidOnScreen = { x: newMid.x - rect.left, y: newMid.y - rect.top };
-                const newPan = {
-                    x: newMidOnScreen.x - worldPoint.x * newZoom,
-                    y: newMidOnScreen.y - worldPoint.y * newZoom,
-                };
-                setZoom(newZoom);
-                setPan(newPan);
-            }
-        } else if (e.touches.length === 1) {
-            if (isPanning) {
-                e.preventDefault();
-                handlePanMove(e.touches[0].clientX, e.touches[0].clientY);
-            } else if (isBrushing && !isSplitView) {
-                e.preventDefault();
-                const coords = getCoordsInImage(e.touches[0].clientX, e.touches[0].clientY);
-                if (coords) {
-                    if (activeTab === 'adjustmentBrush' && currentAdjustmentStrokeRef.current && activeMaskLayerId) {
-                        currentAdjustmentStrokeRef.current.points.push(coords);
-                        const maskCanvas = maskCanvasRefs.current[activeMaskLayerId];
-                        if (maskCanvas) {
-                            const maskCtx = maskCanvas.getContext('2d');
-                            if (maskCtx) drawFeatheredStroke(maskCtx, currentAdjustmentStrokeRef.current);
-                        }
-                    } else if (activeTab === 'lightBrush' && currentLightBrushStrokeRef.current) {
-                        currentLightBrushStrokeRef.current.points.push(coords);
-                    } else if (activeTab === 'remove' && currentRemoveStrokeRef.current) {
-                        currentRemoveStrokeRef.current.points.push(coords);
-                        const maskCanvas = removeMaskCanvasRef.current;
-                        const maskCtx = maskCanvas.getContext('2d');
-                        if (maskCtx) drawFeatheredStroke(maskCtx, currentRemoveStrokeRef.current);
-                    }
-                } else {
-                    requestAnimationFrame(() => onMouseUp());
+        const isBrushActive = !isPickingColor && !(isCloning && isPickingCloneSource) && ((activeTab === 'adjustmentBrush' && isPaintableMask(activeMaskComponent?.type)) || activeTab === 'lightBrush' || activeTab === 'remove');
+        if (isSpacebarDown || isPanning) {
+            handlePanMove(e.clientX, e.clientY);
+        } else if (isBrushActive && !isSplitView) {
+            if (e.pointerType !== 'touch') drawBrushPreview(e.clientX, e.clientY);
+            if (!isBrushing) return;
+            // A pen reports many more positions than pointermove fires for; each
+            // keeps its own pressure and tilt. Samples past the image edge are
+            // kept so the stroke carries on when the pointer comes back.
+            for (const sample of getPointerSamples(e)) {
+                const coords = getCoordsInImage(sample.clientX, sample.clientY, false);
+                if (!coords) break;
+                if (activeTab === 'adjustmentBrush' && currentAdjustmentStrokeRef.current && activeMaskLayerId) {
+                    currentAdjustmentStrokeRef.current.points.push(toBrushPoint(sample, coords));
+                } else if (activeTab === 'lightBrush' && currentLightBrushStrokeRef.current) {
+                    currentLightBrushStrokeRef.current.points.push(toBrushPoint(sample, coords));
+                } else if (activeTab === 'remove' && currentRemoveStrokeRef.current) {
+                    currentRemoveStrokeRef.current.points.push(coords);
                 }
             }
+            if (activeTab === 'adjustmentBrush' && currentAdjustmentStrokeRef.current && activeMaskLayerId) {
+                drawLiveMaskStroke(currentAdjustmentStrokeRef.current);
+            } else if (activeTab === 'remove' && currentRemoveStrokeRef.current) {
+                const maskCtx = removeMaskCanvasRef.current.getContext('2d');
+                if (maskCtx) drawFeatheredStroke(maskCtx, currentRemoveStrokeRef.current);
+            }
         }
     };
 
-    const onTouchEnd = (e: React.TouchEvent) => {
+    // Also handles pointercancel, e.g. when the browser takes over a touch
+    const onPointerUp = (e: React.PointerEvent) => {
         if (isCropping) return;
-        onMouseUp();
-        if (e.touches.length < 2) {
+        isSplitDraggingRef.current = false;
+        finishStroke();
+        if (e.pointerType !== 'touch') return;
+        touchPointsRef.current.delete(e.pointerId);
+        if (touchPointsRef.current.size < 2) {
             pinchStartRef.current = null;
         }
-        if (e.touches.length === 1) {
-            handlePanStart(e.touches[0].clientX, e.touches[0].clientY, false);
+        // Lifting one finger of a pinch carries on as a pan with the other
+        if (touchPointsRef.current.size === 1) {
+            const [rest] = Array.from(touchPointsRef.current.values());
+            handlePanStart(rest.x, rest.y, false);
         }
     };
 
     const handleUndoAdjustmentStroke = useCallback(() => {
-        if (!activeMaskLayerId) return;
-        setMaskLayers(prev => prev.map(l => {
-            if (l.id === activeMaskLayerId) {
-                return { ...l, strokes: l.strokes.slice(0, -1) };
-            }
-            return l;
-        }));
-    }, [activeMaskLayerId]);
+        if (!activeMaskLayerId || !activeMaskComponent) return;
+        setMaskLayers(prev => updateMaskComponent(prev, activeMaskLayerId, activeMaskComponent.id, c => ({ ...c, strokes: c.strokes.slice(0, -1) })));
+    }, [activeMaskLayerId, activeMaskComponent]);
 
     const handleUndoLightBrushStroke = useCallback(() => {
         setLightBrushStrokes(prev => prev.slice(0, -1));
@@ -1871,7 +2059,9 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
         setRemoveToolStrokes(prev => prev.slice(0, -1));
     }, []);
 
-    const exportImage = useCallback(async (includeRemoveMask: boolean = false): Promise<string> => {
+    // Full-resolution render of the edit, overlays included
+    const renderExportCanvas = useCallback(async (includeRemoveMask: boolean = false): Promise<HTMLCanvasElement> => {
+        await waitForFullRender();
         const sourceCanvas = visibleCanvasRef.current;
         if (!sourceCanvas) throw new Error("Visible canvas not ready");
     
@@ -1956,8 +2146,13 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
             }
         }
         
-        return exportCanvas.toDataURL('image/jpeg', 1.0);
-    }, [transforms, overlays, displayDims.height]);
+        return exportCanvas;
+    }, [transforms, overlays, displayDims.height, waitForFullRender]);
+
+    const exportImage = useCallback(async (includeRemoveMask: boolean = false): Promise<string> => {
+        const canvas = await renderExportCanvas(includeRemoveMask);
+        return canvas.toDataURL('image/jpeg', 1.0);
+    }, [renderExportCanvas]);
 
     const handleApplyRemove = async () => {
         if (removeToolStrokes.length === 0) return;
@@ -1967,37 +2162,101 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
             const [header, base64Data] = imageDataUrl.split(',');
             if (!base64Data) throw new Error("Invalid image data URL for remove tool.");
             
-            const response = await editImageWithGemini(
-                [{ base64Data, mimeType: 'image/jpeg' }],
-                t('removePrompt')
-            );
+            const result = await runPaidImageOperation('remove', '1K', 1, () => {
+                const job = enqueueJob(t('jobRemoveLabel'), signal => getImageProvider().edit({
+                    images: [{ base64Data, mimeType: 'image/jpeg' }],
+                    prompt: t('removePrompt'),
+                    resolution: '1K',
+                    aspectRatio: '1:1',
+                    variantCount: 1,
+                    signal
+                }));
+                removeJobIdRef.current = job.id;
+                return job.promise;
+            });
 
-            if (response.candidates && response.candidates[0]?.content?.parts) {
-                const imagePart = response.candidates[0].content.parts.find(p => p.inlineData);
-                if (imagePart?.inlineData) {
-                    const resultImageUrl = `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`;
-                    setEditedDataUrl(resultImageUrl);
-                    resetAll();
-                    setActiveTab('adjust');
-                } else {
-                    throw new Error('API did not return an image.');
-                }
+            if (result.imageUrl) {
+                pendingHistoryLabelRef.current = 'magicEraserButton';
+                setEditedDataUrl(result.imageUrl);
+                resetAll();
+                setActiveTab('adjust');
             } else {
-                throw new Error('Invalid response from API.');
+                throw new Error('API did not return an image.');
             }
         } catch (error) {
             console.error("Failed to apply remove tool:", error);
+            if (error instanceof Error && error.message === 'INSUFFICIENT_CREDITS') {
+                alert(t('notEnoughCredits'));
+            } else if (error instanceof Error && error.message === 'ACCOUNT_SUSPENDED') {
+                alert(t('accountSuspendedMessage'));
+            } else if (error instanceof Error && error.message === 'TIMEOUT') {
+                alert(t('jobTimeoutError'));
+            }
         } finally {
+            removeJobIdRef.current = null;
             setIsRemoving(false);
         }
     };
+
+    // Asks the provider for a subject or sky mask of the current base image
+    // and adds it as a new mask layer
+    const handleAddSelectionLayer = async (target: SegmentationTarget) => {
+        if (!sourceImage || segmentingTarget) return;
+        setSegmentingTarget(target);
+        try {
+            const { naturalWidth: width, naturalHeight: height } = sourceImage;
+            const scale = Math.min(1, SEGMENT_SOURCE_SIZE / Math.max(width, height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(width * scale));
+            canvas.height = Math.max(1, Math.round(height * scale));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) throw new Error("Could not get canvas context");
+            ctx.drawImage(sourceImage, 0, 0, canvas.width, canvas.height);
+            const base64Data = canvas.toDataURL('image/jpeg', 0.9).split(',')[1];
+
+            const result = await runPaidImageOperation('segment', '1K', 1, () =>
+                enqueueJob(t('jobSegmentLabel'), signal => getImageProvider().segment({
+                    image: { base64Data, mimeType: 'image/jpeg' },
+                    target,
+                    aspectRatio: getClosestAspectRatio(width, height),
+                    signal
+                })).promise
+            );
+            if (!result.imageUrl) throw new Error('API did not return a mask.');
+
+            const selection = await createSelection(result.imageUrl, width, height);
+            const newLayer: MaskLayer = {
+                id: `mask-${Date.now()}`,
+                name: `${t('maskLayerName')} ${maskLayers.length + 1} (${t(MASK_TYPE_LABELS[target])})`,
+                isVisible: true,
+                components: [{ ...createMaskComponent(target), selection }],
+                adjustments: { ...INITIAL_ADJUSTMENTS, colorMixer: INITIAL_COLOR_MIXER },
+                invert: false,
+            };
+            setMaskLayers(prev => [...prev, newLayer]);
+            setActiveMaskLayerId(newLayer.id);
+        } catch (error) {
+            console.error("Failed to select region:", error);
+            if (error instanceof Error && error.message === 'INSUFFICIENT_CREDITS') {
+                alert(t('notEnoughCredits'));
+            } else if (error instanceof Error && error.message === 'ACCOUNT_SUSPENDED') {
+                alert(t('accountSuspendedMessage'));
+            } else if (error instanceof Error && error.message === 'TIMEOUT') {
+                alert(t('jobTimeoutError'));
+            } else if (!(error instanceof Error && error.message === 'CANCELLED')) {
+                alert(t('segmentFailed'));
+            }
+        } finally {
+            setSegmentingTarget(null);
+        }
+    };
     
 
     const handleSave = async () => {
         setIsSaving(true);
         try {
             const dataUrl = await exportImage();
-            onSave(image.id, dataUrl);
+            onSave(image.id, dataUrl, currentDocument);
         } catch (error) {
             console.error("Failed to save image:", error);
         } finally {
@@ -2008,13 +2267,7 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
     const handleDownload = async () => {
         setIsSaving(true);
         try {
-            const dataUrl = await exportImage();
-            const link = document.createElement('a');
-            link.href = dataUrl;
-            link.download = `edited-${image.file.name.replace(/\.[^/.]+$/, "")}.jpg`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+            setExportSource(await renderExportCanvas());
         } catch (error) {
             console.error("Failed to download image:", error);
         } finally {
@@ -2023,6 +2276,7 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
     };
 
     const handleApplyCrop = (croppedDataUrl: string) => {
+        pendingHistoryLabelRef.current = 'cropLabel';
         setEditedDataUrl(croppedDataUrl);
         setIsCropping(false);
         resetAll();
@@ -2138,21 +2392,16 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
         });
     }, [selectedOverlayId]);
 
-    const handleUpdateGradient = useCallback((updates: Partial<NonNullable<MaskLayer['gradient']>>) => {
-        if (!activeMaskLayerId) return;
-        setMaskLayers(prev => prev.map(l => {
-            if (l.id === activeMaskLayerId && l.gradient) {
-                return { ...l, gradient: { ...l.gradient, ...updates } };
-            }
-            return l;
-        }));
-    }, [activeMaskLayerId]);
+    const handleUpdateGradient = useCallback((updates: Partial<NonNullable<MaskComponent['gradient']>>) => {
+        if (!activeMaskLayerId || !activeMaskComponent) return;
+        setMaskLayers(prev => updateMaskComponent(prev, activeMaskLayerId, activeMaskComponent.id, c => c.gradient ? { ...c, gradient: { ...c.gradient, ...updates } } : c));
+    }, [activeMaskLayerId, activeMaskComponent]);
 
     const GradientControls = () => {
-        if (!activeMaskLayer || !activeMaskLayer.gradient) return null;
+        if (!activeMaskComponent || !activeMaskComponent.gradient) return null;
 
-        if (activeMaskLayer.type === 'linear') {
-            const { start, end } = activeMaskLayer.gradient;
+        if (activeMaskComponent.type === 'linear') {
+            const { start, end } = activeMaskComponent.gradient;
             return (
                 <div className="absolute inset-0 pointer-events-none">
                     <svg className="w-full h-full">
@@ -2161,19 +2410,21 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
                     <div 
                         className="absolute w-4 h-4 bg-white rounded-full shadow-md cursor-move pointer-events-auto"
                         style={{ left: `${start.x}%`, top: `${start.y}%`, transform: 'translate(-50%, -50%)' }}
+                        onPointerDown={e => e.stopPropagation()}
                         onMouseDown={(e) => handleGradientInteraction(e, 'start')}
                         onTouchStart={(e) => handleGradientInteraction(e, 'start')}
                     ></div>
                     <div 
                         className="absolute w-4 h-4 bg-white rounded-full shadow-md cursor-move pointer-events-auto border-2 border-purple-500"
                         style={{ left: `${end.x}%`, top: `${end.y}%`, transform: 'translate(-50%, -50%)' }}
+                        onPointerDown={e => e.stopPropagation()}
                         onMouseDown={(e) => handleGradientInteraction(e, 'end')}
                         onTouchStart={(e) => handleGradientInteraction(e, 'end')}
                     ></div>
                 </div>
             );
-        } else if (activeMaskLayer.type === 'radial') {
-            const { start, end, rotation, radiusY = 1 } = activeMaskLayer.gradient;
+        } else if (activeMaskComponent.type === 'radial') {
+            const { start, end, rotation, radiusY = 1 } = activeMaskComponent.gradient;
             
             const rx = Math.hypot(end.x - start.x, end.y - start.y);
             const boxWidth = rx * 2;
@@ -2259,8 +2510,8 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
             const relX = (clientX - displayLeft) / displayWidth * 100;
             const relY = (clientY - displayTop) / displayHeight * 100;
             
-            if (activeMaskLayer?.gradient) {
-                const newGradient = { ...activeMaskLayer.gradient };
+            if (activeMaskComponent?.gradient) {
+                const newGradient = { ...activeMaskComponent.gradient };
                 newGradient[handle] = { x: relX, y: relY };
                 handleUpdateGradient(newGradient);
             }
@@ -2302,7 +2553,9 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
         cursorStyle = 'grabbing';
     } else if (isSpacebarDown) {
         cursorStyle = 'grab';
-    } else if ((activeTab === 'adjustmentBrush' && activeMaskLayer?.type === 'brush') || activeTab === 'lightBrush' || activeTab === 'remove') {
+    } else if (isPickingColor || (isCloning && isPickingCloneSource)) {
+        cursorStyle = 'crosshair';
+    } else if ((activeTab === 'adjustmentBrush' && isPaintableMask(activeMaskComponent?.type)) || activeTab === 'lightBrush' || activeTab === 'remove') {
         cursorStyle = 'none';
     } else {
         cursorStyle = 'grab';
@@ -2333,17 +2586,15 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
                     ref={imageContainerRef}
                     className="flex-grow bg-black/50 rounded-lg flex items-center justify-center p-2 overflow-hidden relative"
                     style={{ cursor: cursorStyle, touchAction: 'none' }}
-                    onMouseDown={onMouseDown}
-                    onMouseMove={onMouseMove}
-                    onMouseUp={onMouseUp}
-                    onMouseLeave={onMouseLeave}
+                    onPointerDown={onPointerDown}
+                    onPointerMove={onPointerMove}
+                    onPointerUp={onPointerUp}
+                    onPointerCancel={onPointerUp}
+                    onPointerLeave={clearBrushPreview}
                     onWheel={handleWheel}
-                    onTouchStart={onTouchStart}
-                    onTouchMove={onTouchMove}
-                    onTouchEnd={onTouchEnd}
                     onClick={() => { 
                         if (isOverlayInteractingRef.current || isGradientInteractRef.current) return;
-                        if(!isCropping && (activeTab !== 'adjustmentBrush' || activeMaskLayer?.type !== 'brush') && activeTab !== 'lightBrush' && !isSpacebarDown && activeTab !== 'remove' && !isSplitView) setSelectedOverlayId(null); 
+                        if(!isCropping && (activeTab !== 'adjustmentBrush' || !isPaintableMask(activeMaskComponent?.type)) && activeTab !== 'lightBrush' && !isSpacebarDown && activeTab !== 'remove' && !isSplitView) setSelectedOverlayId(null); 
                     }}
                 >
                     {isCropping && sourceImage ? (
@@ -2358,6 +2609,11 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
                         <div style={canvasContainerStyle}>
                             <div style={canvasStyle}>
                                 <canvas ref={visibleCanvasRef} className="absolute top-0 left-0 w-full h-full" style={{ pointerEvents: 'none' }} />
+                                <canvas
+                                    ref={clippingCanvasRef}
+                                    className={`absolute top-0 left-0 w-full h-full ${showHighlightClipping || showShadowClipping ? '' : 'hidden'}`}
+                                    style={{ pointerEvents: 'none' }}
+                                />
                                 
                                 {isSplitView && (
                                     <div className="absolute top-0 left-0 w-full h-full overflow-hidden" style={{ width: `${splitPosition}%`, pointerEvents: 'none', borderRight: '2px solid white' }}>
@@ -2402,7 +2658,12 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
                 </div>
 
                 {!isCropping &&
-                    <div className="w-full lg:w-72 h-1/2 lg:h-auto flex-shrink-0 bg-gray-800 rounded-lg p-4 flex flex-col gap-4 overflow-y-auto">
+                    <div
+                        className="w-full lg:w-72 h-1/2 lg:h-auto flex-shrink-0 bg-gray-800 rounded-lg p-4 flex flex-col gap-4 overflow-y-auto"
+                        onPointerDownCapture={e => {
+                            if ((e.target as HTMLElement).closest('input[type="range"], [data-drag-control]')) setIsInteracting(true);
+                        }}
+                    >
                         <div className="flex justify-between items-center">
                             <h3 className="text-lg font-bold text-gray-300">{t('adjustmentsLabel')}</h3>
                             <div className="flex items-center gap-4">
@@ -2426,7 +2687,7 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
                                     <CompareIcon className="w-5 h-5" />
                                     <span>{t('compareButton')}</span>
                                 </button>
-                                <button onClick={() => {resetAll(); resetView();}} className="flex items-center gap-1.5 text-sm text-purple-400 hover:text-purple-300 font-semibold">
+                                <button onClick={() => { pendingHistoryLabelRef.current = 'resetButton'; resetAll(); resetView(); }} className="flex items-center gap-1.5 text-sm text-purple-400 hover:text-purple-300 font-semibold">
                                     <RedrawIcon className="w-4 h-4"/>{t('resetButton')}
                                 </button>
                             </div>
@@ -2449,6 +2710,15 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
                             <button onClick={() => setZoom(z => Math.min(3, z + 0.2))} className="p-2 rounded-md hover:bg-gray-600" title={t('zoomInButton')}><ZoomInIcon className="w-5 h-5"/></button>
                             <button onClick={resetView} className="p-2 rounded-md hover:bg-gray-600" title={t('resetViewButton')}><ArrowsPointingOutIcon className="w-5 h-5"/></button>
                         </div>
+
+                        <HistogramPanel
+                            histogram={histogram}
+                            showHighlightClipping={showHighlightClipping}
+                            showShadowClipping={showShadowClipping}
+                            onToggleHighlightClipping={() => setShowHighlightClipping(v => !v)}
+                            onToggleShadowClipping={() => setShowShadowClipping(v => !v)}
+                            t={t}
+                        />
                         
                         <div className="flex bg-gray-900/50 rounded-lg p-1">
                             <button onClick={() => setActiveTab('adjust')} className={`flex-1 py-1.5 text-sm font-semibold rounded-md transition-colors ${activeTab === 'adjust' ? 'bg-purple-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>{t('adjustmentsLabel')}</button>
@@ -2467,6 +2737,8 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
                                 t={t}
                                 onBrightenEffect={handleBrightenEffectClick}
                                 onMagicErase={() => setActiveTab('remove')}
+                                previewSrc={editedDataUrl}
+                                onApplyPreset={handleApplyPreset}
                             />
                         )}
 
@@ -2475,6 +2747,9 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
                                 settings={lightBrushSettings}
                                 onSettingsChange={setLightBrushSettings}
                                 onUndo={handleUndoLightBrushStroke}
+                                hasCloneSource={cloneSource !== null}
+                                isPickingCloneSource={isPickingCloneSource}
+                                onPickingCloneSourceChange={setIsPickingCloneSource}
                                 t={t}
                             />
                         )}
@@ -2490,6 +2765,13 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
                                 onUndo={handleUndoAdjustmentStroke}
                                 t={t}
                                 onUpdateGradient={handleUpdateGradient}
+                                onSelectRegion={handleAddSelectionLayer}
+                                segmentingTarget={segmentingTarget}
+                                segmentCost={segmentCost}
+                                isPickingColor={isPickingColor}
+                                onPickingColorChange={setIsPickingRangeColor}
+                                activeMaskComponentId={activeMaskComponent?.id ?? null}
+                                onActiveMaskComponentIdChange={setActiveMaskComponentId}
                            />
                         )}
                         
@@ -2514,18 +2796,89 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({ image, onSave, onClose
                                 onUndo={handleUndoRemoveStroke}
                                 onApply={handleApplyRemove}
                                 isRemoving={isRemoving}
+                                cost={removeCost}
                                 onCancel={() => {
+                                    // While a removal is running, Cancel stops the request instead of leaving the tool
+                                    if (removeJobIdRef.current) {
+                                        cancelJob(removeJobIdRef.current);
+                                        return;
+                                    }
                                     setActiveTab('adjust');
                                     setRemoveToolStrokes([]);
                                 }}
                                 t={t}
                             />
                         )}
+                        <EditHistoryPanel
+                            entries={editHistory.entries}
+                            index={editHistory.index}
+                            canUndo={hasUncommittedChange || editHistory.index > 0}
+                            canRedo={!hasUncommittedChange && editHistory.index < editHistory.entries.length - 1}
+                            onUndo={handleUndo}
+                            onRedo={handleRedo}
+                            onJump={handleJumpToHistory}
+                            t={t}
+                        />
                         <input type="file" ref={watermarkInputRef} onChange={handleWatermarkFileChange} accept="image/*" className="hidden" />
 
                     </div>
                 }
             </main>
+            {exportSource && (
+                <ExportDialog
+                    source={exportSource}
+                    baseName={`edited-${image.file.name.replace(/\.[^/.]+$/, "")}`}
+                    metadata={image.metadata}
+                    onClose={() => setExportSource(null)}
+                    t={t}
+                />
+            )}
+        </div>
+    );
+};
+
+const EditHistoryPanel: React.FC<{
+    entries: EditHistoryEntry[];
+    index: number;
+    canUndo: boolean;
+    canRedo: boolean;
+    onUndo: () => void;
+    onRedo: () => void;
+    onJump: (index: number) => void;
+    t: TFunction;
+}> = ({ entries, index, canUndo, canRedo, onUndo, onRedo, onJump, t }) => {
+    const listRef = useRef<HTMLOListElement>(null);
+
+    useEffect(() => {
+        const active = listRef.current?.children[index] as HTMLElement | undefined;
+        active?.scrollIntoView({ block: 'nearest' });
+    }, [index, entries.length]);
+
+    return (
+        <div className="bg-gray-900/50 p-3 rounded-lg flex flex-col gap-2">
+            <div className="flex justify-between items-center">
+                <h4 className="text-sm font-bold text-gray-300">{t('editHistoryTitle')}</h4>
+                <div className="flex gap-1">
+                    <button onClick={onUndo} disabled={!canUndo} className="p-1.5 rounded-md hover:bg-gray-700 text-gray-300 disabled:opacity-40" title={`${t('undoButton')} (Ctrl+Z)`}>
+                        <UndoIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={onRedo} disabled={!canRedo} className="p-1.5 rounded-md hover:bg-gray-700 text-gray-300 disabled:opacity-40" title={`${t('redoButton')} (Ctrl+Y)`}>
+                        <RedoIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+            <ol ref={listRef} className="max-h-40 overflow-y-auto flex flex-col gap-0.5 text-sm">
+                {entries.map((entry, i) => (
+                    <li key={i}>
+                        <button
+                            onClick={() => onJump(i)}
+                            className={`w-full text-left px-2 py-1 rounded-md transition-colors ${i === index ? 'bg-purple-600 text-white' : i > index ? 'text-gray-500 hover:bg-gray-700' : 'text-gray-300 hover:bg-gray-700'}`}
+                        >
+                            {i + 1}. {t(entry.label)}
+                        </button>
+                    </li>
+                ))}
+            </ol>
         </div>
     );
 };
@@ -2580,13 +2933,15 @@ const AdjustmentPanel: React.FC<{
     t: TFunction;
     onBrightenEffect: () => void;
     onMagicErase: () => void;
-}> = ({ adjustments, setAdjustments, onFlip, onRotate, onCrop, t, onBrightenEffect, onMagicErase }) => {
+    previewSrc: string;
+    onApplyPreset: (adjustments: Adjustments) => void;
+}> = ({ adjustments, setAdjustments, onFlip, onRotate, onCrop, t, onBrightenEffect, onMagicErase, previewSrc, onApplyPreset }) => {
     
     const setAdjustment = (key: keyof Adjustments, value: any) => {
         setAdjustments(prev => ({ ...prev, [key]: value }));
     };
 
-    const applyEffect = (effect: Partial<Omit<Adjustments, 'colorMixer' | 'enhance'>>) => {
+    const applyEffect = (effect: Partial<Omit<Adjustments, 'colorMixer' | 'toneCurve' | 'levels' | 'enhance' | 'lut'>>) => {
         const newAdjustments = { ...INITIAL_ADJUSTMENTS, enhance: adjustments.enhance, accent: 0 };
 
         for (const key in effect) {
@@ -2664,6 +3019,8 @@ const AdjustmentPanel: React.FC<{
                 </div>
             </div>
 
+            <PresetLibrary adjustments={adjustments} previewSrc={previewSrc} onApply={onApplyPreset} t={t} />
+
             <div className="p-3 bg-gray-900/50 rounded-lg space-y-3">
                 <h4 className="font-semibold text-gray-400">{t('lightLabel')}</h4>
                 <AdjustmentSlider label={t('brightnessLabel')} value={adjustments.brightness} onChange={v => setAdjustment('brightness', v)} resetValue={0} />
@@ -2673,6 +3030,12 @@ const AdjustmentPanel: React.FC<{
                 <AdjustmentSlider label={t('shadowsLabel')} value={adjustments.shadows} onChange={v => setAdjustment('shadows', v)} resetValue={0} />
                 <AdjustmentSlider label={t('vignetteLabel')} value={adjustments.vignette} min={0} onChange={v => setAdjustment('vignette', v)} resetValue={0} />
             </div>
+            <ToneCurvePanel
+                toneCurve={adjustments.toneCurve}
+                levels={adjustments.levels}
+                onChange={patch => setAdjustments(prev => ({ ...prev, ...patch }))}
+                t={t}
+            />
             <div className="p-3 bg-gray-900/50 rounded-lg space-y-3">
                 <h4 className="font-semibold text-gray-400">{t('colorLabel')}</h4>
                 <AdjustmentSlider label={t('saturationLabel')} value={adjustments.saturate} onChange={v => setAdjustment('saturate', v)} resetValue={0} />
@@ -2699,6 +3062,7 @@ const AdjustmentPanel: React.FC<{
                 }}
                 t={t}
             />
+            <LutPanel lut={adjustments.lut ?? null} onChange={lut => setAdjustments(prev => ({ ...prev, lut }))} t={t} />
             <div className="p-3 bg-gray-900/50 rounded-lg space-y-3">
                 <h4 className="font-semibold text-gray-400">{t('clarityLabel')}</h4>
                 <AdjustmentSlider label={t('clarityLabel')} value={adjustments.clarity} onChange={v => setAdjustment('clarity', v)} resetValue={0} min={0} max={10} />
@@ -2723,9 +3087,10 @@ const RemoveToolPanel: React.FC<{
     onUndo: () => void;
     onApply: () => void;
     isRemoving: boolean;
+    cost: number;
     onCancel: () => void;
     t: TFunction;
-}> = ({ settings, onSettingsChange, onUndo, onApply, isRemoving, onCancel, t }) => {
+}> = ({ settings, onSettingsChange, onUndo, onApply, isRemoving, cost, onCancel, t }) => {
 
     const handleSettingChange = (key: keyof typeof settings, value: number) => {
         onSettingsChange(prev => ({ ...prev, [key]: value }));
@@ -2745,7 +3110,7 @@ const RemoveToolPanel: React.FC<{
                 <div className="grid grid-cols-2 gap-2 pt-2 border-t border-gray-700/50">
                     <button onClick={onCancel} className="bg-gray-600 hover:bg-gray-500 text-white font-semibold py-2 px-4 rounded-lg">{t('layoutCancel')}</button>
                     <button onClick={onApply} disabled={isRemoving} className="flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed">
-                        {isRemoving ? t('generatingButton') : <><SparklesIcon className="w-5 h-5"/>{t('applyRemoveButton')}</>}
+                        {isRemoving ? t('generatingButton') : <><SparklesIcon className="w-5 h-5"/>{t('applyRemoveButton')} ({cost} {t('creditsLabel')})</>}
                     </button>
                 </div>
             </div>
@@ -3191,46 +3556,107 @@ interface AdjustmentBrushPanelProps {
     onActiveMaskLayerIdChange: React.Dispatch<React.SetStateAction<string | null>>;
     onUndo: () => void;
     t: TFunction;
-    onUpdateGradient: (updates: Partial<NonNullable<MaskLayer['gradient']>>) => void;
+    onUpdateGradient: (updates: Partial<NonNullable<MaskComponent['gradient']>>) => void;
+    onSelectRegion: (target: SegmentationTarget) => void;
+    segmentingTarget: SegmentationTarget | null;
+    segmentCost: number;
+    isPickingColor: boolean;
+    onPickingColorChange: (isPicking: boolean) => void;
+    activeMaskComponentId: string | null;
+    onActiveMaskComponentIdChange: (id: string | null) => void;
 }
 
+// Shapes a mask layer or component can start from, with their add buttons' icons
+const MASK_SHAPE_BUTTONS = [
+    ['brush', BrushIcon],
+    ['radial', RadialGradientIcon],
+    ['linear', LinearGradientIcon],
+    ['color', SaturationIcon],
+    ['luminance', ContrastIcon],
+] as const;
+
 const AdjustmentBrushPanel: React.FC<AdjustmentBrushPanelProps> = (
-    { settings, onSettingsChange, maskLayers, onMaskLayersChange, activeMaskLayerId, onActiveMaskLayerIdChange, onUndo, t, onUpdateGradient }
+    { settings, onSettingsChange, maskLayers, onMaskLayersChange, activeMaskLayerId, onActiveMaskLayerIdChange, onUndo, t, onUpdateGradient, onSelectRegion, segmentingTarget, segmentCost, isPickingColor, onPickingColorChange, activeMaskComponentId, onActiveMaskComponentIdChange }
 ) => {
     const activeLayer = maskLayers.find(l => l.id === activeMaskLayerId);
+    const activeComponent = activeLayer?.components.find(c => c.id === activeMaskComponentId);
     
     const handleSettingChange = (key: keyof AdjustmentBrushSettings, value: any) => {
         onSettingsChange(prev => ({ ...prev, [key]: value }));
     };
 
-    const handleMaskAdjustmentChange = (key: keyof Omit<Adjustments, 'colorMixer' | 'enhance' | 'dehaze' | 'vibrance' | 'accent'>, value: number) => {
+    const handleMaskAdjustmentChange = (key: keyof Omit<Adjustments, 'colorMixer' | 'toneCurve' | 'levels' | 'lut' | 'enhance' | 'dehaze' | 'vibrance' | 'accent'>, value: number) => {
         if (!activeMaskLayerId) return;
         onMaskLayersChange(prev => prev.map(l => l.id === activeMaskLayerId ? { ...l, adjustments: { ...l.adjustments, [key]: value } } : l));
     };
 
+    const handleMaskToneChange = (patch: Partial<Pick<Adjustments, 'toneCurve' | 'levels'>>) => {
+        if (!activeMaskLayerId) return;
+        onMaskLayersChange(prev => prev.map(l => l.id === activeMaskLayerId ? { ...l, adjustments: { ...l.adjustments, ...patch } } : l));
+    };
+
     const handleAddLayer = (type: MaskType = 'brush') => {
+        const component = createMaskComponent(type);
         const newLayer: MaskLayer = {
             id: `mask-${Date.now()}`,
-            name: `${t('maskLayerName')} ${maskLayers.length + 1} (${type === 'brush' ? t('addBrushMaskButton') : type === 'radial' ? t('addRadialMaskButton') : t('addLinearMaskButton')})`,
+            name: `${t('maskLayerName')} ${maskLayers.length + 1} (${t(MASK_TYPE_LABELS[type])})`,
             isVisible: true,
-            type,
-            strokes: [],
+            components: [component],
             adjustments: { ...INITIAL_ADJUSTMENTS, colorMixer: INITIAL_COLOR_MIXER },
             invert: false,
         };
-        if (type === 'linear') {
-            newLayer.gradient = { start: { x: 50, y: 20 }, end: { x: 50, y: 80 }, feather: 20 };
-        } else if (type === 'radial') {
-            newLayer.gradient = { start: { x: 50, y: 50 }, end: { x: 80, y: 50 }, feather: 20, rotation: 0, radiusY: 1 };
-        }
         onMaskLayersChange(prev => [...prev, newLayer]);
         onActiveMaskLayerIdChange(newLayer.id);
+        onActiveMaskComponentIdChange(component.id);
+        onPickingColorChange(type === 'color');
+    };
+
+    const handleSelectLayer = (id: string) => {
+        onActiveMaskLayerIdChange(id);
+        onActiveMaskComponentIdChange(null);
+    };
+
+    const handleAddComponent = (type: MaskType) => {
+        if (!activeMaskLayerId) return;
+        const component = createMaskComponent(type);
+        onMaskLayersChange(prev => prev.map(l => l.id === activeMaskLayerId ? { ...l, components: [...l.components, component] } : l));
+        onActiveMaskComponentIdChange(component.id);
+        onPickingColorChange(type === 'color');
+    };
+
+    const handleComponentOperationChange = (id: string, operation: MaskOperation) => {
+        if (!activeMaskLayerId) return;
+        onMaskLayersChange(prev => updateMaskComponent(prev, activeMaskLayerId, id, c => ({ ...c, operation })));
+    };
+
+    const handleDeleteComponent = (id: string) => {
+        if (!activeMaskLayerId) return;
+        onMaskLayersChange(prev => prev.map(l => l.id === activeMaskLayerId ? { ...l, components: l.components.filter(c => c.id !== id) } : l));
+        if (activeComponent?.id === id) onActiveMaskComponentIdChange(null);
+    };
+
+    const handleColorRangeChange = (updates: Partial<NonNullable<MaskComponent['colorRange']>>) => {
+        if (!activeMaskLayerId || !activeComponent) return;
+        onMaskLayersChange(prev => updateMaskComponent(prev, activeMaskLayerId, activeComponent.id, c => c.colorRange ? { ...c, colorRange: { ...c.colorRange, ...updates } } : c));
+    };
+
+    // Keeps min at or below max, like the levels black and white points
+    const handleLuminanceRangeChange = (updates: Partial<NonNullable<MaskComponent['luminanceRange']>>) => {
+        if (!activeMaskLayerId || !activeComponent) return;
+        onMaskLayersChange(prev => updateMaskComponent(prev, activeMaskLayerId, activeComponent.id, c => {
+            if (!c.luminanceRange) return c;
+            const next = { ...c.luminanceRange, ...updates };
+            if (updates.min !== undefined) next.min = Math.min(next.min, next.max);
+            if (updates.max !== undefined) next.max = Math.max(next.max, next.min);
+            return { ...c, luminanceRange: next };
+        }));
     };
 
     const handleDeleteLayer = (id: string) => {
         onMaskLayersChange(prev => prev.filter(l => l.id !== id));
         if(activeMaskLayerId === id) {
             onActiveMaskLayerIdChange(maskLayers.length > 1 ? maskLayers.find(l => l.id !== id)!.id : null);
+            onActiveMaskComponentIdChange(null);
         }
     };
 
@@ -3248,18 +3674,33 @@ const AdjustmentBrushPanel: React.FC<AdjustmentBrushPanelProps> = (
                 <div className="flex justify-between items-center">
                     <h4 className="font-semibold text-gray-400">{t('adjustmentBrushLabel')}</h4>
                     <div className="flex gap-1">
-                         <button onClick={() => handleAddLayer('brush')} className="p-1.5 bg-gray-700 hover:bg-gray-600 rounded text-white" title={t('addBrushMaskButton')}><BrushIcon className="w-4 h-4"/></button>
-                         <button onClick={() => handleAddLayer('radial')} className="p-1.5 bg-gray-700 hover:bg-gray-600 rounded text-white" title={t('addRadialMaskButton')}><RadialGradientIcon className="w-4 h-4"/></button>
-                         <button onClick={() => handleAddLayer('linear')} className="p-1.5 bg-gray-700 hover:bg-gray-600 rounded text-white" title={t('addLinearMaskButton')}><LinearGradientIcon className="w-4 h-4"/></button>
+                         {MASK_SHAPE_BUTTONS.map(([type, Icon]) => (
+                             <button key={type} onClick={() => handleAddLayer(type)} className="p-1.5 bg-gray-700 hover:bg-gray-600 rounded text-white" title={t(MASK_TYPE_LABELS[type])}><Icon className="w-4 h-4"/></button>
+                         ))}
                     </div>
                 </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    {([['subject', 'selectSubjectButton', UserCircleIcon], ['sky', 'selectSkyButton', SunIcon]] as const).map(([target, labelKey, Icon]) => (
+                        <button
+                            key={target}
+                            onClick={() => onSelectRegion(target)}
+                            disabled={segmentingTarget !== null}
+                            className="flex items-center justify-center gap-1.5 py-1.5 px-2 text-sm bg-gray-700 hover:bg-gray-600 rounded-md text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <Icon className={`w-4 h-4 ${segmentingTarget === target ? 'animate-pulse' : ''}`}/>
+                            <span className="truncate">{t(labelKey)}</span>
+                            <span className="text-xs text-gray-400">({segmentCost} {t('creditsLabel')})</span>
+                        </button>
+                    ))}
+                </div>
                 
                 {/* Layer List */}
                 <div className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
                     {maskLayers.map((layer, index) => (
                         <div 
                             key={layer.id} 
-                            onClick={() => onActiveMaskLayerIdChange(layer.id)}
+                            onClick={() => handleSelectLayer(layer.id)}
                             className={`flex items-center justify-between p-2 rounded-md cursor-pointer border ${activeMaskLayerId === layer.id ? 'bg-purple-900/30 border-purple-500' : 'bg-gray-800 border-transparent hover:bg-gray-700'}`}
                         >
                             <div className="flex items-center gap-2 overflow-hidden">
@@ -3293,20 +3734,95 @@ const AdjustmentBrushPanel: React.FC<AdjustmentBrushPanelProps> = (
             </div>
 
             {activeLayer && (
+                <div className="p-3 bg-gray-900/50 rounded-lg space-y-2">
+                    <div className="flex justify-between items-center">
+                        <h4 className="font-semibold text-gray-400">{t('maskComponentsLabel')}</h4>
+                        <div className="flex gap-1">
+                            {MASK_SHAPE_BUTTONS.map(([type, Icon]) => (
+                                <button key={type} onClick={() => handleAddComponent(type)} className="p-1 bg-gray-700 hover:bg-gray-600 rounded text-white" title={`${t('addMaskComponentButton')}: ${t(MASK_TYPE_LABELS[type])}`}><Icon className="w-3 h-3"/></button>
+                            ))}
+                        </div>
+                    </div>
+                    {activeLayer.components.map((component, index) => (
+                        <div
+                            key={component.id}
+                            onClick={() => onActiveMaskComponentIdChange(component.id)}
+                            className={`flex items-center gap-2 p-2 rounded-md cursor-pointer border ${activeComponent?.id === component.id ? 'bg-purple-900/30 border-purple-500' : 'bg-gray-800 border-transparent hover:bg-gray-700'}`}
+                        >
+                            <span className="text-sm truncate flex-1">{t(MASK_TYPE_LABELS[component.type])}</span>
+                            {index > 0 && (
+                                <select
+                                    value={component.operation}
+                                    onClick={e => e.stopPropagation()}
+                                    onChange={e => handleComponentOperationChange(component.id, e.target.value as MaskOperation)}
+                                    className="p-1 text-xs bg-gray-700 border border-gray-600 rounded-md text-gray-200"
+                                >
+                                    {(Object.keys(MASK_OPERATION_LABELS) as MaskOperation[]).map(operation => (
+                                        <option key={operation} value={operation}>{t(MASK_OPERATION_LABELS[operation])}</option>
+                                    ))}
+                                </select>
+                            )}
+                            {activeLayer.components.length > 1 && (
+                                <button onClick={(e) => { e.stopPropagation(); handleDeleteComponent(component.id); }} className="p-1 text-gray-400 hover:text-red-400">
+                                    <TrashIcon className="w-3 h-3"/>
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {activeLayer && activeComponent && (
                 <>
+                    {activeComponent.type === 'color' && activeComponent.colorRange && (
+                        <div className="p-3 bg-gray-900/50 rounded-lg space-y-3">
+                            <h4 className="font-semibold text-gray-400">{t('colorRangeLabel')}</h4>
+                            <div className="flex items-center gap-3">
+                                <div
+                                    className="w-8 h-8 rounded border border-gray-600 flex-shrink-0"
+                                    style={{ background: activeComponent.colorRange.color ? `rgb(${activeComponent.colorRange.color.r}, ${activeComponent.colorRange.color.g}, ${activeComponent.colorRange.color.b})` : 'transparent' }}
+                                />
+                                <button
+                                    onClick={() => onPickingColorChange(!isPickingColor)}
+                                    className={`flex-1 py-1.5 text-sm rounded-md ${isPickingColor ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+                                >
+                                    {t('pickColorButton')}
+                                </button>
+                            </div>
+                            {(isPickingColor || !activeComponent.colorRange.color) && <p className="text-xs text-gray-500">{t('pickColorHelp')}</p>}
+                            <AdjustmentSlider label={t('colorRangeToleranceLabel')} value={activeComponent.colorRange.tolerance} min={0} max={100} onChange={v => handleColorRangeChange({ tolerance: v })} resetValue={25} />
+                            <AdjustmentSlider label={t('brushFeatherLabel')} value={activeComponent.colorRange.feather} min={0} max={100} onChange={v => handleColorRangeChange({ feather: v })} resetValue={50} />
+                        </div>
+                    )}
+
+                    {activeComponent.type === 'luminance' && activeComponent.luminanceRange && (
+                        <div className="p-3 bg-gray-900/50 rounded-lg space-y-3">
+                            <h4 className="font-semibold text-gray-400">{t('luminanceRangeLabel')}</h4>
+                            <div className="h-2 rounded bg-gradient-to-r from-black to-white relative">
+                                <div
+                                    className="absolute inset-y-0 border-x-2 border-purple-500 bg-purple-500/30"
+                                    style={{ left: `${activeComponent.luminanceRange.min}%`, right: `${100 - activeComponent.luminanceRange.max}%` }}
+                                />
+                            </div>
+                            <AdjustmentSlider label={t('luminanceRangeMinLabel')} value={activeComponent.luminanceRange.min} min={0} max={100} onChange={v => handleLuminanceRangeChange({ min: v })} resetValue={70} />
+                            <AdjustmentSlider label={t('luminanceRangeMaxLabel')} value={activeComponent.luminanceRange.max} min={0} max={100} onChange={v => handleLuminanceRangeChange({ max: v })} resetValue={100} />
+                            <AdjustmentSlider label={t('brushFeatherLabel')} value={activeComponent.luminanceRange.feather} min={0} max={100} onChange={v => handleLuminanceRangeChange({ feather: v })} resetValue={50} />
+                        </div>
+                    )}
+
                     <div className="p-3 bg-gray-900/50 rounded-lg space-y-3">
                          <div className="flex justify-between items-center">
                              <h4 className="font-semibold text-gray-400">
-                                {activeLayer.type === 'brush' ? t('brushSettingsLabel') : t('gradientSettingsLabel')}
+                                {isPaintableMask(activeComponent.type) ? t('brushSettingsLabel') : t('gradientSettingsLabel')}
                              </h4>
-                             {activeLayer.type === 'brush' && (
+                             {isPaintableMask(activeComponent.type) && (
                                 <button onClick={onUndo} className="flex items-center gap-1.5 text-sm text-purple-400 hover:text-purple-300 font-semibold">
                                     <UndoIcon className="w-4 h-4"/>{t('undoButton')}
                                 </button>
                              )}
                         </div>
 
-                        {activeLayer.type === 'brush' && (
+                        {isPaintableMask(activeComponent.type) && (
                             <>
                                 <div className="flex bg-gray-700 rounded-lg p-1">
                                     <button onClick={() => handleSettingChange('isErasing', false)} className={`flex-1 py-1 text-sm rounded-md ${!settings.isErasing ? 'bg-purple-600 text-white' : 'text-gray-300'}`}>{t('paintButton')}</button>
@@ -3318,10 +3834,10 @@ const AdjustmentBrushPanel: React.FC<AdjustmentBrushPanelProps> = (
                             </>
                         )}
 
-                        {(activeLayer.type === 'radial' || activeLayer.type === 'linear') && activeLayer.gradient && (
+                        {(activeComponent.type === 'radial' || activeComponent.type === 'linear') && activeComponent.gradient && (
                              <AdjustmentSlider 
                                 label={t('brushFeatherLabel')} 
-                                value={activeLayer.gradient.feather} 
+                                value={activeComponent.gradient.feather} 
                                 min={0} max={100} 
                                 onChange={(v) => onUpdateGradient({ feather: v })} 
                                 resetValue={20} 
@@ -3342,6 +3858,12 @@ const AdjustmentBrushPanel: React.FC<AdjustmentBrushPanelProps> = (
                         <AdjustmentSlider label={t('temperatureLabel')} value={activeLayer.adjustments.temperature} onChange={v => handleMaskAdjustmentChange('temperature', v)} resetValue={0} />
                         <AdjustmentSlider label={t('tintLabel')} value={activeLayer.adjustments.tint} onChange={v => handleMaskAdjustmentChange('tint', v)} resetValue={0} />
                     </div>
+                    <ToneCurvePanel
+                        toneCurve={activeLayer.adjustments.toneCurve}
+                        levels={activeLayer.adjustments.levels}
+                        onChange={handleMaskToneChange}
+                        t={t}
+                    />
                 </>
             )}
         </div>
@@ -0,0 +1,245 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Adjustments, AdjustmentPreset, TFunction } from '../types';
+import { DownloadIcon, PlusIcon, TrashIcon, UploadIcon } from './Icons';
+import { createPresetId, deletePreset, exportPresets, listPresets, parsePresetFile, savePresets } from '../services/presetLibrary';
+import { renderAdjustedImage, scaleAdjustments } from '../lib/imageAdjustments';
+import { downloadBlob } from '../services/imageExport';
+
+interface PresetLibraryProps {
+    adjustments: Adjustments;
+    // Current image; new presets get a thumbnail rendered from it
+    previewSrc: string;
+    onApply: (adjustments: Adjustments) => void;
+    t: TFunction;
+}
+
+const THUMBNAIL_SIZE = 128;
+
+// The preset last applied and the adjustments it produced. The intensity
+// slider only shows while the editor still holds exactly those adjustments.
+interface AppliedPreset {
+    id: string;
+    intensity: number;
+    result: Adjustments;
+}
+
+export const PresetLibrary: React.FC<PresetLibraryProps> = ({ adjustments, previewSrc, onApply, t }) => {
+    const [presets, setPresets] = useState<AdjustmentPreset[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [applied, setApplied] = useState<AppliedPreset | null>(null);
+    const [collapsedFolders, setCollapsedFolders] = useState<string[]>([]);
+    const [isSaveFormOpen, setIsSaveFormOpen] = useState(false);
+    const [newName, setNewName] = useState('');
+    const [newFolder, setNewFolder] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const reload = () => listPresets().then(setPresets).catch(e => console.error("Failed to load presets", e));
+
+    useEffect(() => { reload(); }, []);
+
+    const folders = Array.from(new Set(presets.map(p => p.folder))).sort((a, b) => a.localeCompare(b));
+    const selected = presets.find(p => p.id === selectedId) ?? null;
+
+    const applyPreset = (preset: AdjustmentPreset, intensity: number) => {
+        const result = scaleAdjustments(preset.adjustments, intensity / 100);
+        setApplied({ id: preset.id, intensity, result });
+        onApply(result);
+    };
+
+    const renderThumbnail = async (presetAdjustments: Adjustments) => {
+        try {
+            const canvas = await renderAdjustedImage(previewSrc, presetAdjustments, THUMBNAIL_SIZE);
+            return canvas.toDataURL('image/jpeg', 0.8);
+        } catch (e) {
+            console.error("Failed to render preset thumbnail", e);
+            return undefined;
+        }
+    };
+
+    const handleSave = async () => {
+        const name = newName.trim();
+        if (!name) return;
+        setIsSaving(true);
+        try {
+            const thumbnail = await renderThumbnail(adjustments);
+            const preset: AdjustmentPreset = { id: createPresetId(), name, folder: newFolder.trim(), adjustments, thumbnail, createdAt: Date.now() };
+            await savePresets([preset]);
+            await reload();
+            setSelectedId(preset.id);
+            setApplied({ id: preset.id, intensity: 100, result: adjustments });
+            setIsSaveFormOpen(false);
+            setNewName('');
+        } catch (e) {
+            console.error("Failed to save preset", e);
+            alert(t('presetSaveFailed'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleMove = async (preset: AdjustmentPreset, folder: string) => {
+        try {
+            await savePresets([{ ...preset, folder }]);
+        } catch (e) {
+            console.error("Failed to move preset", e);
+            alert(t('presetMoveFailed'));
+        }
+        reload();
+    };
+
+    const handleDelete = async (preset: AdjustmentPreset) => {
+        if (!window.confirm(t('presetDeleteConfirm'))) return;
+        try {
+            await deletePreset(preset.id);
+            if (selectedId === preset.id) setSelectedId(null);
+        } catch (e) {
+            console.error("Failed to delete preset", e);
+            alert(t('presetDeleteFailed'));
+        }
+        reload();
+    };
+
+    // Lightroom presets and LUTs come without a preview, so one is rendered from the current image
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        const failed: string[] = [];
+        for (const file of files) {
+            try {
+                const imported = await parsePresetFile(file);
+                await savePresets(await Promise.all(imported.map(async preset =>
+                    preset.thumbnail ? preset : { ...preset, thumbnail: await renderThumbnail(preset.adjustments) }
+                )));
+            } catch (error) {
+                console.error("Failed to import presets from", file.name, error);
+                failed.push(file.name);
+            }
+        }
+        reload();
+        if (failed.length > 0) alert(`${t('presetImportFailed')}\n${failed.join('\n')}`);
+    };
+
+    const handleExport = (list: AdjustmentPreset[], name: string) =>
+        downloadBlob(exportPresets(list), `${name.replace(/[\\/:*?"<>|]/g, '-')}.json`);
+
+    const toggleFolder = (folder: string) =>
+        setCollapsedFolders(prev => prev.includes(folder) ? prev.filter(f => f !== folder) : [...prev, folder]);
+
+    return (
+        <div className="p-3 bg-gray-900/50 rounded-lg space-y-3">
+            <div className="flex justify-between items-center">
+                <h4 className="font-semibold text-gray-400">{t('presetsTitle')}</h4>
+                <div className="flex items-center gap-1">
+                    <button onClick={() => fileInputRef.current?.click()} className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded" title={t('presetImportButton')}>
+                        <UploadIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleExport(presets, 'presets')} disabled={presets.length === 0} className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded disabled:opacity-40" title={t('presetExportButton')}>
+                        <DownloadIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setIsSaveFormOpen(open => !open)} className="p-1.5 text-purple-400 hover:text-purple-300 hover:bg-gray-700 rounded" title={t('presetSaveButton')}>
+                        <PlusIcon className="w-4 h-4" />
+                    </button>
+                </div>
+                <input ref={fileInputRef} type="file" accept=".json,.xmp,.cube" multiple onChange={handleImport} className="hidden" />
+            </div>
+
+            {isSaveFormOpen && (
+                <div className="space-y-2 p-2 bg-gray-800 rounded-md">
+                    <input
+                        type="text"
+                        value={newName}
+                        onChange={e => setNewName(e.target.value)}
+                        placeholder={t('presetNamePlaceholder')}
+                        className="w-full bg-gray-900 border border-gray-600 rounded p-1.5 text-sm"
+                        autoFocus
+                    />
+                    <input
+                        type="text"
+                        value={newFolder}
+                        onChange={e => setNewFolder(e.target.value)}
+                        placeholder={t('presetFolderPlaceholder')}
+                        list="preset-folders"
+                        className="w-full bg-gray-900 border border-gray-600 rounded p-1.5 text-sm"
+                    />
+                    <datalist id="preset-folders">
+                        {folders.filter(Boolean).map(folder => <option key={folder} value={folder} />)}
+                    </datalist>
+                    <div className="grid grid-cols-2 gap-2">
+                        <button onClick={() => setIsSaveFormOpen(false)} className="bg-gray-600 hover:bg-gray-500 text-white text-sm font-semibold py-1.5 rounded">{t('layoutCancel')}</button>
+                        <button onClick={handleSave} disabled={!newName.trim() || isSaving} className="bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold py-1.5 rounded disabled:opacity-50">{t('presetSaveButton')}</button>
+                    </div>
+                </div>
+            )}
+
+            {presets.length === 0 && !isSaveFormOpen && <p className="text-xs text-gray-500">{t('presetsEmpty')}</p>}
+
+            {folders.map(folder => {
+                const inFolder = presets.filter(p => p.folder === folder);
+                const isCollapsed = collapsedFolders.includes(folder);
+                return (
+                    <div key={folder || '-'} className="space-y-2">
+                        {folder && (
+                            <div className="flex items-center justify-between">
+                                <button onClick={() => toggleFolder(folder)} className="text-xs font-semibold text-gray-300 hover:text-white">
+                                    {isCollapsed ? '▸' : '▾'} {folder} <span className="text-gray-500">({inFolder.length})</span>
+                                </button>
+                                <button onClick={() => handleExport(inFolder, folder)} className="p-1 text-gray-500 hover:text-white" title={t('presetExportButton')}>
+                                    <DownloadIcon className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        )}
+                        {!isCollapsed && (
+                            <div className="grid grid-cols-3 gap-2">
+                                {inFolder.map(preset => (
+                                    <button
+                                        key={preset.id}
+                                        onClick={() => { setSelectedId(preset.id); applyPreset(preset, 100); }}
+                                        className={`flex flex-col gap-1 p-1 rounded-md text-left ${selectedId === preset.id ? 'bg-purple-600/40 ring-1 ring-purple-500' : 'bg-gray-700 hover:bg-gray-600'}`}
+                                        title={preset.name}
+                                    >
+                                        {preset.thumbnail
+                                            ? <img src={preset.thumbnail} alt="" className="w-full aspect-square object-cover rounded" />
+                                            : <div className="w-full aspect-square rounded bg-gray-800" />}
+                                        <span className="text-xs text-gray-200 truncate">{preset.name}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+
+            {selected && (
+                <div className="space-y-2 pt-2 border-t border-gray-700/50">
+                    {applied?.id === selected.id && applied.result === adjustments && (
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <label className="text-sm text-gray-300">{t('presetIntensityLabel')}</label>
+                                <span className="text-xs text-gray-400 font-mono bg-gray-700 px-2 py-0.5 rounded">{applied.intensity}</span>
+                            </div>
+                            <input
+                                type="range" min={0} max={100} value={applied.intensity}
+                                onChange={e => applyPreset(selected, Number(e.target.value))}
+                                className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                            />
+                        </div>
+                    )}
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={selected.folder}
+                            onChange={e => handleMove(selected, e.target.value)}
+                            className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded p-1.5 text-xs"
+                            title={t('presetFolderPlaceholder')}
+                        >
+                            {['', ...folders.filter(Boolean)].map(folder => <option key={folder || '-'} value={folder}>{folder || t('presetNoFolder')}</option>)}
+                        </select>
+                        <button onClick={() => handleDelete(selected)} className="p-1.5 text-gray-400 hover:text-red-400" title={t('presetDeleteButton')}>
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import type { ImageResolution, PricedImageOperation, PricingConfig, TFunction, StringTranslationKeys } from '../types';
+
+interface PricingEditorProps {
+  pricing: PricingConfig;
+  onSave: (pricing: PricingConfig) => Promise<void>;
+  t: TFunction;
+}
+
+const OPERATIONS: { id: PricedImageOperation; labelKey: StringTranslationKeys }[] = [
+  { id: 'generate', labelKey: 'pricingGenerateLabel' },
+  { id: 'edit', labelKey: 'pricingEditLabel' },
+  { id: 'remove', labelKey: 'magicEraserButton' },
+  { id: 'segment', labelKey: 'pricingSegmentLabel' },
+];
+
+const RESOLUTIONS: ImageResolution[] = ['1K', '2K', '4K'];
+
+const toCredits = (value: string) => Math.max(0, Math.round(Number(value) || 0));
+
+export const PricingEditor: React.FC<PricingEditorProps> = ({ pricing, onSave, t }) => {
+  const [draft, setDraft] = useState<PricingConfig>(pricing);
+  const [status, setStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+
+  useEffect(() => setDraft(pricing), [pricing]);
+
+  const setImagePrice = (operation: PricedImageOperation, resolution: ImageResolution, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      images: { ...prev.images, [operation]: { ...prev.images[operation], [resolution]: toCredits(value) } },
+    }));
+    setStatus('idle');
+  };
+
+  const setVariantRate = (index: number, value: string) => {
+    setDraft(prev => ({ ...prev, variantRates: prev.variantRates.map((rate, i) => i === index ? toCredits(value) : rate) }));
+    setStatus('idle');
+  };
+
+  const handleSave = async () => {
+    setStatus('saving');
+    try {
+      await onSave(draft);
+      setStatus('saved');
+    } catch (e) {
+      console.error("Failed to save pricing", e);
+      setStatus('error');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h4 className="text-sm font-bold text-blue-300">{t('pricingTitle')}</h4>
+      <p className="text-xs text-gray-400">{t('pricingHelperText')}</p>
+      <table className="text-sm w-full max-w-md">
+        <thead>
+          <tr className="text-xs text-gray-400">
+            <th className="text-left font-medium py-1"></th>
+            {RESOLUTIONS.map(res => <th key={res} className="font-medium py-1">{res}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {OPERATIONS.map(({ id, labelKey }) => (
+            <tr key={id}>
+              <td className="text-gray-300 pr-2 py-1">{t(labelKey)}</td>
+              {RESOLUTIONS.map(res => (
+                <td key={res} className="px-1 py-1">
+                  <input
+                    type="number"
+                    min={0}
+                    value={draft.images[id][res]}
+                    onChange={e => setImagePrice(id, res, e.target.value)}
+                    className="w-20 bg-gray-800 border border-gray-600 rounded p-1 text-sm text-center"
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+          <tr>
+            <td className="text-gray-300 pr-2 py-1">{t('pricingRefineLabel')}</td>
+            <td className="px-1 py-1">
+              <input
+                type="number"
+                min={0}
+                value={draft.refine}
+                onChange={e => { setDraft(prev => ({ ...prev, refine: toCredits(e.target.value) })); setStatus('idle'); }}
+                className="w-20 bg-gray-800 border border-gray-600 rounded p-1 text-sm text-center"
+              />
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      <div className="flex flex-col gap-1">
+        <span className="text-sm text-gray-300">{t('pricingVariantRatesLabel')}</span>
+        <p className="text-xs text-gray-400">{t('pricingVariantRatesHelp')}</p>
+        <div className="flex gap-2">
+          {draft.variantRates.map((rate, i) => (
+            <label key={i} className="flex flex-col items-center text-xs text-gray-400 gap-1">
+              {i + 1}
+              <input
+                type="number"
+                min={0}
+                value={rate}
+                onChange={e => setVariantRate(i, e.target.value)}
+                className="w-20 bg-gray-800 border border-gray-600 rounded p-1 text-sm text-center"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center gap-3">
+        <button onClick={handleSave} disabled={status === 'saving'} className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded font-bold text-sm disabled:opacity-50">
+          {t('pricingSaveButton')}
+        </button>
+        {status === 'saved' && <span className="text-sm text-green-400">{t('pricingSaved')}</span>}
+        {status === 'error' && <span className="text-sm text-red-400">{t('pricingSaveError')}</span>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import type { TFunction, WorkspaceProject } from '../types';
+import { EditIcon, PlusIcon, TrashIcon } from './Icons';
+
+interface ProjectSwitcherProps {
+  projects: WorkspaceProject[];
+  activeProjectId: string | null;
+  disabled: boolean;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  t: TFunction;
+}
+
+export const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({ projects, activeProjectId, disabled, onSwitch, onCreate, onRename, onDelete, t }) => {
+  const activeProject = projects.find(p => p.id === activeProjectId);
+
+  const handleCreate = () => {
+    const name = window.prompt(t('newProjectPrompt'), `${t('projectLabel')} ${projects.length + 1}`);
+    if (name?.trim()) onCreate(name.trim());
+  };
+
+  const handleRename = () => {
+    if (!activeProject) return;
+    const name = window.prompt(t('renameProjectPrompt'), activeProject.name);
+    if (name?.trim()) onRename(activeProject.id, name.trim());
+  };
+
+  const handleDelete = () => {
+    if (!activeProject) return;
+    if (window.confirm(`${t('deleteProjectConfirm')}\n\n${activeProject.name}`)) onDelete(activeProject.id);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor="projectSelect" className="text-sm font-medium text-gray-400 whitespace-nowrap">{t('projectLabel')}</label>
+      <select
+        id="projectSelect"
+        value={activeProjectId ?? ''}
+        disabled={disabled}
+        onChange={(e) => onSwitch(e.target.value)}
+        className="flex-grow bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 p-2 disabled:opacity-50"
+      >
+        {projects.map(project => <option key={project.id} value={project.id}>{project.name}</option>)}
+      </select>
+      <button onClick={handleCreate} disabled={disabled} className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-200 disabled:opacity-50" title={t('newProjectButton')}>
+        <PlusIcon className="w-4 h-4" />
+      </button>
+      <button onClick={handleRename} disabled={disabled || !activeProject} className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-200 disabled:opacity-50" title={t('renameProjectButton')}>
+        <EditIcon className="w-4 h-4" />
+      </button>
+      <button onClick={handleDelete} disabled={disabled || projects.length < 2} className="p-2 bg-red-900/50 hover:bg-red-900 rounded-lg text-red-200 disabled:opacity-50" title={t('deleteProjectButton')}>
+        <TrashIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
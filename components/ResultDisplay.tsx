@@ -1,6 +1,8 @@
-import React from 'react';
-import type { ApiResult, TFunction } from '../types';
+import React, { useState } from 'react';
+import type { ApiResult, ImageMetadata, TFunction } from '../types';
 import { ImageIcon, DownloadIcon, EditIcon } from './Icons';
+import { ExportDialog } from './ExportDialog';
+import { loadImageToCanvas } from '../services/imageExport';
 
 interface ResultDisplayProps {
   loading: boolean;
@@ -8,19 +10,22 @@ interface ResultDisplayProps {
   apiResult: ApiResult;
   t: TFunction;
   onEditResult: () => void;
+  onSelectVariant: (imageUrl: string) => void;
 }
 
-export const ResultDisplay: React.FC<ResultDisplayProps> = ({ loading, error, apiResult, t, onEditResult }) => {
+// Everything shown here came from the image model
+const RESULT_METADATA: ImageMetadata = { aiGenerated: true };
 
-  const handleDownload = () => {
+export const ResultDisplay: React.FC<ResultDisplayProps> = ({ loading, error, apiResult, t, onEditResult, onSelectVariant }) => {
+  const [exportSource, setExportSource] = useState<HTMLCanvasElement | null>(null);
+
+  const handleDownload = async () => {
     if (!apiResult.imageUrl) return;
-    
-    const link = document.createElement('a');
-    link.href = apiResult.imageUrl;
-    link.download = `ivan-ai-photo.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    try {
+      setExportSource(await loadImageToCanvas(apiResult.imageUrl));
+    } catch (e) {
+      console.error("Failed to load result for download:", e);
+    }
   };
 
   return (
@@ -54,6 +59,24 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ loading, error, ap
               <div className="relative w-full aspect-square bg-black rounded-lg overflow-hidden">
                 <img src={apiResult.imageUrl} alt="Generated result" className="w-full h-full object-contain" />
               </div>
+              {apiResult.variants.length > 1 && (
+                <div className="w-full">
+                  <p className="text-xs text-gray-400 mb-2">{t('variantPickerLabel')}</p>
+                  <div className="grid grid-cols-4 gap-2">
+                    {apiResult.variants.map((variantUrl, index) => (
+                      <button
+                        key={index}
+                        onClick={() => onSelectVariant(variantUrl)}
+                        className={`relative aspect-square bg-black rounded-md overflow-hidden border-2 transition-colors ${variantUrl === apiResult.imageUrl ? 'border-purple-500' : 'border-transparent hover:border-gray-500'}`}
+                        aria-label={`${t('variantLabel')} ${index + 1}`}
+                      >
+                        <img src={variantUrl} alt={`${t('variantLabel')} ${index + 1}`} className="w-full h-full object-cover" />
+                        <span className="absolute top-1 left-1 text-xs font-bold bg-gray-900/80 text-white px-1.5 rounded">{index + 1}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
               <div className="flex flex-wrap items-center justify-center gap-4">
                 <button
                     onClick={onEditResult}
@@ -79,6 +102,7 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ loading, error, ap
           )}
         </div>
       )}
+      {exportSource && <ExportDialog source={exportSource} baseName="ivan-ai-photo" metadata={RESULT_METADATA} onClose={() => setExportSource(null)} t={t} />}
     </div>
   );
 };
\ No newline at end of file
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import type { UploadedImage, TFunction } from '../types';
-import { CloseIcon, PlusIcon, EditIcon, LayoutIcon } from './Icons';
+import { CloseIcon, PlusIcon, EditIcon, LayoutIcon, StackIcon } from './Icons';
 
 interface ThumbnailManagerProps {
   images: UploadedImage[];
@@ -12,9 +12,13 @@ interface ThumbnailManagerProps {
   onReorder: (images: UploadedImage[]) => void;
   onEdit: (id: string) => void;
   onOpenLayoutEditor: () => void;
+  // Thumbnails ticked for batch processing
+  batchSelection: string[];
+  onToggleBatchSelection: (id: string) => void;
+  onOpenBatch: () => void;
 }
 
-export const ThumbnailManager: React.FC<ThumbnailManagerProps> = ({ images, selectedImageId, onSelect, onDelete, onAddImage, t, onReorder, onEdit, onOpenLayoutEditor }) => {
+export const ThumbnailManager: React.FC<ThumbnailManagerProps> = ({ images, selectedImageId, onSelect, onDelete, onAddImage, t, onReorder, onEdit, onOpenLayoutEditor, batchSelection, onToggleBatchSelection, onOpenBatch }) => {
   const [draggingId, setDraggingId] = useState<string | null>(null);
   const [dragOverId, setDragOverId] = useState<string | null>(null);
 
@@ -88,6 +92,16 @@ export const ThumbnailManager: React.FC<ThumbnailManagerProps> = ({ images, sele
       <div className="flex justify-between items-center mb-2">
         <h3 className="text-sm font-medium text-gray-400">{t('thumbnailsTitle')}</h3>
         <div className="flex items-center gap-2">
+            <button
+                onClick={onOpenBatch}
+                disabled={batchSelection.length === 0}
+                className="flex items-center gap-1.5 text-sm bg-green-600/80 text-white font-semibold py-1 px-3 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-label={t('batchButton')}
+                title={t('batchSelectHint')}
+            >
+                <StackIcon className="w-4 h-4" />
+                <span className="hidden sm:inline">{t('batchButton')}{batchSelection.length > 0 && ` (${batchSelection.length})`}</span>
+            </button>
             <button
                 onClick={onOpenLayoutEditor}
                 className="flex items-center gap-1.5 text-sm bg-blue-600/80 text-white font-semibold py-1 px-3 rounded-lg hover:bg-blue-700 transition-colors"
@@ -113,6 +127,7 @@ export const ThumbnailManager: React.FC<ThumbnailManagerProps> = ({ images, sele
             const isDragging = draggingId === image.id;
             const isDragOver = dragOverId === image.id;
             const isSelected = selectedImageId === image.id;
+            const isInBatch = batchSelection.includes(image.id);
 
             const borderClass = isDragOver
               ? 'border-purple-500 scale-110 ring-2 ring-purple-500 ring-offset-2 ring-offset-gray-900'
@@ -136,6 +151,15 @@ export const ThumbnailManager: React.FC<ThumbnailManagerProps> = ({ images, sele
                 <div className="absolute top-1 left-1 bg-purple-600 text-white text-sm font-extrabold rounded-full w-6 h-6 flex items-center justify-center pointer-events-none shadow-md">
                   {index + 1}
                 </div>
+                <input
+                  type="checkbox"
+                  checked={isInBatch}
+                  onClick={e => e.stopPropagation()}
+                  onChange={() => onToggleBatchSelection(image.id)}
+                  className={`absolute bottom-1 left-1 w-4 h-4 accent-green-500 transition-opacity ${isInBatch || batchSelection.length > 0 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+                  title={t('batchSelectHint')}
+                  aria-label={`${t('batchSelectHint')} ${image.file.name}`}
+                />
                 <div className="absolute top-1 right-1 flex flex-col gap-1">
                   <button
                     onClick={(e) => handleDelete(e, image.id)}
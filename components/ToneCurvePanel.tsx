@@ -0,0 +1,179 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { CurveChannel, CurvePoint, Levels, StringTranslationKeys, TFunction, ToneCurve } from '../types';
+import { CURVE_CHANNELS, IDENTITY_CURVE, INITIAL_LEVELS, INITIAL_TONE_CURVE, buildCurveTable, isIdentityCurve } from '../lib/toneCurve';
+
+interface ToneCurvePanelProps {
+    toneCurve: ToneCurve;
+    levels: Levels;
+    onChange: (patch: { toneCurve?: ToneCurve; levels?: Levels }) => void;
+    t: TFunction;
+}
+
+const CHANNEL_LABELS: Record<CurveChannel, StringTranslationKeys> = {
+    rgb: 'curveChannelRgb',
+    red: 'curveChannelRed',
+    green: 'curveChannelGreen',
+    blue: 'curveChannelBlue',
+};
+
+const CHANNEL_COLORS: Record<CurveChannel, string> = {
+    rgb: '#e5e7eb',
+    red: '#f87171',
+    green: '#4ade80',
+    blue: '#60a5fa',
+};
+
+// Curve coordinates run 0..255 with y up; the SVG is drawn in the same units
+const VIEW_SIZE = 255;
+const POINT_HIT_RADIUS = 10;
+const MAX_POINTS = 16;
+
+const LevelsSlider: React.FC<{ label: string; value: number; min: number; max: number; step?: number; resetValue: number; onChange: (value: number) => void }> =
+    ({ label, value, min, max, step = 1, resetValue, onChange }) => (
+        <div>
+            <div className="flex justify-between items-center mb-1">
+                <label onDoubleClick={() => onChange(resetValue)} title="Double-click to reset" className="text-sm text-gray-300 cursor-pointer">{label}</label>
+                <span onDoubleClick={() => onChange(resetValue)} title="Double-click to reset" className="text-xs text-gray-400 font-mono bg-gray-700 px-2 py-0.5 rounded cursor-pointer">{value}</span>
+            </div>
+            <input
+                type="range" min={min} max={max} step={step} value={value}
+                onChange={e => onChange(Number(e.target.value))}
+                className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-purple-500"
+            />
+        </div>
+    );
+
+export const ToneCurvePanel: React.FC<ToneCurvePanelProps> = ({ toneCurve, levels, onChange, t }) => {
+    const [channel, setChannel] = useState<CurveChannel>('rgb');
+    const svgRef = useRef<SVGSVGElement>(null);
+    const dragIndexRef = useRef<number | null>(null);
+
+    const points = toneCurve[channel];
+
+    const path = useMemo(() => {
+        const table = buildCurveTable(points);
+        return Array.from(table, (y, x) => `${x === 0 ? 'M' : 'L'}${x},${VIEW_SIZE - y}`).join(' ');
+    }, [points]);
+
+    const toCurvePoint = (e: React.PointerEvent): CurvePoint => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        const x = ((e.clientX - rect.left) / rect.width) * VIEW_SIZE;
+        const y = VIEW_SIZE - ((e.clientY - rect.top) / rect.height) * VIEW_SIZE;
+        return { x: Math.round(Math.max(0, Math.min(VIEW_SIZE, x))), y: Math.round(Math.max(0, Math.min(VIEW_SIZE, y))) };
+    };
+
+    const setPoints = (next: CurvePoint[]) => onChange({ toneCurve: { ...toneCurve, [channel]: next } });
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        const target = toCurvePoint(e);
+        const scale = VIEW_SIZE / svgRef.current!.getBoundingClientRect().width;
+        let index = points.findIndex(p => Math.hypot(p.x - target.x, p.y - target.y) <= POINT_HIT_RADIUS * scale);
+        if (index === -1) {
+            if (points.length >= MAX_POINTS) return;
+            const next = [...points, target].sort((a, b) => a.x - b.x);
+            index = next.indexOf(target);
+            setPoints(next);
+        }
+        dragIndexRef.current = index;
+        svgRef.current!.setPointerCapture(e.pointerId);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const index = dragIndexRef.current;
+        if (index === null) return;
+        const target = toCurvePoint(e);
+        // End points only move vertically; the others stay between their neighbours
+        const isEnd = index === 0 || index === points.length - 1;
+        const minX = index === 0 ? 0 : points[index - 1].x + 1;
+        const maxX = index === points.length - 1 ? VIEW_SIZE : points[index + 1].x - 1;
+        const x = isEnd ? points[index].x : Math.max(minX, Math.min(maxX, target.x));
+        setPoints(points.map((p, i) => i === index ? { x, y: target.y } : p));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent) => {
+        dragIndexRef.current = null;
+        svgRef.current?.releasePointerCapture(e.pointerId);
+    };
+
+    const handleRemovePoint = (index: number) => {
+        if (index === 0 || index === points.length - 1) return;
+        setPoints(points.filter((_, i) => i !== index));
+    };
+
+    const updateLevels = (patch: Partial<Levels>) => {
+        const next = { ...levels, ...patch };
+        // Keep at least one step between the black and white points
+        if (patch.black !== undefined) next.black = Math.min(next.black, next.white - 1);
+        if (patch.white !== undefined) next.white = Math.max(next.white, next.black + 1);
+        onChange({ levels: next });
+    };
+
+    return (
+        <div className="p-3 bg-gray-900/50 rounded-lg space-y-3">
+            <div className="flex justify-between items-center">
+                <h4 className="font-semibold text-gray-400">{t('toneCurveLabel')}</h4>
+                <button
+                    onClick={() => onChange({ toneCurve: INITIAL_TONE_CURVE, levels: INITIAL_LEVELS })}
+                    className="text-xs text-purple-400 hover:text-purple-300 font-semibold"
+                >
+                    {t('resetButton')}
+                </button>
+            </div>
+            <div className="flex bg-gray-700 rounded-lg p-1">
+                {CURVE_CHANNELS.map(id => (
+                    <button
+                        key={id}
+                        onClick={() => setChannel(id)}
+                        className={`flex-1 py-1 text-sm rounded-md ${channel === id ? 'bg-purple-600 text-white' : 'text-gray-300'}`}
+                    >
+                        {t(CHANNEL_LABELS[id])}
+                    </button>
+                ))}
+            </div>
+            <svg
+                ref={svgRef}
+                data-drag-control
+                viewBox={`0 0 ${VIEW_SIZE} ${VIEW_SIZE}`}
+                className="w-full aspect-square bg-gray-800 rounded touch-none cursor-crosshair"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+            >
+                {[64, 128, 191].map(v => (
+                    <g key={v} stroke="#374151" strokeWidth={1}>
+                        <line x1={v} y1={0} x2={v} y2={VIEW_SIZE} />
+                        <line x1={0} y1={v} x2={VIEW_SIZE} y2={v} />
+                    </g>
+                ))}
+                <line x1={0} y1={VIEW_SIZE} x2={VIEW_SIZE} y2={0} stroke="#4b5563" strokeDasharray="4 4" />
+                <path d={path} fill="none" stroke={CHANNEL_COLORS[channel]} strokeWidth={2} />
+                {points.map((p, i) => (
+                    <circle
+                        key={i}
+                        cx={p.x}
+                        cy={VIEW_SIZE - p.y}
+                        r={5}
+                        fill="#111827"
+                        stroke={CHANNEL_COLORS[channel]}
+                        strokeWidth={2}
+                        onDoubleClick={() => handleRemovePoint(i)}
+                    />
+                ))}
+            </svg>
+            <p className="text-xs text-gray-500">{t('toneCurveHelp')}</p>
+            {channel !== 'rgb' && !isIdentityCurve(points) && (
+                <button onClick={() => setPoints(IDENTITY_CURVE)} className="text-xs text-gray-400 hover:text-gray-200">
+                    {t('curveResetChannel')}
+                </button>
+            )}
+
+            <div className="pt-2 border-t border-gray-700/50 space-y-3">
+                <h4 className="font-semibold text-gray-400">{t('levelsLabel')}</h4>
+                <LevelsSlider label={t('levelsBlackLabel')} value={levels.black} min={0} max={254} resetValue={0} onChange={v => updateLevels({ black: v })} />
+                <LevelsSlider label={t('levelsGammaLabel')} value={levels.gamma} min={0.1} max={5} step={0.01} resetValue={1} onChange={v => updateLevels({ gamma: v })} />
+                <LevelsSlider label={t('levelsWhiteLabel')} value={levels.white} min={1} max={255} resetValue={255} onChange={v => updateLevels({ white: v })} />
+            </div>
+        </div>
+    );
+};
@@ -1,5 +1,5 @@
 import React from 'react';
-import { BrushIcon, TrashIcon } from './Icons';
+import { BrushIcon, TrashIcon, EraserIcon, UndoIcon, RedoIcon } from './Icons';
 import type { TFunction } from '../types';
 
 interface ToolbarProps {
@@ -9,6 +9,12 @@ interface ToolbarProps {
   t: TFunction;
   brushColor: string;
   onBrushColorChange: (color: string) => void;
+  isErasing: boolean;
+  onEraserToggle: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 const COLORS = [
@@ -20,7 +26,7 @@ const COLORS = [
   '#000000', // black
 ];
 
-export const Toolbar: React.FC<ToolbarProps> = ({ brushSize, onBrushSizeChange, onClear, t, brushColor, onBrushColorChange }) => {
+export const Toolbar: React.FC<ToolbarProps> = ({ brushSize, onBrushSizeChange, onClear, t, brushColor, onBrushColorChange, isErasing, onEraserToggle, onUndo, onRedo, canUndo, canRedo }) => {
   return (
     <div className="bg-gray-700/50 p-4 rounded-lg flex flex-col sm:flex-row items-center justify-between gap-4">
       <div className="flex items-center gap-3 flex-grow w-full">
@@ -43,11 +49,27 @@ export const Toolbar: React.FC<ToolbarProps> = ({ brushSize, onBrushSizeChange,
                 <button
                 key={color}
                 onClick={() => onBrushColorChange(color)}
-                className={`w-6 h-6 rounded-full border-2 border-gray-800 transition-transform transform hover:scale-110 ${brushColor === color ? 'ring-2 ring-offset-2 ring-offset-gray-700 ring-purple-500' : ''}`}
+                className={`w-6 h-6 rounded-full border-2 border-gray-800 transition-transform transform hover:scale-110 ${brushColor === color && !isErasing ? 'ring-2 ring-offset-2 ring-offset-gray-700 ring-purple-500' : ''}`}
                 style={{ backgroundColor: color }}
                 aria-label={`Select color ${color}`}
                 />
             ))}
+            <button
+              onClick={onEraserToggle}
+              className={`p-1.5 rounded-lg transition-colors ${isErasing ? 'bg-purple-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`}
+              title={t('eraseButton')}
+              aria-pressed={isErasing}
+            >
+              <EraserIcon className="w-4 h-4" />
+            </button>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={onUndo} disabled={!canUndo} className="p-2 rounded-lg bg-gray-600 text-gray-200 hover:bg-gray-500 disabled:opacity-40" title={`${t('undoButton')} (Ctrl+Z)`}>
+            <UndoIcon className="w-5 h-5" />
+          </button>
+          <button onClick={onRedo} disabled={!canRedo} className="p-2 rounded-lg bg-gray-600 text-gray-200 hover:bg-gray-500 disabled:opacity-40" title={`${t('redoButton')} (Ctrl+Shift+Z)`}>
+            <RedoIcon className="w-5 h-5" />
+          </button>
         </div>
         <button
           onClick={onClear}
@@ -0,0 +1,75 @@
+import { initializeApp } from 'firebase-admin/app';
+import { FieldValue, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+
+// Credits only ever go back into a user's balance from here or from an admin:
+// the Firestore rules let users take credits out of their own balance, never
+// add them.
+//
+// Users write their debits as 'pending' and cannot change that status; only
+// this function can, so each debit is refunded at most once. Past
+// REFUND_WINDOW_MS a pending debit counts as spent.
+
+initializeApp();
+
+// Longer than a queued job can take: four attempts of up to three minutes each
+// with backoff, plus time spent waiting in the queue (services/jobQueue.ts)
+const REFUND_WINDOW_MS = 30 * 60 * 1000;
+
+interface RefundRequest {
+    requestId: string;
+    amount: number;
+}
+
+// Gives back (part of) the pending debit the caller made under `requestId` and
+// marks it refunded.
+export const refundCredits = onCall<RefundRequest>(async request => {
+    const uid = request.auth?.uid;
+    if (!uid) {
+        throw new HttpsError('unauthenticated', 'Sign in to request a refund');
+    }
+    const { requestId, amount } = request.data;
+    if (typeof requestId !== 'string' || !requestId || !Number.isFinite(amount) || amount <= 0) {
+        throw new HttpsError('invalid-argument', `Invalid refund: ${amount} for ${requestId}`);
+    }
+
+    const db = getFirestore();
+    const userRef = db.collection('users').doc(uid);
+    const entries = userRef.collection('transactions');
+
+    const balanceAfter = await db.runTransaction(async tx => {
+        const user = await tx.get(userRef);
+        if (!user.exists) {
+            throw new HttpsError('not-found', 'User not found');
+        }
+        if (user.data()?.suspended === true) {
+            throw new HttpsError('permission-denied', 'Suspended balances are frozen');
+        }
+        const debits = await tx.get(entries.where('requestId', '==', requestId).where('type', '==', 'debit'));
+        const debit = debits.docs.find(entry => entry.data().status === 'pending');
+        if (!debit) {
+            throw new HttpsError('failed-precondition', `No pending debit for ${requestId}`);
+        }
+        const { amount: debited, createdAt } = debit.data();
+        if (!(createdAt instanceof Timestamp) || Date.now() - createdAt.toMillis() > REFUND_WINDOW_MS) {
+            throw new HttpsError('failed-precondition', `The debit for ${requestId} can no longer be refunded`);
+        }
+        if (amount > debited) {
+            throw new HttpsError('failed-precondition', `Refund of ${amount} exceeds the debit for ${requestId}`);
+        }
+
+        const balance = (user.data()?.credits || 0) + amount;
+        tx.update(userRef, { credits: balance });
+        tx.update(debit.ref, { status: 'refunded' });
+        tx.create(entries.doc(), {
+            type: 'credit',
+            amount,
+            reason: 'refund',
+            requestId,
+            balanceAfter: balance,
+            createdAt: FieldValue.serverTimestamp()
+        });
+        return balance;
+    });
+    return { balanceAfter };
+});
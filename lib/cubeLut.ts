@@ -0,0 +1,98 @@
+import type { ColorLut } from '../types';
+
+// Reader and renderer for 3D LUTs in the Adobe/Resolve .cube format.
+
+// DOMAIN_MIN / DOMAIN_MAX take exactly one finite bound per channel
+const parseDomain = (values: string[]): number[] => {
+    const bounds = values.map(Number);
+    if (bounds.length !== 3 || bounds.some(v => !Number.isFinite(v))) throw new Error('INVALID_LUT_FILE');
+    return bounds;
+};
+
+// Throws 'INVALID_LUT_FILE' for 1D LUTs and anything that does not parse
+export const parseCubeLut = (text: string, fallbackName: string): ColorLut => {
+    let name = fallbackName;
+    let size = 0;
+    let domainMin = [0, 0, 0];
+    let domainMax = [1, 1, 1];
+    const values: number[] = [];
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) continue;
+
+        const [keyword, ...rest] = line.split(/\s+/);
+        if (keyword === 'TITLE') {
+            name = line.slice(keyword.length).trim().replace(/^"|"$/g, '') || name;
+        } else if (keyword === 'LUT_3D_SIZE') {
+            size = parseInt(rest[0], 10);
+        } else if (keyword === 'LUT_1D_SIZE') {
+            throw new Error('INVALID_LUT_FILE');
+        } else if (keyword === 'DOMAIN_MIN') {
+            domainMin = parseDomain(rest);
+        } else if (keyword === 'DOMAIN_MAX') {
+            domainMax = parseDomain(rest);
+        } else if (/^[-+.\d]/.test(keyword)) {
+            const triple = [keyword, ...rest].slice(0, 3).map(Number);
+            if (triple.length !== 3 || triple.some(v => !Number.isFinite(v))) throw new Error('INVALID_LUT_FILE');
+            values.push(...triple);
+        }
+        // Other keywords (LUT_3D_INPUT_RANGE, vendor extensions) are ignored
+    }
+
+    if (size < 2 || size > 256 || values.length !== size * size * size * 3) {
+        throw new Error('INVALID_LUT_FILE');
+    }
+    // An empty or reversed domain would scale every pixel to NaN or Infinity
+    if (domainMax.some((max, c) => max <= domainMin[c])) {
+        throw new Error('INVALID_LUT_FILE');
+    }
+    return { name, size, domainMin, domainMax, data: values };
+};
+
+const lutCache = new WeakMap<ColorLut, Float32Array>();
+
+// Data as a typed array, built once per LUT object
+const getLutTable = (lut: ColorLut) => {
+    let table = lutCache.get(lut);
+    if (!table) {
+        table = Float32Array.from(lut.data);
+        lutCache.set(lut, table);
+    }
+    return table;
+};
+
+// Maps every pixel through the LUT with trilinear interpolation, then mixes
+// the result with the original by `opacity` (0..1)
+export const applyColorLut = (imageData: ImageData, lut: ColorLut, opacity: number) => {
+    const { size, domainMin, domainMax } = lut;
+    const table = getLutTable(lut);
+    const data = imageData.data;
+    const max = size - 1;
+    const scale = [0, 1, 2].map(c => max / ((domainMax[c] - domainMin[c]) * 255));
+    const offset = [0, 1, 2].map(c => domainMin[c] * 255);
+    const strideG = size;
+    const strideB = size * size;
+
+    for (let i = 0; i < data.length; i += 4) {
+        const r = Math.min(max, Math.max(0, (data[i] - offset[0]) * scale[0]));
+        const g = Math.min(max, Math.max(0, (data[i + 1] - offset[1]) * scale[1]));
+        const b = Math.min(max, Math.max(0, (data[i + 2] - offset[2]) * scale[2]));
+        const r0 = Math.floor(r), g0 = Math.floor(g), b0 = Math.floor(b);
+        const dr = r0 < max ? 3 : 0, dg = g0 < max ? strideG * 3 : 0, db = b0 < max ? strideB * 3 : 0;
+        const fr = r - r0, fg = g - g0, fb = b - b0;
+        const base = (r0 + g0 * strideG + b0 * strideB) * 3;
+
+        for (let c = 0; c < 3; c++) {
+            const p000 = base + c;
+            const c00 = table[p000] + (table[p000 + dr] - table[p000]) * fr;
+            const c10 = table[p000 + dg] + (table[p000 + dg + dr] - table[p000 + dg]) * fr;
+            const c01 = table[p000 + db] + (table[p000 + db + dr] - table[p000 + db]) * fr;
+            const c11 = table[p000 + dg + db] + (table[p000 + dg + db + dr] - table[p000 + dg + db]) * fr;
+            const c0 = c00 + (c10 - c00) * fg;
+            const c1 = c01 + (c11 - c01) * fg;
+            const mapped = (c0 + (c1 - c0) * fb) * 255;
+            data[i + c] += (mapped - data[i + c]) * opacity;
+        }
+    }
+};
@@ -0,0 +1,70 @@
+import type { Histogram } from '../types';
+
+// Counts RGB and luminance levels of a block of pixels and marks the clipped
+// ones. Runs inside histogram.worker.ts, or on the main thread as a fallback.
+
+export interface ClippingOptions {
+    highlights: boolean;
+    shadows: boolean;
+}
+
+export interface AnalysisRequest {
+    id: number;
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+    clipping: ClippingOptions;
+}
+
+export interface AnalysisResponse {
+    id: number;
+    histogram: Histogram;
+    overlay: Uint8ClampedArray | null;
+}
+
+// Clipped highlights are painted red and crushed shadows blue
+const HIGHLIGHT_COLOR = [255, 0, 0];
+const SHADOW_COLOR = [0, 96, 255];
+
+export const computeAnalysis = ({ id, data, width, height, clipping }: AnalysisRequest): AnalysisResponse => {
+    const red = new Uint32Array(256);
+    const green = new Uint32Array(256);
+    const blue = new Uint32Array(256);
+    const luminance = new Uint32Array(256);
+    const overlay = clipping.highlights || clipping.shadows ? new Uint8ClampedArray(width * height * 4) : null;
+    let highlightCount = 0;
+    let shadowCount = 0;
+    let total = 0;
+
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] === 0) continue;
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        red[r]++;
+        green[g]++;
+        blue[b]++;
+        luminance[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++;
+        total++;
+
+        const isHighlightClipped = r === 255 || g === 255 || b === 255;
+        const isShadowClipped = r === 0 && g === 0 && b === 0;
+        if (isHighlightClipped) highlightCount++;
+        if (isShadowClipped) shadowCount++;
+
+        if (!overlay) continue;
+        const color = isHighlightClipped && clipping.highlights ? HIGHLIGHT_COLOR
+            : isShadowClipped && clipping.shadows ? SHADOW_COLOR : null;
+        if (color) {
+            overlay[i] = color[0];
+            overlay[i + 1] = color[1];
+            overlay[i + 2] = color[2];
+            overlay[i + 3] = 255;
+        }
+    }
+
+    const histogram: Histogram = {
+        red, green, blue, luminance,
+        highlightClipped: total ? highlightCount / total : 0,
+        shadowClipped: total ? shadowCount / total : 0,
+    };
+    return { id, histogram, overlay };
+};
@@ -0,0 +1,8 @@
+import { computeAnalysis, type AnalysisRequest } from './histogram';
+
+self.addEventListener('message', (e: MessageEvent<AnalysisRequest>) => {
+    const response = computeAnalysis(e.data);
+    const transfer: Transferable[] = [response.histogram.red.buffer, response.histogram.green.buffer, response.histogram.blue.buffer, response.histogram.luminance.buffer];
+    if (response.overlay) transfer.push(response.overlay.buffer);
+    self.postMessage(response, { transfer });
+});
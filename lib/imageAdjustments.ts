@@ -0,0 +1,439 @@
+import type { Adjustments, ColorChannelId, ColorLut, ColorMixerAdjustments } from '../types';
+import { applyColorLut } from './cubeLut';
+import { INITIAL_LEVELS, INITIAL_TONE_CURVE, applyToneCurve, isToneAdjusted, normalizeLevels, normalizeToneCurve, scaleLevels, scaleToneCurve } from './toneCurve';
+
+// PhotoEditor's global adjustment pipeline, shared with batch processing so a
+// preset renders the same way inside and outside the editor. It only touches
+// the context it is given, so it runs unchanged in the render worker.
+
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export const INITIAL_COLOR_MIXER: ColorMixerAdjustments = {
+    reds: { h: 0, s: 0, l: 0 },
+    oranges: { h: 0, s: 0, l: 0 },
+    yellows: { h: 0, s: 0, l: 0 },
+    greens: { h: 0, s: 0, l: 0 },
+    aquas: { h: 0, s: 0, l: 0 },
+    blues: { h: 0, s: 0, l: 0 },
+    purples: { h: 0, s: 0, l: 0 },
+    magentas: { h: 0, s: 0, l: 0 },
+};
+
+export const INITIAL_ADJUSTMENTS: Adjustments = {
+    enhance: 0,
+    accent: 0,
+    brightness: 0,
+    exposure: 0,
+    contrast: 0,
+    highlights: 0,
+    shadows: 0,
+    vignette: 0,
+    saturate: 0,
+    vibrance: 0,
+    temperature: 0,
+    tint: 0,
+    clarity: 0,
+    dehaze: 0,
+    blur: 0,
+    colorMixer: INITIAL_COLOR_MIXER,
+    toneCurve: INITIAL_TONE_CURVE,
+    levels: INITIAL_LEVELS,
+};
+
+type SliderKey = Exclude<keyof Adjustments, 'colorMixer' | 'toneCurve' | 'levels' | 'lut'>;
+
+const SLIDER_KEYS = (Object.keys(INITIAL_ADJUSTMENTS) as (keyof Adjustments)[])
+    .filter((key): key is SliderKey => typeof INITIAL_ADJUSTMENTS[key] === 'number');
+
+const isColorMixerActive = (colorMixer: ColorMixerAdjustments) =>
+    Object.values(colorMixer).some(c => c.h !== 0 || c.s !== 0 || c.l !== 0);
+
+// True when `adjustments` would leave an image untouched
+export const isNeutralAdjustments = (adjustments: Adjustments) =>
+    SLIDER_KEYS.every(key => adjustments[key] === 0) &&
+    !isColorMixerActive(adjustments.colorMixer) &&
+    !isToneAdjusted(adjustments.toneCurve, adjustments.levels) &&
+    !(adjustments.lut && adjustments.lut.opacity > 0);
+
+// Fills in anything missing or malformed from INITIAL_ADJUSTMENTS, so presets
+// saved by older versions or edited by hand still render
+export const normalizeAdjustments = (value: unknown): Adjustments => {
+    const source = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    const mixer = (source.colorMixer && typeof source.colorMixer === 'object' ? source.colorMixer : {}) as Record<string, unknown>;
+    const result = { ...INITIAL_ADJUSTMENTS, colorMixer: { ...INITIAL_COLOR_MIXER } };
+    for (const key of SLIDER_KEYS) {
+        if (typeof source[key] === 'number' && Number.isFinite(source[key])) {
+            result[key] = source[key] as number;
+        }
+    }
+    for (const channel of Object.keys(INITIAL_COLOR_MIXER) as ColorChannelId[]) {
+        const values = (mixer[channel] ?? {}) as Record<string, unknown>;
+        result.colorMixer[channel] = {
+            h: typeof values.h === 'number' ? values.h : 0,
+            s: typeof values.s === 'number' ? values.s : 0,
+            l: typeof values.l === 'number' ? values.l : 0,
+        };
+    }
+    result.toneCurve = normalizeToneCurve(source.toneCurve);
+    result.levels = normalizeLevels(source.levels);
+    const lut = source.lut as { table?: Partial<ColorLut>; opacity?: unknown } | null | undefined;
+    const table = lut?.table;
+    if (table && typeof table.size === 'number' && Array.isArray(table.data) && table.data.length === table.size ** 3 * 3) {
+        result.lut = {
+            table: {
+                name: String(table.name ?? ''),
+                size: table.size,
+                domainMin: Array.isArray(table.domainMin) ? table.domainMin : [0, 0, 0],
+                domainMax: Array.isArray(table.domainMax) ? table.domainMax : [1, 1, 1],
+                data: table.data,
+            },
+            opacity: typeof lut.opacity === 'number' ? Math.max(0, Math.min(100, lut.opacity)) : 100,
+        };
+    }
+    return result;
+};
+
+const scaleValue = (value: number, amount: number) => Math.round(value * amount * 10) / 10;
+
+// Blends from neutral (amount 0) to the full adjustments (amount 1). Sliders
+// are neutral at 0, so they are scaled; curves and levels ease towards identity.
+export const scaleAdjustments = (adjustments: Adjustments, amount: number): Adjustments => {
+    const result = {
+        ...adjustments,
+        colorMixer: { ...adjustments.colorMixer },
+        toneCurve: scaleToneCurve(adjustments.toneCurve, amount),
+        levels: scaleLevels(adjustments.levels, amount),
+    };
+    for (const key of SLIDER_KEYS) {
+        result[key] = scaleValue(adjustments[key], amount);
+    }
+    for (const channel of Object.keys(INITIAL_COLOR_MIXER) as ColorChannelId[]) {
+        const { h, s, l } = adjustments.colorMixer[channel];
+        result.colorMixer[channel] = { h: scaleValue(h, amount), s: scaleValue(s, amount), l: scaleValue(l, amount) };
+    }
+    if (adjustments.lut) {
+        result.lut = { ...adjustments.lut, opacity: scaleValue(adjustments.lut.opacity, amount) };
+    }
+    return result;
+};
+
+function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+    r /= 255; g /= 255; b /= 255;
+    const max = Math.max(r, g, b), min = Math.min(r, g, b);
+    let h = 0, s = 0, l = (max + min) / 2;
+
+    if (max !== min) {
+        const d = max - min;
+        s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+        switch (max) {
+            case r: h = (g - b) / d + (g < b ? 6 : 0); break;
+            case g: h = (b - r) / d + 2; break;
+            case b: h = (r - g) / d + 4; break;
+        }
+        h /= 6;
+    }
+    return [h * 360, s, l];
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+    let r: number, g: number, b: number;
+    
+    if (s === 0) {
+        r = g = b = l;
+    } else {
+        const hue2rgb = (p: number, q: number, t: number) => {
+            if (t < 0) t += 1;
+            if (t > 1) t -= 1;
+            if (t < 1/6) return p + (q - p) * 6 * t;
+            if (t < 1/2) return q;
+            if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
+            return p;
+        };
+        const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+        const p = 2 * l - q;
+        h /= 360;
+        r = hue2rgb(p, q, h + 1/3);
+        g = hue2rgb(p, q, h);
+        b = hue2rgb(p, q, h - 1/3);
+    }
+    return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
+}
+
+const COLOR_RANGES: Record<ColorChannelId, { center: number, range: number }> = {
+    reds: { center: 0, range: 60 },
+    oranges: { center: 30, range: 30 },
+    yellows: { center: 60, range: 30 },
+    greens: { center: 120, range: 90 },
+    aquas: { center: 180, range: 30 },
+    blues: { center: 225, range: 90 },
+    purples: { center: 285, range: 30 },
+    magentas: { center: 330, range: 60 }
+};
+
+// sRGB to linear light, for the sharpen step below
+const LINEAR_TABLE = Float32Array.from({ length: 256 }, (_, v) => {
+    const c = v / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+});
+
+const toSrgb = (linear: number) => {
+    const c = Math.max(0, Math.min(1, linear));
+    return (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055) * 255;
+};
+
+// Gaussian weights for a standard deviation of 0.8px
+const SHARPEN_KERNEL = [0.022, 0.2297, 0.4966, 0.2297, 0.022];
+
+// The clarity sharpening step, also used by the light brush's sharpen mode.
+// Same arithmetic as the SVG filter it replaced (feGaussianBlur 0.8 then
+// feComposite k1=2.5 k2=-1.5 in linear light), but without needing a DOM to
+// reference the filter from.
+export const applySharpen = (imageData: ImageData) => {
+    const { data, width, height } = imageData;
+    const rowLength = width * 3;
+    // Horizontally blurred rows y-2..y+2 in linear light, stored by row index
+    // mod 5. Each row is blurred before row y overwrites it, so the vertical
+    // pass needs no full-size copy of the image.
+    const rows = new Float32Array(rowLength * 5);
+    const linearRow = new Float32Array(rowLength);
+    const clampRow = (y: number) => Math.max(0, Math.min(height - 1, y));
+
+    const blurRow = (y: number) => {
+        for (let x = 0, i = y * width * 4; x < width; x++, i += 4) {
+            linearRow[x * 3] = LINEAR_TABLE[data[i]];
+            linearRow[x * 3 + 1] = LINEAR_TABLE[data[i + 1]];
+            linearRow[x * 3 + 2] = LINEAR_TABLE[data[i + 2]];
+        }
+        const out = (y % 5) * rowLength;
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0;
+            for (let k = -2; k <= 2; k++) {
+                const o = Math.max(0, Math.min(width - 1, x + k)) * 3;
+                const w = SHARPEN_KERNEL[k + 2];
+                r += linearRow[o] * w;
+                g += linearRow[o + 1] * w;
+                b += linearRow[o + 2] * w;
+            }
+            rows[out + x * 3] = r;
+            rows[out + x * 3 + 1] = g;
+            rows[out + x * 3 + 2] = b;
+        }
+    };
+
+    let lastBlurredRow = -1;
+    for (let y = 0; y < height; y++) {
+        while (lastBlurredRow < Math.min(height - 1, y + 2)) blurRow(++lastBlurredRow);
+        for (let x = 0, i = y * width * 4; x < width; x++, i += 4) {
+            for (let c = 0; c < 3; c++) {
+                let blurred = 0;
+                for (let k = -2; k <= 2; k++) {
+                    blurred += rows[(clampRow(y + k) % 5) * rowLength + x * 3 + c] * SHARPEN_KERNEL[k + 2];
+                }
+                const s = LINEAR_TABLE[data[i + c]];
+                data[i + c] = toSrgb(2.5 * s * blurred - 1.5 * s);
+            }
+        }
+    }
+};
+
+const applyVibrance = (imageData: ImageData, vibrance: number) => {
+    const data = imageData.data;
+    const amount = vibrance / 50;
+
+    for (let i = 0; i < data.length; i += 4) {
+        const r = data[i];
+        const g = data[i + 1];
+        const b = data[i + 2];
+
+        const [h, s, l] = rgbToHsl(r, g, b);
+
+        if (s < 0.05) continue;
+
+        let skinProtect = 1.0;
+        if (h > 15 && h < 45) {
+            const distFromSkinCenter = Math.abs(h - 30);
+            skinProtect = Math.min(1.0, (distFromSkinCenter / 15.0) * 0.7 + 0.3);
+        }
+
+        const saturationBoost = amount * (1 - Math.pow(s, 2)) * skinProtect;
+        const newS = Math.max(0, Math.min(1, s + saturationBoost));
+        
+        if (newS !== s) {
+            const [newR, newG, newB] = hslToRgb(h, newS, l);
+            data[i] = newR;
+            data[i + 1] = newG;
+            data[i + 2] = newB;
+        }
+    }
+};
+
+const applyColorMixer = (imageData: ImageData, colorMixer: ColorMixerAdjustments) => {
+    const data = imageData.data;
+
+    for (let i = 0; i < data.length; i += 4) {
+        const [h, s, l] = rgbToHsl(data[i], data[i+1], data[i+2]);
+        if (s < 0.01) continue;
+
+        let totalH = 0;
+        let totalS = 0;
+        let totalL = 0;
+
+        for (const key in COLOR_RANGES) {
+            const channel = key as ColorChannelId;
+            const { center, range } = COLOR_RANGES[channel];
+            
+            let dist = Math.abs(h - center);
+            if (dist > 180) {
+                 dist = 360 - dist;
+            }
+            
+            const influence = Math.max(0, 1 - (dist / (range / 2)));
+            if (influence > 0) {
+                totalH += colorMixer[channel].h * influence;
+                totalS += (colorMixer[channel].s / 100) * influence;
+                totalL += (colorMixer[channel].l / 100) * influence;
+            }
+        }
+        
+        const newH = (h + totalH + 360) % 360;
+        const newS = Math.max(0, Math.min(1, s + totalS));
+        const newL = Math.max(0, Math.min(1, l + totalL));
+
+        const [r, g, b] = hslToRgb(newH, newS, newL);
+        data[i] = r;
+        data[i+1] = g;
+        data[i+2] = b;
+    }
+};
+
+// Renders `source` with the global adjustments into ctx, which must already be sized to it
+export const applyAdjustmentsToContext = (ctx: RenderContext, adjustments: Adjustments, source: CanvasImageSource) => {
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+    const { enhance, accent, brightness, exposure, contrast, clarity, saturate, highlights, shadows, vignette, temperature, tint, blur, colorMixer, dehaze } = adjustments;
+    const enhanceRatio = enhance / 100;
+    const accentRatio = accent / 100;
+    
+    let baseShadows = shadows;
+    let baseHighlights = highlights;
+
+    baseShadows += accentRatio * 50;
+    baseHighlights -= accentRatio * 40;
+
+    const effectiveShadows = Math.max(-100, Math.min(100, baseShadows + enhanceRatio * 40));
+    const effectiveHighlights = Math.max(-100, Math.min(100, baseHighlights + enhanceRatio * -30));
+    
+    const effectiveContrast = Math.max(-100, Math.min(100, contrast + enhanceRatio * 15 + (dehaze ?? 0) * 0.3));
+    const effectiveSaturate = Math.max(-100, Math.min(100, saturate + enhanceRatio * 10 + (dehaze ?? 0) * 0.15));
+    const effectiveClarity = Math.max(0, Math.min(10, clarity + enhanceRatio * 2));
+
+    const filterList = [
+        `brightness(${100 + brightness + exposure - ((dehaze ?? 0) * 0.1)}%)`,
+        `contrast(${100 + effectiveContrast + (effectiveClarity * 2.5)}%)`,
+        `saturate(${100 + effectiveSaturate}%)`,
+    ];
+    if (blur > 0) {
+        filterList.push(`blur(${blur}px)`);
+    }
+    ctx.filter = filterList.join(' ');
+    
+    ctx.drawImage(source, 0, 0);
+    ctx.filter = 'none';
+
+    const isVibranceActive = adjustments.vibrance !== 0;
+    const isMixerActive = isColorMixerActive(colorMixer);
+    const isToneActive = isToneAdjusted(adjustments.toneCurve, adjustments.levels);
+    const lut = adjustments.lut && adjustments.lut.opacity > 0 ? adjustments.lut : null;
+    const isSharpenActive = effectiveClarity > 5;
+
+    if (isSharpenActive || isToneActive || isVibranceActive || isMixerActive || lut) {
+        const imageData = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+        if (isSharpenActive) {
+            applySharpen(imageData);
+        }
+        if (isToneActive) {
+            applyToneCurve(imageData, adjustments.toneCurve, adjustments.levels);
+        }
+        if (isVibranceActive) {
+            applyVibrance(imageData, adjustments.vibrance);
+        }
+        if (isMixerActive) {
+            applyColorMixer(imageData, colorMixer);
+        }
+        if (lut) {
+            applyColorLut(imageData, lut.table, lut.opacity / 100);
+        }
+        ctx.putImageData(imageData, 0, 0);
+    }
+
+    if (temperature !== 0) {
+        ctx.globalCompositeOperation = 'overlay';
+        if (temperature > 0) {
+            ctx.fillStyle = `rgba(255, 165, 0, ${temperature / 250})`;
+        } else {
+            ctx.fillStyle = `rgba(0, 100, 255, ${-temperature / 250})`;
+        }
+        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    }
+    if (tint !== 0) {
+        ctx.globalCompositeOperation = 'overlay';
+        if (tint > 0) {
+            ctx.fillStyle = `rgba(255, 0, 255, ${tint / 250})`;
+        } else {
+            ctx.fillStyle = `rgba(0, 255, 0, ${-tint / 250})`;
+        }
+        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    }
+
+    if (effectiveHighlights !== 0) {
+        ctx.globalCompositeOperation = 'soft-light';
+        const alpha = Math.abs(effectiveHighlights) / 100;
+        ctx.fillStyle = effectiveHighlights > 0 ? `rgba(255,255,255,${alpha})` : `rgba(0,0,0,${alpha})`;
+        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    }
+    if (effectiveShadows !== 0) {
+        ctx.globalCompositeOperation = 'soft-light';
+        const alpha = Math.pow(Math.abs(effectiveShadows) / 100, 1.5); 
+        ctx.fillStyle = effectiveShadows > 0 ? `rgba(255,255,255,${alpha})` : `rgba(0,0,0,${alpha})`;
+        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    }
+    
+    ctx.globalCompositeOperation = 'source-over';
+
+    if (vignette > 0) {
+        const outerRadius = Math.sqrt(Math.pow(ctx.canvas.width / 2, 2) + Math.pow(ctx.canvas.height / 2, 2));
+        const gradient = ctx.createRadialGradient(
+            ctx.canvas.width / 2, ctx.canvas.height / 2, outerRadius * (1 - vignette / 100),
+            ctx.canvas.width / 2, ctx.canvas.height / 2, outerRadius
+        );
+        gradient.addColorStop(0, 'rgba(0,0,0,0)');
+        gradient.addColorStop(1, `rgba(0,0,0,${vignette / 100 * 0.8})`);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    }
+};
+
+// `maxSize` caps the long edge, e.g. for preset thumbnails
+export const renderAdjustedImage = (src: string, adjustments: Adjustments, maxSize?: number): Promise<HTMLCanvasElement> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const scale = maxSize ? Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight)) : 1;
+            let source: HTMLImageElement | HTMLCanvasElement = img;
+            if (scale < 1) {
+                source = document.createElement('canvas');
+                source.width = Math.max(1, Math.round(img.naturalWidth * scale));
+                source.height = Math.max(1, Math.round(img.naturalHeight * scale));
+                source.getContext('2d')?.drawImage(img, 0, 0, source.width, source.height);
+            }
+            const canvas = document.createElement('canvas');
+            canvas.width = source.width;
+            canvas.height = source.height;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error("Could not get canvas context"));
+            applyAdjustmentsToContext(ctx, adjustments, source);
+            resolve(canvas);
+        };
+        img.onerror = reject;
+        img.src = src;
+    });
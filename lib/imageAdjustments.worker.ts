@@ -0,0 +1,100 @@
+import type { Adjustments, ColorLut } from '../types';
+import { applyAdjustmentsToContext } from './imageAdjustments';
+
+// Runs the adjustment pipeline on OffscreenCanvas. The editor sends the
+// photo once as an ImageBitmap, then asks for renders of it at full size or
+// scaled down to a proxy while a slider is being dragged. LUTs are sent once
+// too, and renders refer to them by id.
+
+export type RenderWorkerRequest =
+    | { type: 'source'; sourceId: number; bitmap: ImageBitmap }
+    | { type: 'release'; sourceId: number }
+    | { type: 'lut'; lutId: number; lut: ColorLut }
+    | { type: 'releaseLut'; lutId: number }
+    | {
+        type: 'render';
+        id: number;
+        sourceId: number;
+        adjustments: Omit<Adjustments, 'lut'>;
+        lut: { lutId: number; opacity: number } | null;
+        maxSize?: number;
+    };
+
+export type RenderWorkerResponse =
+    | { id: number; bitmap: ImageBitmap }
+    | { id: number; error: string };
+
+interface WorkerSource {
+    bitmap: ImageBitmap;
+    // Scaled copies, keyed by their long side
+    proxies: Map<number, OffscreenCanvas>;
+}
+
+const sources = new Map<number, WorkerSource>();
+// Kept as the same objects between renders so cubeLut's table cache hits
+const luts = new Map<number, ColorLut>();
+
+const getScaledSource = (source: WorkerSource, maxSize: number | undefined): { image: CanvasImageSource; width: number; height: number; scale: number } => {
+    const { bitmap } = source;
+    const scale = maxSize ? Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height)) : 1;
+    if (scale === 1) return { image: bitmap, width: bitmap.width, height: bitmap.height, scale };
+
+    let proxy = source.proxies.get(maxSize!);
+    if (!proxy) {
+        proxy = new OffscreenCanvas(Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)));
+        proxy.getContext('2d')?.drawImage(bitmap, 0, 0, proxy.width, proxy.height);
+        source.proxies.set(maxSize!, proxy);
+    }
+    return { image: proxy, width: proxy.width, height: proxy.height, scale };
+};
+
+const post = (response: RenderWorkerResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+
+self.addEventListener('message', (e: MessageEvent<RenderWorkerRequest>) => {
+    const request = e.data;
+    if (request.type === 'source') {
+        sources.set(request.sourceId, { bitmap: request.bitmap, proxies: new Map() });
+        return;
+    }
+    if (request.type === 'release') {
+        sources.get(request.sourceId)?.bitmap.close();
+        sources.delete(request.sourceId);
+        return;
+    }
+    if (request.type === 'lut') {
+        luts.set(request.lutId, request.lut);
+        return;
+    }
+    if (request.type === 'releaseLut') {
+        luts.delete(request.lutId);
+        return;
+    }
+
+    const source = sources.get(request.sourceId);
+    if (!source) {
+        post({ id: request.id, error: 'UNKNOWN_SOURCE' });
+        return;
+    }
+    const lut = request.lut && luts.get(request.lut.lutId);
+    if (request.lut && !lut) {
+        post({ id: request.id, error: 'UNKNOWN_LUT' });
+        return;
+    }
+    try {
+        const { image, width, height, scale } = getScaledSource(source, request.maxSize);
+        const canvas = new OffscreenCanvas(width, height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Could not get canvas context");
+        // Blur is in pixels, so a proxy needs less of it to look the same
+        const adjustments: Adjustments = {
+            ...request.adjustments,
+            blur: request.adjustments.blur * scale,
+            lut: lut && request.lut ? { table: lut, opacity: request.lut.opacity } : null,
+        };
+        applyAdjustmentsToContext(ctx, adjustments, image);
+        const bitmap = canvas.transferToImageBitmap();
+        post({ id: request.id, bitmap }, [bitmap]);
+    } catch (error) {
+        post({ id: request.id, error: error instanceof Error ? error.message : String(error) });
+    }
+});
@@ -0,0 +1,112 @@
+import type { Adjustments, ColorChannelId, CurveChannel, CurvePoint } from '../types';
+import { INITIAL_ADJUSTMENTS, INITIAL_COLOR_MIXER } from './imageAdjustments';
+import { INITIAL_TONE_CURVE } from './toneCurve';
+
+// Maps Lightroom / Camera Raw develop settings (the crs: namespace of an .xmp
+// preset) onto our sliders. Our filter chain is not Camera Raw, so the scale
+// factors aim for a similar look rather than identical numbers.
+
+const CRS_NAMESPACE = 'http://ns.adobe.com/camera-raw-settings/1.0/';
+
+// Camera Raw's neutral white balance for presets that store absolute Kelvin
+const NEUTRAL_TEMPERATURE_K = 5500;
+
+const MIXER_CHANNELS: Record<ColorChannelId, string> = {
+    reds: 'Red',
+    oranges: 'Orange',
+    yellows: 'Yellow',
+    greens: 'Green',
+    aquas: 'Aqua',
+    blues: 'Blue',
+    purples: 'Purple',
+    magentas: 'Magenta',
+};
+
+const CURVE_ELEMENTS: Record<CurveChannel, string> = {
+    rgb: 'ToneCurvePV2012',
+    red: 'ToneCurvePV2012Red',
+    green: 'ToneCurvePV2012Green',
+    blue: 'ToneCurvePV2012Blue',
+};
+
+const clamp = (value: number, min: number, max: number) => Math.round(Math.max(min, Math.min(max, value)));
+
+// Settings appear either as attributes of rdf:Description or as child elements
+const readCrsSettings = (doc: Document): Map<string, string> => {
+    const settings = new Map<string, string>();
+    for (const element of Array.from(doc.getElementsByTagName('*'))) {
+        for (const attr of Array.from(element.attributes)) {
+            if (attr.namespaceURI === CRS_NAMESPACE) settings.set(attr.localName, attr.value);
+        }
+        if (element.namespaceURI === CRS_NAMESPACE && !settings.has(element.localName)) {
+            settings.set(element.localName, element.textContent?.trim() ?? '');
+        }
+    }
+    return settings;
+};
+
+// Point curves are rdf:Seq lists of "x, y" items, both 0..255
+const readCrsCurve = (doc: Document, localName: string): CurvePoint[] | null => {
+    const element = doc.getElementsByTagNameNS(CRS_NAMESPACE, localName)[0];
+    if (!element) return null;
+    const points = Array.from(element.getElementsByTagName('*'))
+        .filter(item => item.localName === 'li')
+        .map(item => (item.textContent ?? '').split(',').map(Number))
+        .filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y))
+        .map(([x, y]) => ({ x: clamp(x, 0, 255), y: clamp(y, 0, 255) }));
+    return points.length >= 2 ? points : null;
+};
+
+// Throws 'INVALID_PRESET_FILE' when the file holds no develop settings
+export const parseLightroomXmp = (text: string, fallbackName: string): { name: string; adjustments: Adjustments } => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('INVALID_PRESET_FILE');
+    const settings = readCrsSettings(doc);
+    if (settings.size === 0) throw new Error('INVALID_PRESET_FILE');
+
+    const num = (key: string) => {
+        const value = parseFloat(settings.get(key) ?? '');
+        return Number.isFinite(value) ? value : 0;
+    };
+
+    const temperature = settings.has('IncrementalTemperature')
+        ? num('IncrementalTemperature')
+        : settings.has('Temperature') ? (num('Temperature') - NEUTRAL_TEMPERATURE_K) / 50 : 0;
+    const tint = settings.has('IncrementalTint') ? num('IncrementalTint') : num('Tint');
+
+    const adjustments: Adjustments = {
+        ...INITIAL_ADJUSTMENTS,
+        // One stop doubles the light; our exposure is a brightness percentage
+        exposure: clamp(num('Exposure2012') * 50, -100, 100),
+        contrast: clamp(num('Contrast2012') * 0.5, -100, 100),
+        highlights: clamp(num('Highlights2012') * 0.5 + num('Whites2012') * 0.25, -100, 100),
+        shadows: clamp(num('Shadows2012') * 0.5 + num('Blacks2012') * 0.25, -100, 100),
+        saturate: clamp(num('Saturation'), -100, 100),
+        vibrance: clamp(num('Vibrance') / 10, -10, 10),
+        temperature: clamp(temperature, -100, 100),
+        tint: clamp(tint * 0.66, -100, 100),
+        // Our clarity and dehaze only go one way
+        clarity: clamp(num('Clarity2012') / 10, 0, 10),
+        dehaze: clamp(num('Dehaze'), 0, 100),
+        // Lightroom darkens with negative amounts; our vignette only darkens
+        vignette: clamp(-num('PostCropVignetteAmount'), 0, 100),
+        colorMixer: { ...INITIAL_COLOR_MIXER },
+        toneCurve: { ...INITIAL_TONE_CURVE },
+    };
+
+    for (const [channel, localName] of Object.entries(CURVE_ELEMENTS) as [CurveChannel, string][]) {
+        const points = readCrsCurve(doc, localName);
+        if (points) adjustments.toneCurve[channel] = points;
+    }
+
+    for (const [channel, suffix] of Object.entries(MIXER_CHANNELS) as [ColorChannelId, string][]) {
+        adjustments.colorMixer[channel] = {
+            h: clamp(num(`HueAdjustment${suffix}`) * 0.3, -30, 30),
+            s: clamp(num(`SaturationAdjustment${suffix}`) * 0.3, -30, 30),
+            l: clamp(num(`LuminanceAdjustment${suffix}`) * 0.3, -30, 30),
+        };
+    }
+
+    const name = settings.get('Name') || settings.get('PresetName') || fallbackName;
+    return { name, adjustments };
+};
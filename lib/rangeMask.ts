@@ -0,0 +1,96 @@
+import type { MaskComponent, RangeColor } from '../types';
+
+// Colour-range and luminance-range masks: which pixels of the photo a 'color'
+// or 'luminance' mask component covers. Computed on a scaled-down copy of the
+// photo; the editor stretches the result over the layer's mask canvas, which
+// also smooths the steps between neighbouring pixels.
+
+// Colour distance a tolerance of 100 reaches
+const MAX_COLOR_DISTANCE = 160;
+// Colour distance a feather of 100 fades over beyond the tolerance
+const MAX_COLOR_FEATHER = 80;
+// Luminance (0-100) a feather of 100 fades over beyond each end of the range
+const MAX_LUMINANCE_FEATHER = 25;
+
+// Hue and saturation matter more than brightness when matching "the blues",
+// so the luma difference counts for half
+const colorDistance = (r: number, g: number, b: number, target: { y: number; cb: number; cr: number }) => {
+    const y = 0.299 * r + 0.587 * g + 0.114 * b;
+    const cb = -0.1687 * r - 0.3313 * g + 0.5 * b;
+    const cr = 0.5 * r - 0.4187 * g - 0.0813 * b;
+    const dy = (y - target.y) * 0.5;
+    return Math.sqrt(dy * dy + (cb - target.cb) ** 2 + (cr - target.cr) ** 2);
+};
+
+// 1 inside `limit`, fading linearly to 0 over `feather` beyond it
+const falloff = (distance: number, limit: number, feather: number) => {
+    if (distance <= limit) return 1;
+    if (feather <= 0 || distance >= limit + feather) return 0;
+    return 1 - (distance - limit) / feather;
+};
+
+const computeColorRange = (pixels: ImageData, range: NonNullable<MaskComponent['colorRange']>, alpha: Uint8ClampedArray) => {
+    if (!range.color) return;
+    const { r, g, b } = range.color;
+    const target = {
+        y: 0.299 * r + 0.587 * g + 0.114 * b,
+        cb: -0.1687 * r - 0.3313 * g + 0.5 * b,
+        cr: 0.5 * r - 0.4187 * g - 0.0813 * b,
+    };
+    const limit = range.tolerance / 100 * MAX_COLOR_DISTANCE;
+    const feather = range.feather / 100 * MAX_COLOR_FEATHER;
+    const data = pixels.data;
+    for (let p = 0; p < alpha.length; p++) {
+        const i = p * 4;
+        alpha[p] = 255 * falloff(colorDistance(data[i], data[i + 1], data[i + 2], target), limit, feather);
+    }
+};
+
+const computeLuminanceRange = (pixels: ImageData, range: NonNullable<MaskComponent['luminanceRange']>, alpha: Uint8ClampedArray) => {
+    const center = (range.min + range.max) / 2;
+    const halfWidth = (range.max - range.min) / 2;
+    const feather = range.feather / 100 * MAX_LUMINANCE_FEATHER;
+    const data = pixels.data;
+    for (let p = 0; p < alpha.length; p++) {
+        const i = p * 4;
+        const luminance = (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 2.55;
+        alpha[p] = 255 * falloff(Math.abs(luminance - center), halfWidth, feather);
+    }
+};
+
+// White with the range as alpha, the form mask layers draw with. Null for
+// components that aren't range masks.
+export const computeRangeMask = (pixels: ImageData, component: MaskComponent): ImageData | null => {
+    const alpha = new Uint8ClampedArray(pixels.width * pixels.height);
+    if (component.type === 'color' && component.colorRange) {
+        computeColorRange(pixels, component.colorRange, alpha);
+    } else if (component.type === 'luminance' && component.luminanceRange) {
+        computeLuminanceRange(pixels, component.luminanceRange, alpha);
+    } else {
+        return null;
+    }
+    const mask = new ImageData(pixels.width, pixels.height);
+    for (let p = 0; p < alpha.length; p++) {
+        const i = p * 4;
+        mask.data[i] = mask.data[i + 1] = mask.data[i + 2] = 255;
+        mask.data[i + 3] = alpha[p];
+    }
+    return mask;
+};
+
+// Average colour of the pixels within `radius` of (x, y), for the eyedropper
+export const sampleColor = (pixels: ImageData, x: number, y: number, radius = 2): RangeColor => {
+    const cx = Math.round(x), cy = Math.round(y);
+    let r = 0, g = 0, b = 0, count = 0;
+    for (let sy = Math.max(0, cy - radius); sy <= Math.min(pixels.height - 1, cy + radius); sy++) {
+        for (let sx = Math.max(0, cx - radius); sx <= Math.min(pixels.width - 1, cx + radius); sx++) {
+            const i = (sy * pixels.width + sx) * 4;
+            r += pixels.data[i];
+            g += pixels.data[i + 1];
+            b += pixels.data[i + 2];
+            count++;
+        }
+    }
+    if (count === 0) return { r: 0, g: 0, b: 0 };
+    return { r: Math.round(r / count), g: Math.round(g / count), b: Math.round(b / count) };
+};
@@ -0,0 +1,39 @@
+import type { TonalRange } from '../types';
+
+// Pixel work behind the light brush's dodge/burn and heal modes. Callers pass
+// only the region a stroke can reach; the stroke's feathered mask limits the
+// result afterwards.
+
+// How far a dodge (towards white) or burn (towards black) at full strength goes
+const MAX_DODGE_BURN = 0.6;
+
+// How strongly each tonal range responds at luminance 0-1
+const TONAL_WEIGHTS: Record<TonalRange, (luminance: number) => number> = {
+    shadows: l => (1 - l) * (1 - l),
+    midtones: l => 4 * l * (1 - l),
+    highlights: l => l * l,
+};
+
+// Lightens (dodge) or darkens (burn) the pixels in `range`; amount is 0-1
+export const applyDodgeBurn = (pixels: ImageData, isDodge: boolean, range: TonalRange, amount: number) => {
+    const weight = TONAL_WEIGHTS[range];
+    const data = pixels.data;
+    for (let i = 0; i < data.length; i += 4) {
+        const luminance = (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+        const k = amount * MAX_DODGE_BURN * weight(luminance);
+        for (let c = 0; c < 3; c++) {
+            data[i + c] = isDodge ? data[i + c] + (255 - data[i + c]) * k : data[i + c] * (1 - k);
+        }
+    }
+};
+
+// Healing keeps the cloned patch's texture but takes colour and tone from
+// where it lands: patch - blur(patch) + blur(destination). Writes into `patch`.
+export const blendHeal = (patch: ImageData, patchBlur: ImageData, destinationBlur: ImageData) => {
+    const data = patch.data;
+    for (let i = 0; i < data.length; i += 4) {
+        for (let c = 0; c < 3; c++) {
+            data[i + c] = data[i + c] - patchBlur.data[i + c] + destinationBlur.data[i + c];
+        }
+    }
+};
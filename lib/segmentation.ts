@@ -0,0 +1,167 @@
+import type { SegmentationTarget } from '../types';
+
+// Subject and sky selections for mask layers. Providers return a black and
+// white mask image; `createSelection` turns that into the alpha mask a layer
+// stores. `segmentLocally` is a rough on-device stand-in used by the offline
+// provider: a sky flood fill from the top edge, and a centre-weighted
+// "differs from the border colour" guess for the subject.
+
+// Sum of absolute channel differences two neighbouring sky pixels may have
+const SKY_NEIGHBOUR_TOLERANCE = 40;
+// Spread of the centre prior for the subject, as a fraction of the image
+const SUBJECT_CENTER_SPREAD = 0.35;
+
+const isSkyLike = (r: number, g: number, b: number) => {
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const isBlue = b >= r && b >= g * 0.9 && max > 90;
+    const isOvercast = max > 190 && (max - min) / max < 0.15;
+    return isBlue || isOvercast;
+};
+
+const segmentSky = (data: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+    const mask = new Uint8ClampedArray(width * height);
+    const queue: number[] = [];
+    for (let x = 0; x < width; x++) {
+        if (isSkyLike(data[x * 4], data[x * 4 + 1], data[x * 4 + 2])) {
+            mask[x] = 255;
+            queue.push(x);
+        }
+    }
+    for (let head = 0; head < queue.length; head++) {
+        const p = queue[head];
+        const x = p % width, y = (p - x) / width;
+        const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, y > 0 ? p - width : -1, y < height - 1 ? p + width : -1];
+        for (const n of neighbours) {
+            if (n < 0 || mask[n]) continue;
+            const i = n * 4, j = p * 4;
+            const r = data[i], g = data[i + 1], b = data[i + 2];
+            const difference = Math.abs(r - data[j]) + Math.abs(g - data[j + 1]) + Math.abs(b - data[j + 2]);
+            if (difference <= SKY_NEIGHBOUR_TOLERANCE && isSkyLike(r, g, b)) {
+                mask[n] = 255;
+                queue.push(n);
+            }
+        }
+    }
+    return mask;
+};
+
+// Threshold that best splits a 256-bin histogram into two classes
+const otsuThreshold = (histogram: Uint32Array, total: number) => {
+    let sum = 0;
+    for (let v = 0; v < 256; v++) sum += v * histogram[v];
+    let backgroundSum = 0, backgroundWeight = 0, best = 0, threshold = 128;
+    for (let v = 0; v < 256; v++) {
+        backgroundWeight += histogram[v];
+        if (backgroundWeight === 0) continue;
+        const foregroundWeight = total - backgroundWeight;
+        if (foregroundWeight === 0) break;
+        backgroundSum += v * histogram[v];
+        const meanDifference = backgroundSum / backgroundWeight - (sum - backgroundSum) / foregroundWeight;
+        const variance = backgroundWeight * foregroundWeight * meanDifference * meanDifference;
+        if (variance > best) {
+            best = variance;
+            threshold = v;
+        }
+    }
+    return threshold;
+};
+
+// Keeps only the largest 4-connected region of `mask`
+const keepLargestRegion = (mask: Uint8ClampedArray, width: number, height: number) => {
+    const labels = new Int32Array(mask.length);
+    let bestLabel = 0, bestSize = 0, label = 0;
+    for (let start = 0; start < mask.length; start++) {
+        if (!mask[start] || labels[start]) continue;
+        label++;
+        labels[start] = label;
+        const queue = [start];
+        for (let head = 0; head < queue.length; head++) {
+            const p = queue[head];
+            const x = p % width, y = (p - x) / width;
+            const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, y > 0 ? p - width : -1, y < height - 1 ? p + width : -1];
+            for (const n of neighbours) {
+                if (n >= 0 && mask[n] && !labels[n]) {
+                    labels[n] = label;
+                    queue.push(n);
+                }
+            }
+        }
+        if (queue.length > bestSize) {
+            bestSize = queue.length;
+            bestLabel = label;
+        }
+    }
+    for (let p = 0; p < mask.length; p++) {
+        mask[p] = labels[p] === bestLabel && bestLabel !== 0 ? 255 : 0;
+    }
+};
+
+const segmentSubject = (data: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+    // The border is taken to be background
+    const ring = Math.max(1, Math.round(Math.min(width, height) * 0.05));
+    let r = 0, g = 0, b = 0, count = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (x >= ring && x < width - ring && y >= ring && y < height - ring) continue;
+            const i = (y * width + x) * 4;
+            r += data[i]; g += data[i + 1]; b += data[i + 2];
+            count++;
+        }
+    }
+    r /= count; g /= count; b /= count;
+
+    const scores = new Uint8ClampedArray(width * height);
+    const histogram = new Uint32Array(256);
+    const spread = 2 * SUBJECT_CENTER_SPREAD * SUBJECT_CENTER_SPREAD;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const p = y * width + x, i = p * 4;
+            const distance = (Math.abs(data[i] - r) + Math.abs(data[i + 1] - g) + Math.abs(data[i + 2] - b)) / 3;
+            const dx = x / width - 0.5, dy = y / height - 0.5;
+            const score = Math.min(255, distance * 2 * Math.exp(-(dx * dx + dy * dy) / spread));
+            scores[p] = score;
+            histogram[scores[p]]++;
+        }
+    }
+
+    const threshold = otsuThreshold(histogram, scores.length);
+    const mask = scores.map(score => score > threshold ? 255 : 0);
+    keepLargestRegion(mask, width, height);
+    return mask;
+};
+
+// One byte per pixel, 255 inside the selection
+export const segmentLocally = (imageData: ImageData, target: SegmentationTarget): Uint8ClampedArray =>
+    target === 'sky'
+        ? segmentSky(imageData.data, imageData.width, imageData.height)
+        : segmentSubject(imageData.data, imageData.width, imageData.height);
+
+// Scales a provider's black and white mask to the image and stores it as white
+// with the mask's brightness as alpha, the form mask layers draw with. Edges
+// are softened a little so stretching a small mask doesn't show steps.
+export const createSelection = (maskUrl: string, width: number, height: number): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error("Could not get canvas context"));
+            ctx.filter = `blur(${Math.max(1, Math.round(Math.max(width, height) / 800))}px)`;
+            ctx.drawImage(img, 0, 0, width, height);
+            ctx.filter = 'none';
+            const pixels = ctx.getImageData(0, 0, width, height);
+            const data = pixels.data;
+            for (let i = 0; i < data.length; i += 4) {
+                const alpha = (data[i] + data[i + 1] + data[i + 2]) / 3;
+                data[i] = data[i + 1] = data[i + 2] = 255;
+                data[i + 3] = alpha;
+            }
+            ctx.putImageData(pixels, 0, 0);
+            resolve(canvas.toDataURL('image/png'));
+        };
+        img.onerror = () => reject(new Error('INVALID_MASK_IMAGE'));
+        img.src = maskUrl;
+    });
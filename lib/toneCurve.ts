@@ -0,0 +1,140 @@
+import type { CurveChannel, CurvePoint, Levels, ToneCurve } from '../types';
+
+// Levels and tone curves, applied per pixel through one 256-entry lookup
+// table per channel: levels first, then the RGB curve, then the channel curve.
+
+export const IDENTITY_CURVE: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+export const INITIAL_TONE_CURVE: ToneCurve = {
+    rgb: IDENTITY_CURVE,
+    red: IDENTITY_CURVE,
+    green: IDENTITY_CURVE,
+    blue: IDENTITY_CURVE,
+};
+
+export const INITIAL_LEVELS: Levels = { black: 0, white: 255, gamma: 1 };
+
+export const CURVE_CHANNELS: CurveChannel[] = ['rgb', 'red', 'green', 'blue'];
+
+export const isIdentityCurve = (points: CurvePoint[]) => points.every(p => p.x === p.y);
+
+export const isToneAdjusted = (toneCurve: ToneCurve, levels: Levels) =>
+    CURVE_CHANNELS.some(channel => !isIdentityCurve(toneCurve[channel])) ||
+    levels.black !== INITIAL_LEVELS.black || levels.white !== INITIAL_LEVELS.white || levels.gamma !== INITIAL_LEVELS.gamma;
+
+// Monotone cubic interpolation (Fritsch–Carlson), so the curve never
+// overshoots between neighbouring points
+export const buildCurveTable = (points: CurvePoint[]): Uint8ClampedArray => {
+    const sorted = [...points].sort((a, b) => a.x - b.x).filter((p, i, list) => i === 0 || p.x !== list[i - 1].x);
+    const table = new Uint8ClampedArray(256);
+    const n = sorted.length;
+    if (n === 0) {
+        for (let v = 0; v < 256; v++) table[v] = v;
+        return table;
+    }
+    if (n === 1) return table.fill(sorted[0].y);
+
+    const slopes: number[] = [];
+    for (let i = 0; i < n - 1; i++) {
+        slopes.push((sorted[i + 1].y - sorted[i].y) / (sorted[i + 1].x - sorted[i].x));
+    }
+    const tangents = sorted.map((_, i) => {
+        if (i === 0) return slopes[0];
+        if (i === n - 1) return slopes[n - 2];
+        return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+    });
+    for (let i = 0; i < n - 1; i++) {
+        if (slopes[i] === 0) {
+            tangents[i] = tangents[i + 1] = 0;
+            continue;
+        }
+        const a = tangents[i] / slopes[i];
+        const b = tangents[i + 1] / slopes[i];
+        const h = a * a + b * b;
+        if (h > 9) {
+            const tau = 3 / Math.sqrt(h);
+            tangents[i] = tau * a * slopes[i];
+            tangents[i + 1] = tau * b * slopes[i];
+        }
+    }
+
+    let segment = 0;
+    for (let x = 0; x < 256; x++) {
+        if (x <= sorted[0].x) { table[x] = sorted[0].y; continue; }
+        if (x >= sorted[n - 1].x) { table[x] = sorted[n - 1].y; continue; }
+        while (x > sorted[segment + 1].x) segment++;
+        const p0 = sorted[segment], p1 = sorted[segment + 1];
+        const dx = p1.x - p0.x;
+        const t = (x - p0.x) / dx;
+        const t2 = t * t, t3 = t2 * t;
+        table[x] = (2 * t3 - 3 * t2 + 1) * p0.y + (t3 - 2 * t2 + t) * dx * tangents[segment]
+            + (-2 * t3 + 3 * t2) * p1.y + (t3 - t2) * dx * tangents[segment + 1];
+    }
+    return table;
+};
+
+const buildLevelsTable = ({ black, white, gamma }: Levels): Uint8ClampedArray => {
+    const table = new Uint8ClampedArray(256);
+    const range = Math.max(1, white - black);
+    for (let v = 0; v < 256; v++) {
+        const normalized = Math.max(0, Math.min(1, (v - black) / range));
+        table[v] = Math.pow(normalized, 1 / gamma) * 255;
+    }
+    return table;
+};
+
+export const applyToneCurve = (imageData: ImageData, toneCurve: ToneCurve, levels: Levels) => {
+    const levelsTable = buildLevelsTable(levels);
+    const rgbTable = buildCurveTable(toneCurve.rgb);
+    const channelTables = [toneCurve.red, toneCurve.green, toneCurve.blue].map(points => {
+        const channel = buildCurveTable(points);
+        return channel.map((_, v) => channel[rgbTable[levelsTable[v]]]);
+    });
+    const [red, green, blue] = channelTables;
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = red[data[i]];
+        data[i + 1] = green[data[i + 1]];
+        data[i + 2] = blue[data[i + 2]];
+    }
+};
+
+// Moves every point towards the diagonal and levels towards neutral;
+// `amount` 0 is untouched, 1 is the full adjustment
+export const scaleToneCurve = (toneCurve: ToneCurve, amount: number): ToneCurve => {
+    const scaled = {} as ToneCurve;
+    for (const channel of CURVE_CHANNELS) {
+        scaled[channel] = toneCurve[channel].map(p => ({ x: p.x, y: Math.round(p.x + (p.y - p.x) * amount) }));
+    }
+    return scaled;
+};
+
+export const scaleLevels = (levels: Levels, amount: number): Levels => ({
+    black: Math.round(levels.black * amount),
+    white: Math.round(255 + (levels.white - 255) * amount),
+    gamma: Math.round((1 + (levels.gamma - 1) * amount) * 100) / 100,
+});
+
+const isValidCurve = (points: unknown): points is CurvePoint[] =>
+    Array.isArray(points) && points.length >= 2 &&
+    points.every(p => p && typeof p.x === 'number' && typeof p.y === 'number');
+
+export const normalizeToneCurve = (value: unknown): ToneCurve => {
+    const source = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    const curve = { ...INITIAL_TONE_CURVE };
+    for (const channel of CURVE_CHANNELS) {
+        const points = source[channel];
+        if (isValidCurve(points)) {
+            curve[channel] = points.map(p => ({ x: Math.max(0, Math.min(255, p.x)), y: Math.max(0, Math.min(255, p.y)) }));
+        }
+    }
+    return curve;
+};
+
+export const normalizeLevels = (value: unknown): Levels => {
+    const source = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    const black = typeof source.black === 'number' ? Math.max(0, Math.min(254, source.black)) : INITIAL_LEVELS.black;
+    const white = typeof source.white === 'number' ? Math.max(black + 1, Math.min(255, source.white)) : INITIAL_LEVELS.white;
+    const gamma = typeof source.gamma === 'number' && source.gamma > 0 ? Math.max(0.1, Math.min(10, source.gamma)) : INITIAL_LEVELS.gamma;
+    return { black, white, gamma };
+};
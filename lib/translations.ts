@@ -181,7 +181,7 @@ export const translations = {
     promptPlaceholder: "e.g., add a flowing river, make it night time...",
     textToImagePromptPlaceholder: "e.g., a photo of an astronaut riding a horse on Mars",
     quickPromptsLabel: "Quick Prompts",
-    generateButton: "Generate (5 Credits)",
+    generateButton: "Generate",
     generatingButton: "Generating...",
     resultTitle: "Result",
     canvasTitle: "Editor",
@@ -200,7 +200,6 @@ export const translations = {
     downloadButton: "Download",
     installAppButton: "Install App",
     editResultButton: "Edit This",
-    instructionalPrompt: "The colored lines drawn on the image are instructional markings to indicate the area of editing. Do not include these colored lines in the final generated image. Fulfill the user's request by applying the changes within the marked areas.",
     rateLimitError: "You have exceeded the API usage limit. Please try again later.",
     uploadSizeLimit: "Please keep uploaded files under 15MB.",
     zoomInButton: "Zoom In",
@@ -280,6 +279,144 @@ export const translations = {
     lightbrushLabel: "Light Brush",
     brushSettingsLabel: "Brush Settings",
     undoButton: "Undo",
+    redoButton: "Redo",
+    exportTitle: "Export Image",
+    exportFormatLabel: "Format",
+    exportQualityLabel: "Quality",
+    exportLongEdgeLabel: "Long edge",
+    exportOriginalSize: "Original",
+    exportTransparencyLabel: "Keep transparency",
+    exportFilenameLabel: "File name",
+    exportFilenameHint: "Use {name}, {date}, {time}, {width} and {height}",
+    exportEstimatedSize: "Estimated size",
+    exportFailed: "The image could not be exported.",
+    exportMetadataLabel: "Metadata",
+    exportAiGeneratedLabel: "Mark as AI-generated",
+    exportMetadataUnsupported: "Metadata is only written to PNG and JPEG files.",
+    metadataTitle: "Image Info",
+    metadataEmpty: "This image has no camera metadata.",
+    metadataCameraLabel: "Camera",
+    metadataLensLabel: "Lens",
+    metadataDateLabel: "Taken",
+    metadataCaptureLabel: "Exposure",
+    metadataAuthorLabel: "Author & copyright",
+    metadataLocationLabel: "Location",
+    metadataRemoveLocation: "Remove",
+    metadataArtistLabel: "Artist",
+    metadataCopyrightLabel: "Copyright",
+    metadataDescriptionLabel: "Description",
+    metadataAiGeneratedBadge: "AI-generated",
+    batchButton: "Batch",
+    batchSelectHint: "Tick thumbnails to process them together",
+    batchTitle: "Batch Processing",
+    batchModePrompt: "Prompt",
+    batchModePreset: "Edit Preset",
+    batchPresetLabel: "Copy adjustments from",
+    batchPresetHelp: "These global adjustments are applied to every selected image.",
+    batchNoPresets: "Save a preset in the photo editor, or edit and save an image there, to use its adjustments here.",
+    batchEditedImagesGroup: "Edited images",
+    batchCostLabel: "Estimated cost (credits)",
+    batchConcurrencyLabel: "Parallel jobs",
+    batchStatusPending: "Waiting",
+    batchStatusRunning: "Processing...",
+    batchStatusDone: "Done",
+    batchStatusFailed: "Failed",
+    batchStatusCancelled: "Cancelled",
+    batchStartButton: "Start",
+    batchCancelButton: "Cancel",
+    batchDownloadZip: "Download ZIP",
+    batchAddToProject: "Add to Project",
+    jobsTitle: "Requests",
+    jobGenerateLabel: "Generate",
+    jobEditLabel: "Edit",
+    jobRefineLabel: "Enhance prompt",
+    jobBatchLabel: "Batch",
+    jobRemoveLabel: "Magic eraser",
+    jobStatusPending: "Queued",
+    jobStatusRunning: "Running",
+    jobStatusRetrying: "Rate limited, retrying",
+    jobStatusDone: "Done",
+    jobStatusFailed: "Failed",
+    jobStatusCancelled: "Cancelled",
+    jobAttemptLabel: "Attempt",
+    jobCancelButton: "Cancel",
+    jobsClearFinished: "Clear finished",
+    jobTimeoutError: "The request took too long and was stopped. Please try again.",
+    cancelGenerationButton: "Cancel",
+    presetsTitle: "Presets",
+    presetSaveButton: "Save Preset",
+    presetImportButton: "Import presets (.json, Lightroom .xmp, .cube LUT)",
+    presetExportButton: "Export presets",
+    presetNamePlaceholder: "Preset name",
+    presetFolderPlaceholder: "Folder (optional)",
+    presetNoFolder: "No folder",
+    presetsEmpty: "Save the current adjustments as a preset to reuse them on other photos.",
+    presetIntensityLabel: "Intensity",
+    presetDeleteButton: "Delete preset",
+    presetDeleteConfirm: "Delete this preset?",
+    presetSaveFailed: "The preset could not be saved.",
+    presetMoveFailed: "The preset could not be moved.",
+    presetDeleteFailed: "The preset could not be deleted.",
+    presetImportFailed: "These files could not be imported. Use presets exported from this app, Lightroom .xmp presets or 3D .cube LUTs:",
+    lutLabel: "LUT",
+    lutLoadButton: "Load .cube",
+    lutRemoveButton: "Remove LUT",
+    lutOpacityLabel: "Opacity",
+    lutEmpty: "Apply a 3D LUT (.cube) as a color grading step.",
+    lutLoadFailed: "This file is not a 3D .cube LUT.",
+    toneCurveLabel: "Tone Curve",
+    toneCurveHelp: "Click to add a point, drag to move it, double-click to remove it.",
+    curveChannelRgb: "RGB",
+    curveChannelRed: "Red",
+    curveChannelGreen: "Green",
+    curveChannelBlue: "Blue",
+    curveResetChannel: "Reset this channel",
+    levelsLabel: "Levels",
+    levelsBlackLabel: "Black Point",
+    levelsGammaLabel: "Midtones (Gamma)",
+    levelsWhiteLabel: "White Point",
+    histogramLabel: "Histogram",
+    histogramRgb: "RGB",
+    histogramLuminance: "Luminance",
+    clippingLabel: "Clipping",
+    shadowClippingToggle: "Show clipped shadows",
+    highlightClippingToggle: "Show clipped highlights",
+    selectSubjectButton: "Select Subject",
+    selectSkyButton: "Select Sky",
+    jobSegmentLabel: "Select region",
+    segmentFailed: "Could not select that region. Please try again.",
+    pricingSegmentLabel: "Select Subject / Sky",
+    addColorRangeMaskButton: "Color Range",
+    addLuminanceRangeMaskButton: "Luminance Range",
+    colorRangeLabel: "Color Range",
+    pickColorButton: "Pick Color",
+    pickColorHelp: "Click the photo to pick the color to select.",
+    colorRangeToleranceLabel: "Tolerance",
+    luminanceRangeLabel: "Luminance Range",
+    luminanceRangeMinLabel: "Darkest",
+    luminanceRangeMaxLabel: "Brightest",
+    maskComponentsLabel: "Mask Shapes",
+    addMaskComponentButton: "Add shape",
+    maskOperationAdd: "Add",
+    maskOperationSubtract: "Subtract",
+    maskOperationIntersect: "Intersect",
+    lightModeDodge: "Dodge",
+    lightModeBurn: "Burn",
+    lightModeColorGrade: "Color Grade",
+    lightModeClone: "Clone",
+    lightModeHeal: "Heal",
+    tonalRangeLabel: "Tonal Range",
+    tonalRangeShadows: "Shadows",
+    tonalRangeMidtones: "Midtones",
+    tonalRangeHighlights: "Highlights",
+    gradeColorLabel: "Target Color",
+    setCloneSourceButton: "Set Source",
+    cloneSourceHelp: "Alt-click the image, or tap Set Source and then the image, to choose where to sample from.",
+    cloneSourceSetHelp: "The source follows the brush. Alt-click to pick a new one.",
+    editHistoryTitle: "History",
+    historyStepOpened: "Opened",
+    historyStepTransform: "Rotate & Flip",
+    historyStepImageReplaced: "Image Replaced",
     brushModesLabel: "Brush Modes",
     increaseWhiteLight: "Increase White Light",
     increaseYellowLight: "Increase Yellow Light",
@@ -326,7 +463,7 @@ export const translations = {
     ratio43: "4:3",
     ratio34: "3:4",
     aspectRatioLabel: "Aspect Ratio",
-    enhancePromptButton: "Magic Enhance (5 Credits)",
+    enhancePromptButton: "Magic Enhance",
     refiningButton: "Enhancing...",
     addBrushMaskButton: "Brush",
     addRadialMaskButton: "Radial",
@@ -348,7 +485,6 @@ export const translations = {
     setupTitle: "System Setup",
     setupDescription: "Paste your Firebase configuration below to connect the app.",
     firebaseConfigPlaceholder: "Paste: const firebaseConfig = { ... };",
-    adminEmailPlaceholder: "Admin Email (e.g. your@email.com)",
     saveConfigButton: "Save & Connect",
     setupErrorInvalidFormat: "Invalid configuration format. Please copy the 'const firebaseConfig = { ... }' block from Firebase Console.",
     setupErrorMissingConfig: "Invalid configuration: Missing required fields (apiKey, authDomain, projectId).",
@@ -359,6 +495,69 @@ export const translations = {
     creditsAddedSuccess: "Credits added successfully!",
     creditsAddedError: "Failed to add credits. Check email.",
     logoutButton: "Logout",
+    imageProviderLabel: "Image Provider",
+    variantCountLabel: "Variants",
+    variantPickerLabel: "Pick a variant to edit or download",
+    variantLabel: "Variant",
+    historyTitle: "Generation History",
+    historyEmpty: "Results you generate for this image will be listed here.",
+    historyHelperText: "Click a result to return to it and branch a new edit. Tick two to compare.",
+    historyCompareTitle: "Compare Results",
+    historyReferencesLabel: "References:",
+    historyDeleteBranch: "Delete this result and its branches",
+    projectLabel: "Project",
+    defaultProjectName: "My Project",
+    newProjectButton: "New Project",
+    newProjectPrompt: "Name for the new project:",
+    renameProjectButton: "Rename Project",
+    renameProjectPrompt: "New project name:",
+    deleteProjectButton: "Delete Project",
+    deleteProjectConfirm: "Delete this project with all its images and history?",
+    costPreviewLabel: "Cost",
+    pricingTitle: "Pricing",
+    pricingHelperText: "Credits charged per image produced. Multiple variants are charged per variant, at the variant pricing below.",
+    pricingGenerateLabel: "Text to Image",
+    pricingEditLabel: "Image Edit",
+    pricingRefineLabel: "Magic Enhance",
+    pricingVariantRatesLabel: "Variant Pricing (%)",
+    pricingVariantRatesHelp: "Share of the per-image price charged for each image when this many variants are requested.",
+    pricingSaveButton: "Save Pricing",
+    pricingSaved: "Pricing saved.",
+    pricingSaveError: "Failed to save pricing.",
+    adminUsersTitle: "Users",
+    adminSearchPlaceholder: "Search by email (starts with)",
+    adminSearchButton: "Search",
+    adminRoleColumn: "Role",
+    adminStatusColumn: "Status",
+    adminRoleAdmin: "Admin",
+    adminRoleUser: "User",
+    adminActiveStatus: "Active",
+    adminSuspendedStatus: "Suspended",
+    adminDetailsButton: "Details",
+    adminSuspendButton: "Suspend",
+    adminRestoreButton: "Restore",
+    adminMakeAdminButton: "Make Admin",
+    adminRemoveAdminButton: "Remove Admin",
+    adminPrevPage: "Previous",
+    adminNextPage: "Next",
+    adminNoUsers: "No users found.",
+    adminLoading: "Loading...",
+    adminLoadError: "Failed to load data.",
+    adminActionError: "Action failed. Please try again.",
+    adminBulkGrantButton: "Grant to Selected",
+    adminBulkGrantFailed: "Failed to grant credits to users:",
+    adminCreditsSpent: "Credits Spent",
+    adminCreditsGranted: "Credits Granted",
+    adminCallsLabel: "Paid Calls",
+    adminLastActive: "Last Active",
+    adminHistoryTitle: "Balance History",
+    adminHistoryEmpty: "No ledger entries yet.",
+    adminDateColumn: "Date",
+    adminReasonColumn: "Reason",
+    adminChangeColumn: "Change",
+    adminBalanceColumn: "Balance",
+    accountSuspendedTitle: "Account Suspended",
+    accountSuspendedMessage: "This account has been suspended. Please contact the admin.",
     defaultQuickPrompts: {
         birds: enBirdsPrompts,
         scenery: enSceneryPrompts,
@@ -375,7 +574,7 @@ export const translations = {
     promptPlaceholder: "例如：加上一條流動的河流，把它變成夜晚...",
     textToImagePromptPlaceholder: "例如：一張太空人在火星上騎馬的照片",
     quickPromptsLabel: "快捷內容",
-    generateButton: "生成 (5 積分)",
+    generateButton: "生成",
     generatingButton: "生成中...",
     resultTitle: "結果",
     canvasTitle: "編輯器",
@@ -394,7 +593,6 @@ export const translations = {
     downloadButton: "下載",
     installAppButton: "安裝應用程式",
     editResultButton: "編輯此圖",
-    instructionalPrompt: "圖片上繪製的彩色線條是用於指示編輯區域的標記。請不要將這些彩色線條包含在最終生成的圖片中。請在標記區域內應用更改以滿足用戶的要求。",
     rateLimitError: "您已超出 API 使用限制。請稍後再試。",
     uploadSizeLimit: "請保持上傳檔案小於 15MB。",
     zoomInButton: "放大",
@@ -474,6 +672,144 @@ export const translations = {
     lightbrushLabel: "光筆",
     brushSettingsLabel: "筆刷設定",
     undoButton: "復原",
+    redoButton: "重做",
+    exportTitle: "匯出圖片",
+    exportFormatLabel: "格式",
+    exportQualityLabel: "品質",
+    exportLongEdgeLabel: "長邊",
+    exportOriginalSize: "原始尺寸",
+    exportTransparencyLabel: "保留透明度",
+    exportFilenameLabel: "檔案名稱",
+    exportFilenameHint: "可使用 {name}、{date}、{time}、{width} 與 {height}",
+    exportEstimatedSize: "預估大小",
+    exportFailed: "無法匯出圖片。",
+    exportMetadataLabel: "中繼資料",
+    exportAiGeneratedLabel: "標記為 AI 生成",
+    exportMetadataUnsupported: "中繼資料僅會寫入 PNG 與 JPEG 檔案。",
+    metadataTitle: "圖片資訊",
+    metadataEmpty: "這張圖片沒有相機資訊。",
+    metadataCameraLabel: "相機",
+    metadataLensLabel: "鏡頭",
+    metadataDateLabel: "拍攝時間",
+    metadataCaptureLabel: "曝光",
+    metadataAuthorLabel: "作者與版權",
+    metadataLocationLabel: "位置",
+    metadataRemoveLocation: "移除",
+    metadataArtistLabel: "作者",
+    metadataCopyrightLabel: "版權",
+    metadataDescriptionLabel: "描述",
+    metadataAiGeneratedBadge: "AI 生成",
+    batchButton: "批次處理",
+    batchSelectHint: "勾選縮圖以一起處理",
+    batchTitle: "批次處理",
+    batchModePrompt: "提示詞",
+    batchModePreset: "編輯預設",
+    batchPresetLabel: "套用調整自",
+    batchPresetHelp: "這些整體調整會套用到每一張選取的圖片。",
+    batchNoPresets: "先在相片編輯器中儲存預設，或編輯並儲存一張圖片，才能在這裡使用它的調整。",
+    batchEditedImagesGroup: "已編輯的圖片",
+    batchCostLabel: "預估花費（積分）",
+    batchConcurrencyLabel: "同時處理數",
+    batchStatusPending: "等待中",
+    batchStatusRunning: "處理中...",
+    batchStatusDone: "完成",
+    batchStatusFailed: "失敗",
+    batchStatusCancelled: "已取消",
+    batchStartButton: "開始",
+    batchCancelButton: "取消",
+    batchDownloadZip: "下載 ZIP",
+    batchAddToProject: "加入專案",
+    jobsTitle: "請求",
+    jobGenerateLabel: "生成",
+    jobEditLabel: "編輯",
+    jobRefineLabel: "優化提示詞",
+    jobBatchLabel: "批次",
+    jobRemoveLabel: "魔術橡皮擦",
+    jobStatusPending: "排隊中",
+    jobStatusRunning: "執行中",
+    jobStatusRetrying: "受到速率限制，即將重試",
+    jobStatusDone: "完成",
+    jobStatusFailed: "失敗",
+    jobStatusCancelled: "已取消",
+    jobAttemptLabel: "嘗試次數",
+    jobCancelButton: "取消",
+    jobsClearFinished: "清除已結束",
+    jobTimeoutError: "請求時間過長，已停止。請再試一次。",
+    cancelGenerationButton: "取消",
+    presetsTitle: "預設集",
+    presetSaveButton: "儲存預設",
+    presetImportButton: "匯入預設集（.json、Lightroom .xmp、.cube LUT）",
+    presetExportButton: "匯出預設集",
+    presetNamePlaceholder: "預設名稱",
+    presetFolderPlaceholder: "資料夾（選填）",
+    presetNoFolder: "不放入資料夾",
+    presetsEmpty: "將目前的調整儲存為預設，即可套用到其他照片。",
+    presetIntensityLabel: "強度",
+    presetDeleteButton: "刪除預設",
+    presetDeleteConfirm: "確定要刪除這個預設嗎？",
+    presetSaveFailed: "無法儲存預設。",
+    presetMoveFailed: "無法移動預設。",
+    presetDeleteFailed: "無法刪除預設。",
+    presetImportFailed: "無法匯入以下檔案。請使用本應用程式匯出的預設集、Lightroom .xmp 預設或 3D .cube LUT：",
+    lutLabel: "LUT",
+    lutLoadButton: "載入 .cube",
+    lutRemoveButton: "移除 LUT",
+    lutOpacityLabel: "不透明度",
+    lutEmpty: "套用 3D LUT（.cube）作為調色步驟。",
+    lutLoadFailed: "此檔案不是 3D .cube LUT。",
+    toneCurveLabel: "色調曲線",
+    toneCurveHelp: "點擊新增控制點，拖曳移動，雙擊刪除。",
+    curveChannelRgb: "RGB",
+    curveChannelRed: "紅",
+    curveChannelGreen: "綠",
+    curveChannelBlue: "藍",
+    curveResetChannel: "重設此色版",
+    levelsLabel: "色階",
+    levelsBlackLabel: "黑點",
+    levelsGammaLabel: "中間調（Gamma）",
+    levelsWhiteLabel: "白點",
+    histogramLabel: "直方圖",
+    histogramRgb: "RGB",
+    histogramLuminance: "亮度",
+    clippingLabel: "裁切警示",
+    shadowClippingToggle: "顯示暗部裁切",
+    highlightClippingToggle: "顯示亮部裁切",
+    selectSubjectButton: "選取主體",
+    selectSkyButton: "選取天空",
+    jobSegmentLabel: "選取區域",
+    segmentFailed: "無法選取該區域，請再試一次。",
+    pricingSegmentLabel: "選取主體 / 天空",
+    addColorRangeMaskButton: "色彩範圍",
+    addLuminanceRangeMaskButton: "明度範圍",
+    colorRangeLabel: "色彩範圍",
+    pickColorButton: "選取顏色",
+    pickColorHelp: "點擊相片以選取要遮罩的顏色。",
+    colorRangeToleranceLabel: "容許度",
+    luminanceRangeLabel: "明度範圍",
+    luminanceRangeMinLabel: "最暗",
+    luminanceRangeMaxLabel: "最亮",
+    maskComponentsLabel: "遮色片形狀",
+    addMaskComponentButton: "新增形狀",
+    maskOperationAdd: "加入",
+    maskOperationSubtract: "減去",
+    maskOperationIntersect: "交集",
+    lightModeDodge: "加亮",
+    lightModeBurn: "加深",
+    lightModeColorGrade: "色彩分級",
+    lightModeClone: "仿製",
+    lightModeHeal: "修復",
+    tonalRangeLabel: "色調範圍",
+    tonalRangeShadows: "陰影",
+    tonalRangeMidtones: "中間調",
+    tonalRangeHighlights: "亮部",
+    gradeColorLabel: "目標顏色",
+    setCloneSourceButton: "設定來源",
+    cloneSourceHelp: "按住 Alt 點擊圖片，或點「設定來源」後再點圖片，選擇取樣位置。",
+    cloneSourceSetHelp: "來源會跟著筆刷移動。按住 Alt 點擊可重新選擇。",
+    editHistoryTitle: "操作紀錄",
+    historyStepOpened: "開啟圖片",
+    historyStepTransform: "旋轉與翻轉",
+    historyStepImageReplaced: "圖片已替換",
     brushModesLabel: "筆刷模式",
     increaseWhiteLight: "增加白光",
     increaseYellowLight: "增加黃光",
@@ -520,7 +856,7 @@ export const translations = {
     ratio43: "4:3",
     ratio34: "3:4",
     aspectRatioLabel: "長寬比",
-    enhancePromptButton: "AI 優化題示詞 (5 積分)",
+    enhancePromptButton: "AI 優化題示詞",
     refiningButton: "優化中...",
     addBrushMaskButton: "筆刷",
     addRadialMaskButton: "徑向",
@@ -542,7 +878,6 @@ export const translations = {
     setupTitle: "系統初始化設定",
     setupDescription: "請將 Firebase 設定碼貼在下方以連線至資料庫。",
     firebaseConfigPlaceholder: "請貼上：const firebaseConfig = { ... };",
-    adminEmailPlaceholder: "管理員 Email (例如 your@email.com)",
     saveConfigButton: "儲存並連線",
     setupErrorInvalidFormat: "設定格式無效。請從 Firebase 控制台複製 'const firebaseConfig = { ... }' 區塊。",
     setupErrorMissingConfig: "設定無效：缺少必要欄位 (apiKey, authDomain, projectId)。",
@@ -553,6 +888,69 @@ export const translations = {
     creditsAddedSuccess: "積分增加成功！",
     creditsAddedError: "增加失敗，請確認 Email 正確。",
     logoutButton: "登出",
+    imageProviderLabel: "影像生成服務",
+    variantCountLabel: "生成張數",
+    variantPickerLabel: "選擇一張結果繼續編輯或下載",
+    variantLabel: "結果",
+    historyTitle: "生成紀錄",
+    historyEmpty: "此圖片生成的結果會列在這裡。",
+    historyHelperText: "點選結果可回到該步驟並分支新的編輯，勾選兩個可並排比較。",
+    historyCompareTitle: "比較結果",
+    historyReferencesLabel: "參考圖：",
+    historyDeleteBranch: "刪除此結果及其分支",
+    projectLabel: "專案",
+    defaultProjectName: "我的專案",
+    newProjectButton: "新增專案",
+    newProjectPrompt: "新專案名稱：",
+    renameProjectButton: "重新命名專案",
+    renameProjectPrompt: "新的專案名稱：",
+    deleteProjectButton: "刪除專案",
+    deleteProjectConfirm: "確定要刪除此專案及其所有圖片與紀錄？",
+    costPreviewLabel: "費用",
+    pricingTitle: "點數價格",
+    pricingHelperText: "每產生一張圖片扣除的點數，多張結果依張數並按下方多張結果計價計費。",
+    pricingGenerateLabel: "文生圖",
+    pricingEditLabel: "圖片編輯",
+    pricingRefineLabel: "AI 優化題示詞",
+    pricingVariantRatesLabel: "多張結果計價 (%)",
+    pricingVariantRatesHelp: "一次產生這麼多張結果時，每張圖片收取單張價格的百分比。",
+    pricingSaveButton: "儲存價格",
+    pricingSaved: "價格已儲存。",
+    pricingSaveError: "價格儲存失敗。",
+    adminUsersTitle: "用戶列表",
+    adminSearchPlaceholder: "以 Email 開頭搜尋",
+    adminSearchButton: "搜尋",
+    adminRoleColumn: "角色",
+    adminStatusColumn: "狀態",
+    adminRoleAdmin: "管理員",
+    adminRoleUser: "一般用戶",
+    adminActiveStatus: "正常",
+    adminSuspendedStatus: "已停權",
+    adminDetailsButton: "詳細",
+    adminSuspendButton: "停權",
+    adminRestoreButton: "恢復",
+    adminMakeAdminButton: "設為管理員",
+    adminRemoveAdminButton: "取消管理員",
+    adminPrevPage: "上一頁",
+    adminNextPage: "下一頁",
+    adminNoUsers: "找不到用戶。",
+    adminLoading: "載入中...",
+    adminLoadError: "資料載入失敗。",
+    adminActionError: "操作失敗，請再試一次。",
+    adminBulkGrantButton: "發放給已選用戶",
+    adminBulkGrantFailed: "積分發放失敗的用戶數：",
+    adminCreditsSpent: "已使用積分",
+    adminCreditsGranted: "已發放積分",
+    adminCallsLabel: "付費次數",
+    adminLastActive: "最後使用",
+    adminHistoryTitle: "積分紀錄",
+    adminHistoryEmpty: "尚無積分紀錄。",
+    adminDateColumn: "日期",
+    adminReasonColumn: "原因",
+    adminChangeColumn: "變動",
+    adminBalanceColumn: "餘額",
+    accountSuspendedTitle: "帳號已停權",
+    accountSuspendedMessage: "此帳號已被停權，請聯絡管理員。",
     defaultQuickPrompts: {
         birds: zhBirdsPrompts,
         scenery: zhSceneryPrompts,
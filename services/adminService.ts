@@ -0,0 +1,69 @@
+import {
+    doc,
+    collection,
+    query,
+    where,
+    orderBy,
+    limit,
+    startAfter,
+    getDocs,
+    updateDoc,
+    type QueryConstraint,
+    type QueryDocumentSnapshot
+} from 'firebase/firestore';
+import { getDbInstance, toUserProfile } from './firebaseService';
+import type { LedgerEntry, UserProfile, UserRole, UserUsageStats } from '../types';
+
+export const USERS_PAGE_SIZE = 20;
+
+export interface UserPage {
+    users: UserProfile[];
+    // Last document of this page; pass it back to fetch the next one
+    cursor: QueryDocumentSnapshot | null;
+}
+
+// Users ordered by email. Firestore has no substring search, so `search`
+// matches the beginning of the email address.
+export const listUsers = async (search: string, after: QueryDocumentSnapshot | null = null): Promise<UserPage> => {
+    const constraints: QueryConstraint[] = [];
+    const prefix = search.trim();
+    if (prefix) {
+        constraints.push(where("email", ">=", prefix), where("email", "<=", `${prefix}\uf8ff`));
+    }
+    constraints.push(orderBy("email"));
+    if (after) constraints.push(startAfter(after));
+    constraints.push(limit(USERS_PAGE_SIZE));
+
+    const snapshot = await getDocs(query(collection(getDbInstance(), "users"), ...constraints));
+    return {
+        users: snapshot.docs.map(userDoc => toUserProfile(userDoc.id, userDoc.data())),
+        cursor: snapshot.docs.length === USERS_PAGE_SIZE ? snapshot.docs[snapshot.docs.length - 1] : null
+    };
+};
+
+// Suspended accounts can still sign in but every debit is refused by the ledger
+export const setUserSuspended = async (uid: string, suspended: boolean) => {
+    await updateDoc(doc(getDbInstance(), "users", uid), { suspended });
+};
+
+export const setUserRole = async (uid: string, role: UserRole) => {
+    await updateDoc(doc(getDbInstance(), "users", uid), { role });
+};
+
+export const getUsageStats = (entries: LedgerEntry[]): UserUsageStats => {
+    const stats: UserUsageStats = { creditsSpent: 0, creditsGranted: 0, calls: {}, lastActiveAt: null };
+    entries.forEach(entry => {
+        if (entry.type === 'debit') {
+            stats.creditsSpent += entry.amount;
+            stats.calls[entry.reason] = (stats.calls[entry.reason] || 0) + 1;
+            if (entry.createdAt !== null && (stats.lastActiveAt === null || entry.createdAt > stats.lastActiveAt)) {
+                stats.lastActiveAt = entry.createdAt;
+            }
+        } else if (entry.reason === 'refund') {
+            stats.creditsSpent -= entry.amount;
+        } else {
+            stats.creditsGranted += entry.amount;
+        }
+    });
+    return stats;
+};
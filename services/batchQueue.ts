@@ -0,0 +1,17 @@
+// Runs `worker` over `items` with at most `concurrency` calls in flight. The
+// worker reports its own per-item progress and errors; once `signal` aborts,
+// items that have not started yet are skipped.
+export const runQueue = async <T>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T) => Promise<void>,
+    signal?: AbortSignal
+): Promise<void> => {
+    let next = 0;
+    const lanes = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+        while (next < items.length && !signal?.aborted) {
+            await worker(items[next++]);
+        }
+    });
+    await Promise.all(lanes);
+};
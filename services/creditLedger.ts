@@ -0,0 +1,171 @@
+import {
+    doc,
+    collection,
+    query,
+    where,
+    getDocs,
+    orderBy,
+    runTransaction,
+    serverTimestamp
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { getDbInstance, getFunctionsInstance } from './firebaseService';
+import { getAbandonedResult } from './jobQueue';
+import type { LedgerEntry, LedgerEntryType, LedgerReason } from '../types';
+
+// Every balance change goes through a Firestore transaction that reads the
+// current balance, writes the new one and appends an entry to
+// users/{uid}/transactions, so the balance and its history never disagree.
+// The user document names the entry in `lastEntryId`, which is how
+// firestore.rules checks that a user's own change is a debit they recorded.
+// Users cannot add credits themselves: refunds go through the refundCredits
+// Cloud Function, which only accepts recent debits still marked 'pending',
+// and grants need an admin.
+
+export const createRequestId = () =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `req-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+const applyLedgerEntry = async (
+    uid: string,
+    type: LedgerEntryType,
+    amount: number,
+    reason: LedgerReason,
+    requestId: string
+): Promise<number> => {
+    if (!Number.isFinite(amount) || amount <= 0) {
+        throw new Error(`Invalid credit amount: ${amount}`);
+    }
+    const db = getDbInstance();
+    const userRef = doc(db, "users", uid);
+    const entryRef = doc(collection(userRef, "transactions"));
+
+    return runTransaction(db, async (tx) => {
+        const snap = await tx.get(userRef);
+        if (!snap.exists()) {
+            throw new Error("User not found");
+        }
+        if (type === 'debit' && snap.data().suspended === true) {
+            throw new Error('ACCOUNT_SUSPENDED');
+        }
+        const balance: number = snap.data().credits || 0;
+        if (type === 'debit' && balance < amount) {
+            throw new Error('INSUFFICIENT_CREDITS');
+        }
+        const balanceAfter = type === 'debit' ? balance - amount : balance + amount;
+
+        tx.update(userRef, { credits: balanceAfter, lastEntryId: entryRef.id });
+        tx.set(entryRef, {
+            type,
+            amount,
+            reason,
+            requestId,
+            balanceAfter,
+            ...(type === 'debit' ? { status: 'pending' } : {}),
+            createdAt: serverTimestamp()
+        });
+        return balanceAfter;
+    });
+};
+
+// Atomically checks the balance and takes `amount` out of it.
+// Throws INSUFFICIENT_CREDITS without touching the balance if it is too low.
+export const reserveCredits = (uid: string, amount: number, reason: LedgerReason, requestId: string) =>
+    applyLedgerEntry(uid, 'debit', amount, reason, requestId);
+
+// Gives back (part of) the caller's earlier reservation; `requestId` ties it to
+// the debit. Each reservation can be refunded once, shortly after it was made.
+// Resolves with the new balance.
+export const refundCredits = async (amount: number, requestId: string): Promise<number> => {
+    const refund = httpsCallable<{ requestId: string; amount: number }, { balanceAfter: number }>(getFunctionsInstance(), 'refundCredits');
+    const { data } = await refund({ requestId, amount });
+    return data.balanceAfter;
+};
+
+// Holds `amount` while `run` executes: everything is refunded if it throws, and
+// `unusedCredits(result)` is refunded when it succeeds only partially. A call
+// that was cancelled or timed out may still finish in the background (and be
+// billed by the provider); then only what it did not produce is refunded.
+export const runWithReservation = async <T>(
+    uid: string,
+    amount: number,
+    reason: LedgerReason,
+    run: () => Promise<T>,
+    unusedCredits: (result: T) => number,
+    onBalance: (credits: number) => void
+): Promise<T> => {
+    const requestId = createRequestId();
+    const refund = (credits: number) => {
+        refundCredits(credits, requestId).then(onBalance).catch(err => console.error("Refund failed", err));
+    };
+
+    if (amount > 0) {
+        onBalance(await reserveCredits(uid, amount, reason, requestId));
+    }
+
+    let result: T;
+    try {
+        result = await run();
+    } catch (error) {
+        if (amount > 0) {
+            getAbandonedResult(error).then(late => {
+                const unused = late === null ? amount : Math.min(amount, unusedCredits(late as T));
+                if (unused > 0) refund(unused);
+            });
+        }
+        throw error;
+    }
+
+    const unused = Math.min(amount, unusedCredits(result));
+    if (unused > 0) refund(unused);
+    return result;
+};
+
+// Grants `amount` to every user in `uids`, each in its own transaction. All
+// entries share one requestId so a bulk grant can be traced back as a whole.
+export const grantCredits = async (uids: string[], amount: number) => {
+    const requestId = createRequestId();
+    const results = await Promise.allSettled(
+        uids.map(uid => applyLedgerEntry(uid, 'credit', amount, 'admin-grant', requestId))
+    );
+    const balances: Record<string, number> = {};
+    const failed: string[] = [];
+    results.forEach((result, i) => {
+        if (result.status === 'fulfilled') balances[uids[i]] = result.value;
+        else failed.push(uids[i]);
+    });
+    return { balances, failed };
+};
+
+export const addCreditsByEmail = async (targetEmail: string, amount: number) => {
+    // Find user by email
+    const usersRef = collection(getDbInstance(), "users");
+    const q = query(usersRef, where("email", "==", targetEmail));
+    const querySnapshot = await getDocs(q);
+
+    if (querySnapshot.empty) {
+        throw new Error("User not found");
+    }
+
+    return applyLedgerEntry(querySnapshot.docs[0].id, 'credit', amount, 'admin-grant', createRequestId());
+};
+
+// Full balance history of one user, newest first
+export const listLedgerEntries = async (uid: string): Promise<LedgerEntry[]> => {
+    const entriesRef = collection(getDbInstance(), "users", uid, "transactions");
+    const snapshot = await getDocs(query(entriesRef, orderBy("createdAt", "desc")));
+    return snapshot.docs.map(entry => {
+        const data = entry.data();
+        return {
+            id: entry.id,
+            type: data.type,
+            amount: data.amount,
+            reason: data.reason,
+            requestId: data.requestId,
+            balanceAfter: data.balanceAfter,
+            status: data.status,
+            createdAt: data.createdAt?.toMillis?.() ?? null
+        };
+    });
+};
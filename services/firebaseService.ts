@@ -8,26 +8,28 @@ import {
     createUserWithEmailAndPassword, 
     signOut, 
     onAuthStateChanged, 
+    connectAuthEmulator,
     type User as FirebaseUser 
 } from 'firebase/auth';
+import { getFunctions, connectFunctionsEmulator, type Functions } from 'firebase/functions';
 import { 
     getFirestore, 
+    connectFirestoreEmulator,
     doc, 
     getDoc, 
-    setDoc, 
-    updateDoc, 
-    increment, 
     collection, 
-    query, 
-    where, 
-    getDocs 
+    writeBatch,
+    serverTimestamp
 } from 'firebase/firestore';
-import type { FirebaseConfig, UserProfile } from '../types';
+import type { FirebaseConfig, UserProfile, UserRole } from '../types';
 
 let app: FirebaseApp | undefined;
 let db: any;
 let auth: any;
-let adminEmail: string = '';
+let functions: Functions;
+let emulatorsConnected = false;
+
+const SIGNUP_CREDITS = 20;
 
 export const isFirebaseConfigured = () => {
     const storedConfig = localStorage.getItem('firebaseConfig');
@@ -51,10 +53,6 @@ export const initializeFirebase = (config?: FirebaseConfig) => {
 
     localStorage.setItem('firebaseConfig', JSON.stringify(config));
 
-    if (config.adminEmail) {
-        adminEmail = config.adminEmail;
-    }
-
     if (!getApps().length) {
         app = initializeApp(config as any);
     } else {
@@ -62,22 +60,51 @@ export const initializeFirebase = (config?: FirebaseConfig) => {
     }
     db = getFirestore(app);
     auth = getAuth(app);
+    functions = getFunctions(app);
+
+    // Set FIREBASE_EMULATOR_HOST (e.g. "localhost") at build time to run against
+    // the local Auth (9099), Firestore (8080) and Functions (5001) emulators
+    // instead of production.
+    const emulatorHost = process.env.FIREBASE_EMULATOR_HOST;
+    if (emulatorHost && !emulatorsConnected) {
+        connectFirestoreEmulator(db, emulatorHost, 8080);
+        connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+        connectFunctionsEmulator(functions, emulatorHost, 5001);
+        emulatorsConnected = true;
+    }
     return true;
 };
 
 export const getAuthInstance = () => auth;
 
+export const getDbInstance = () => db;
+
+export const getFunctionsInstance = () => functions;
+
+// Creates the profile together with the ledger entry for the starting credits.
+// firestore.rules only accepts exactly SIGNUP_CREDITS here.
+const createUserProfile = async (uid: string, email: string | null | undefined) => {
+    const userRef = doc(db, "users", uid);
+    const batch = writeBatch(db);
+    batch.set(userRef, { email: email || '', credits: SIGNUP_CREDITS, role: 'user', suspended: false });
+    batch.set(doc(collection(userRef, "transactions")), {
+        type: 'credit',
+        amount: SIGNUP_CREDITS,
+        reason: 'signup',
+        requestId: `signup-${uid}`,
+        balanceAfter: SIGNUP_CREDITS,
+        createdAt: serverTimestamp()
+    });
+    await batch.commit();
+};
+
 export const login = async (email: string, pass: string) => {
     return await signInWithEmailAndPassword(auth, email, pass);
 };
 
 export const register = async (email: string, pass: string) => {
     const userCredential = await createUserWithEmailAndPassword(auth, email, pass);
-    // Initialize user profile with 20 credits
-    await setDoc(doc(db, "users", userCredential.user.uid), {
-        email: email,
-        credits: 20
-    });
+    await createUserProfile(userCredential.user.uid, email);
     return userCredential;
 };
 
@@ -85,44 +112,28 @@ export const logout = async () => {
     await signOut(auth);
 };
 
+// Admin rights come from the role on the user document, which only admins may change
+export const toUserProfile = (uid: string, data: Record<string, any>): UserProfile => {
+    const role: UserRole = data.role === 'admin' ? 'admin' : 'user';
+    return {
+        uid,
+        email: data.email,
+        credits: data.credits || 0,
+        role,
+        isAdmin: role === 'admin',
+        suspended: data.suspended === true
+    };
+};
+
 export const getUserProfile = async (uid: string): Promise<UserProfile> => {
     const docRef = doc(db, "users", uid);
     const docSnap = await getDoc(docRef);
     
     if (docSnap.exists()) {
-        const data = docSnap.data();
-        return {
-            uid,
-            email: data.email,
-            credits: data.credits || 0,
-            isAdmin: data.email === adminEmail
-        };
+        return toUserProfile(uid, docSnap.data());
     } else {
         // Create if doesn't exist (fallback)
-        await setDoc(doc(db, "users", uid), { email: auth.currentUser?.email, credits: 20 });
-        return { uid, email: auth.currentUser?.email || '', credits: 20, isAdmin: auth.currentUser?.email === adminEmail };
+        await createUserProfile(uid, auth.currentUser?.email);
+        return toUserProfile(uid, { email: auth.currentUser?.email || '', credits: SIGNUP_CREDITS });
     }
 };
-
-export const deductCredits = async (uid: string, amount: number) => {
-    const docRef = doc(db, "users", uid);
-    await updateDoc(docRef, {
-        credits: increment(-amount)
-    });
-};
-
-export const addCreditsByEmail = async (targetEmail: string, amount: number) => {
-    // Find user by email
-    const usersRef = collection(db, "users");
-    const q = query(usersRef, where("email", "==", targetEmail));
-    const querySnapshot = await getDocs(q);
-
-    if (querySnapshot.empty) {
-        throw new Error("User not found");
-    }
-
-    const userDoc = querySnapshot.docs[0];
-    await updateDoc(userDoc.ref, {
-        credits: increment(amount)
-    });
-};
\ No newline at end of file
@@ -1,6 +1,9 @@
+import { GoogleGenAI, type GenerateContentResponse } from '@google/genai';
+import type { ApiResult, GeminiImagePart, SegmentationTarget } from '../types';
+import type { ImageProvider } from './imageProvider';
 
-import { GoogleGenAI, Modality, type GenerateContentResponse } from '@google/genai';
-import type { GeminiImagePart, ImageResolution } from '../types';
+export const GEMINI_IMAGE_MODEL = 'gemini-3-pro-image-preview';
+export const GEMINI_TEXT_MODEL = 'gemini-3-pro-preview';
 
 const handleGeminiError = (error: unknown, context: string): never => {
   console.error(`Error calling ${context}:`, error);
@@ -17,136 +20,192 @@ const handleGeminiError = (error: unknown, context: string): never => {
   throw new Error(`An unknown error occurred while communicating with the ${context}.`);
 };
 
-export const generateImageWithGemini3 = async (
-  prompt: string,
-  aspectRatio: '1:1' | '16:9' | '9:16' | '4:3' | '3:4',
-  resolution: ImageResolution
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [{ text: prompt }],
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: aspectRatio,
-          imageSize: resolution, // 1K, 2K, or 4K
-        },
-      },
-    });
+// Gemini takes no separate mask input, so the mask travels as the second image
+// and the prompt says how to read it
+const MASK_INSTRUCTION = "The second image is a black and white mask of the first image. Apply the requested changes only inside the white area of the mask and keep everything in the black area exactly as it is. Do not draw the mask itself into the result.";
 
-    // Find the image part in the response
-    let resultImageUrl = '';
-    if (response.candidates && response.candidates[0] && response.candidates[0].content && response.candidates[0].content.parts) {
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-                resultImageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-                break; // Stop after finding the first image
-            }
-        }
-    }
+// The image model has no segmentation output, so it is asked to draw the mask
+const SEGMENT_PROMPTS: Record<SegmentationTarget, string> = {
+  subject: "Create a segmentation mask of this image. Paint the main subject (the person, animal or object the photo is about) pure white and everything else pure black. Keep the exact framing and outline of the original image. Output only the mask, with no other colors, shading or text.",
+  sky: "Create a segmentation mask of this image. Paint the sky, including any clouds in it, pure white and everything else pure black. Keep the exact framing and outline of the original image. Output only the mask, with no other colors, shading or text.",
+};
 
-    if (resultImageUrl) {
-        return resultImageUrl;
-    } else {
-        throw new Error('No image was generated by Gemini 3.');
-    }
+// Created per call so a key picked later through AI Studio is honoured
+const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-  } catch (error) {
-    handleGeminiError(error, "Gemini 3 Image API");
+// Collects the text parts and the first inline image of the first candidate
+const parseImageResponse = (response: GenerateContentResponse): ApiResult => {
+  const parts = response.candidates?.[0]?.content?.parts;
+  if (!parts) {
+    throw new Error('Invalid response structure from API.');
   }
-};
-
 
-export const editImageWithGemini = async (
-  images: GeminiImagePart[],
-  prompt: string,
-  resolution: ImageResolution = '1K', // Add resolution parameter
-  aspectRatio: '1:1' | '16:9' | '9:16' | '4:3' | '3:4' = '1:1'
-): Promise<GenerateContentResponse> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  try {
-    const imageParts = images.map(image => ({
-      inlineData: {
-        data: image.base64Data,
-        mimeType: image.mimeType,
-      },
-    }));
-
-    const textPart = { text: prompt };
-    
-    const allParts = [...imageParts, textPart];
-
-    // Use gemini-3-pro-image-preview for high quality editing and resolution control
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview', 
-      contents: {
-        parts: allParts,
-      },
-      config: {
-        // Gemini 3 Pro Image Preview config for editing
-        imageConfig: {
-             aspectRatio: aspectRatio,
-             imageSize: resolution
-        }
-      },
-    });
+  let text = '';
+  let imageUrl: string | null = null;
+  for (const part of parts) {
+    if (part.text) {
+      text += part.text + '\n';
+    } else if (part.inlineData && !imageUrl) {
+      imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    }
+  }
+  return { text: text.trim() || null, imageUrl, variants: imageUrl ? [imageUrl] : [] };
+};
 
-    return response;
-  } catch (error) {
-    handleGeminiError(error, "Gemini API");
+// The image model returns a single candidate, so variants are separate requests.
+// Fails only when every attempt fails; partial results are kept.
+const collectVariants = async (count: number, request: () => Promise<ApiResult>): Promise<ApiResult> => {
+  const settled = await Promise.allSettled(Array.from({ length: Math.max(1, count) }, () => request()));
+  const results = settled.flatMap(s => (s.status === 'fulfilled' ? [s.value] : []));
+  if (results.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
   }
+  const variants = results.flatMap(r => r.variants);
+  return {
+    text: results.find(r => r.text)?.text ?? null,
+    imageUrl: variants[0] ?? null,
+    variants,
+  };
 };
 
-// Updated function to use Gemini 3 for multimodal prompt refinement
-export const refinePrompt = async (
-    prompt: string, 
-    image: GeminiImagePart | null = null, 
-    language: string = 'en'
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  try {
-    let systemInstruction = "";
-    
-    if (image) {
-         systemInstruction = "You are an expert prompt engineer for AI image editing. I will provide you with an image and a user request. Your task is to analyze the image's subject, style, and composition, and then write a detailed, descriptive prompt that incorporates the user's request into the scene naturally. The output should be a single paragraph description of the final desired image. Output ONLY the refined prompt text.";
-    } else {
-         systemInstruction = "You are an expert prompt engineer for AI image generation. Rewrite the following prompt to be more descriptive, detailed, and effective for an AI image generator. Keep the core intent but enhance the artistic style and lighting descriptions. Output ONLY the refined prompt text.";
+const toInlineData = (image: GeminiImagePart) => ({
+  inlineData: {
+    data: image.base64Data,
+    mimeType: image.mimeType,
+  },
+});
+
+export const createGeminiProvider = (
+  imageModel: string = GEMINI_IMAGE_MODEL,
+  textModel: string = GEMINI_TEXT_MODEL
+): ImageProvider => ({
+  id: 'gemini',
+  capabilities: {
+    label: 'Gemini 3',
+    resolutions: ['1K', '2K', '4K'],
+    aspectRatios: ['1:1', '16:9', '9:16', '4:3', '3:4'],
+    supportsEdit: true,
+    supportsRefine: true,
+    requiresApiKey: true,
+    maxVariants: 4,
+    isMock: false,
+  },
+
+  generate: async ({ prompt, aspectRatio, resolution, variantCount, signal }) => {
+    const result = await collectVariants(variantCount, async () => {
+      try {
+        const response = await getClient().models.generateContent({
+          model: imageModel,
+          contents: {
+            parts: [{ text: prompt }],
+          },
+          config: {
+            imageConfig: {
+              aspectRatio: aspectRatio,
+              imageSize: resolution, // 1K, 2K, or 4K
+            },
+            abortSignal: signal,
+          },
+        });
+        return parseImageResponse(response);
+      } catch (error) {
+        return handleGeminiError(error, "Gemini 3 Image API");
+      }
+    });
+
+    if (!result.imageUrl) {
+      throw new Error('No image was generated by Gemini 3.');
+    }
+    return { ...result, text: null };
+  },
+
+  edit: async ({ images, mask, prompt, aspectRatio, resolution, variantCount, signal }) => collectVariants(variantCount, async () => {
+    const [target, ...references] = images;
+    const imageParts = mask ? [target, mask, ...references] : images;
+    try {
+      const response = await getClient().models.generateContent({
+        model: imageModel,
+        contents: {
+          parts: [...imageParts.map(toInlineData), { text: mask ? `${prompt}\n\n${MASK_INSTRUCTION}` : prompt }],
+        },
+        config: {
+          imageConfig: {
+            aspectRatio: aspectRatio,
+            imageSize: resolution,
+          },
+          abortSignal: signal,
+        },
+      });
+      return parseImageResponse(response);
+    } catch (error) {
+      return handleGeminiError(error, "Gemini API");
     }
+  }),
+
+  refine: async (prompt, image, language, signal) => {
+    try {
+      let systemInstruction = "";
 
-    if (language === 'zh') {
+      if (image) {
+        systemInstruction = "You are an expert prompt engineer for AI image editing. I will provide you with an image and a user request. Your task is to analyze the image's subject, style, and composition, and then write a detailed, descriptive prompt that incorporates the user's request into the scene naturally. The output should be a single paragraph description of the final desired image. Output ONLY the refined prompt text.";
+      } else {
+        systemInstruction = "You are an expert prompt engineer for AI image generation. Rewrite the following prompt to be more descriptive, detailed, and effective for an AI image generator. Keep the core intent but enhance the artistic style and lighting descriptions. Output ONLY the refined prompt text.";
+      }
+
+      if (language === 'zh') {
         systemInstruction += " Please output the result in Traditional Chinese (繁體中文).";
-    }
+      }
 
-    const contents = [];
-    if (image) {
-        contents.push({
-            inlineData: {
-                data: image.base64Data,
-                mimeType: image.mimeType
-            }
-        });
+      const contents = [];
+      if (image) {
+        contents.push(toInlineData(image));
         contents.push({ text: `User Request: ${prompt}\n\nBased on the attached image and the user request, generate a refined prompt.` });
-    } else {
+      } else {
         contents.push({ text: `${systemInstruction}\n\nOriginal Prompt: ${prompt}` });
-    }
+      }
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview', // Supports multimodal input
-      contents: {
+      const response = await getClient().models.generateContent({
+        model: textModel, // Supports multimodal input
+        contents: {
           role: 'user',
           parts: contents
-      },
-      config: {
-          systemInstruction: image ? systemInstruction : undefined
+        },
+        config: {
+          systemInstruction: image ? systemInstruction : undefined,
+          abortSignal: signal,
+        }
+      });
+      return response.text?.trim() || prompt;
+    } catch (error) {
+      console.error("Error calling Gemini 3 API for refinement:", error);
+      return prompt; // Fallback to original prompt on error
+    }
+  },
+
+  segment: async ({ image, target, aspectRatio, signal }) => {
+    try {
+      const response = await getClient().models.generateContent({
+        model: imageModel,
+        contents: {
+          parts: [toInlineData(image), { text: SEGMENT_PROMPTS[target] }],
+        },
+        config: {
+          imageConfig: {
+            aspectRatio: aspectRatio,
+            imageSize: '1K',
+          },
+          abortSignal: signal,
+        },
+      });
+      const result = parseImageResponse(response);
+      if (!result.imageUrl) {
+        throw new Error('No mask was generated by Gemini 3.');
       }
-    });
-    return response.text?.trim() || prompt;
-  } catch (error) {
-    console.error("Error calling Gemini 3 API for refinement:", error);
-    return prompt; // Fallback to original prompt on error
-  }
-};
+      return result;
+    } catch (error) {
+      return handleGeminiError(error, "Gemini 3 Image API");
+    }
+  },
+});
+
+export const geminiImageProvider = createGeminiProvider();
@@ -0,0 +1,72 @@
+import type { Histogram } from '../types';
+import { computeAnalysis, type AnalysisRequest, type AnalysisResponse, type ClippingOptions } from '../lib/histogram';
+
+// Histogram and clipping analysis of the rendered editor canvas. The canvas is
+// scaled down first so a full-resolution photo is never copied out whole, and
+// the counting runs in a worker when the browser allows one.
+
+// Long side of the copy that gets analysed; also the clipping overlay size
+const SAMPLE_SIZE = 512;
+
+export interface CanvasAnalysis {
+    histogram: Histogram;
+    // Sized to the sample, stretched over the canvas; null when clipping is off
+    overlay: ImageData | null;
+}
+
+let worker: Worker | null | undefined;
+let nextRequestId = 0;
+const pending = new Map<number, (response: AnalysisResponse | null) => void>();
+
+const getWorker = (): Worker | null => {
+    if (worker !== undefined) return worker;
+    try {
+        worker = new Worker(new URL('../lib/histogram.worker.ts', import.meta.url), { type: 'module' });
+        worker.addEventListener('message', (e: MessageEvent<AnalysisResponse>) => {
+            pending.get(e.data.id)?.(e.data);
+            pending.delete(e.data.id);
+        });
+        worker.addEventListener('error', e => {
+            console.error("Histogram worker failed, falling back to the main thread", e);
+            worker?.terminate();
+            worker = null;
+            pending.forEach(resolve => resolve(null));
+            pending.clear();
+        });
+    } catch (error) {
+        console.error("Failed to start the histogram worker", error);
+        worker = null;
+    }
+    return worker;
+};
+
+export const analyzeCanvas = async (canvas: HTMLCanvasElement, clipping: ClippingOptions): Promise<CanvasAnalysis | null> => {
+    if (canvas.width === 0 || canvas.height === 0) return null;
+    const scale = Math.min(1, SAMPLE_SIZE / Math.max(canvas.width, canvas.height));
+    const width = Math.max(1, Math.round(canvas.width * scale));
+    const height = Math.max(1, Math.round(canvas.height * scale));
+    const sample = document.createElement('canvas');
+    sample.width = width;
+    sample.height = height;
+    const ctx = sample.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(canvas, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    const request: AnalysisRequest = { id: nextRequestId++, data, width, height, clipping };
+    const target = getWorker();
+    const response = target
+        ? await new Promise<AnalysisResponse | null>(resolve => {
+            pending.set(request.id, resolve);
+            target.postMessage(request, [data.buffer]);
+        })
+        : computeAnalysis(request);
+    if (!response) return null;
+
+    let overlay: ImageData | null = null;
+    if (response.overlay) {
+        overlay = new ImageData(width, height);
+        overlay.data.set(response.overlay);
+    }
+    return { histogram: response.histogram, overlay };
+};
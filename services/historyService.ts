@@ -0,0 +1,74 @@
+import type { HistoryNode } from '../types';
+import { openWorkspaceDb, runRequest, dataUrlToBlob, blobToDataUrl, HISTORY_STORE } from './workspaceStorage';
+
+const TEXT_TO_IMAGE_HISTORY_KEY = 'text-to-image';
+
+// Text-to-image results have no source image, so they hang off the project
+export const getTextToImageHistoryKey = (projectId: string) => `${TEXT_TO_IMAGE_HISTORY_KEY}:${projectId}`;
+
+// Variants are kept as Blobs; the picked one is remembered by index
+interface StoredHistoryNode extends Omit<HistoryNode, 'result'> {
+    result: {
+        text: string | null;
+        selectedIndex: number;
+        variants: Blob[];
+    };
+}
+
+const toStored = (node: HistoryNode): StoredHistoryNode => ({
+    ...node,
+    result: {
+        text: node.result.text,
+        selectedIndex: node.result.imageUrl ? node.result.variants.indexOf(node.result.imageUrl) : -1,
+        variants: node.result.variants.map(dataUrlToBlob),
+    },
+});
+
+const fromStored = async (stored: StoredHistoryNode): Promise<HistoryNode> => {
+    const variants = await Promise.all(stored.result.variants.map(blobToDataUrl));
+    return {
+        ...stored,
+        result: {
+            text: stored.result.text,
+            imageUrl: variants[stored.result.selectedIndex] ?? null,
+            variants,
+        },
+    };
+};
+
+export const loadHistory = async (imageKey: string): Promise<HistoryNode[]> => {
+    const db = await openWorkspaceDb();
+    const index = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('imageKey');
+    const stored = await runRequest(index.getAll(imageKey)) as StoredHistoryNode[];
+    const nodes = await Promise.all(stored.map(fromStored));
+    return nodes.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveHistoryNode = async (node: HistoryNode): Promise<void> => {
+    const db = await openWorkspaceDb();
+    await runRequest(db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE).put(toStored(node)));
+};
+
+export const deleteHistoryNodes = async (ids: string[]): Promise<void> => {
+    const db = await openWorkspaceDb();
+    const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+    await Promise.all(ids.map(id => runRequest(store.delete(id))));
+};
+
+export const clearHistory = async (imageKey: string): Promise<void> => {
+    const db = await openWorkspaceDb();
+    const index = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('imageKey');
+    const ids = await runRequest(index.getAllKeys(imageKey)) as string[];
+    await deleteHistoryNodes(ids);
+};
+
+// The node and everything branched from it
+export const collectSubtree = (nodes: HistoryNode[], rootId: string): string[] => {
+    const ids = [rootId];
+    for (let i = 0; i < ids.length; i++) {
+        nodes.forEach(node => {
+            if (node.parentId === ids[i]) ids.push(node.id);
+        });
+    }
+    return ids;
+};
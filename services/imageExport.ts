@@ -0,0 +1,126 @@
+import type { ExportFormat, ExportOptions } from '../types';
+
+// Encoding and downloading for the shared export dialog. Callers hand over a
+// full-resolution canvas; resizing, flattening and encoding all happen here.
+
+export const EXPORT_FORMATS: Record<ExportFormat, { mimeType: string; extension: string; lossy: boolean; alpha: boolean }> = {
+    png: { mimeType: 'image/png', extension: 'png', lossy: false, alpha: true },
+    jpeg: { mimeType: 'image/jpeg', extension: 'jpg', lossy: true, alpha: false },
+    webp: { mimeType: 'image/webp', extension: 'webp', lossy: true, alpha: true },
+    avif: { mimeType: 'image/avif', extension: 'avif', lossy: true, alpha: true },
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    format: 'jpeg',
+    quality: 92,
+    longEdge: null,
+    preserveTransparency: false,
+    filenameTemplate: '{name}',
+    // Location is left out unless asked for
+    metadataGroups: ['camera', 'capture', 'author'],
+};
+
+const EXPORT_OPTIONS_KEY = 'exportOptions';
+
+export const loadExportOptions = (): ExportOptions => {
+    try {
+        const stored = localStorage.getItem(EXPORT_OPTIONS_KEY);
+        if (stored) return { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(stored) };
+    } catch (e) {
+        console.error("Failed to load export options from localStorage", e);
+    }
+    return DEFAULT_EXPORT_OPTIONS;
+};
+
+export const saveExportOptions = (options: ExportOptions) => {
+    localStorage.setItem(EXPORT_OPTIONS_KEY, JSON.stringify(options));
+};
+
+let supportedFormatsPromise: Promise<ExportFormat[]> | null = null;
+
+// Browsers silently fall back to PNG for types they cannot encode, so each
+// format is probed by encoding a single pixel and checking what comes back.
+export const getSupportedExportFormats = (): Promise<ExportFormat[]> => {
+    if (!supportedFormatsPromise) {
+        const probe = document.createElement('canvas');
+        probe.width = probe.height = 1;
+        const formats = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+        supportedFormatsPromise = Promise.all(formats.map(format =>
+            new Promise<boolean>(resolve => probe.toBlob(blob => resolve(blob?.type === EXPORT_FORMATS[format].mimeType), EXPORT_FORMATS[format].mimeType))
+        )).then(results => formats.filter((_, i) => results[i]));
+    }
+    return supportedFormatsPromise;
+};
+
+export const getExportSize = (width: number, height: number, longEdge: number | null) => {
+    const scale = longEdge ? Math.min(1, longEdge / Math.max(width, height)) : 1;
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+export const encodeExport = (source: HTMLCanvasElement, options: ExportOptions): Promise<Blob> => {
+    const format = EXPORT_FORMATS[options.format];
+    const { width, height } = getExportSize(source.width, source.height, options.longEdge);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.reject(new Error("Could not get canvas context"));
+
+    // Formats without alpha would turn transparent pixels black
+    if (!format.alpha || !options.preserveTransparency) {
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, width, height);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            blob => blob ? resolve(blob) : reject(new Error("Could not encode image")),
+            format.mimeType,
+            format.lossy ? options.quality / 100 : undefined
+        );
+    });
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const formatExportFilename = (template: string, values: { name: string; width: number; height: number; format: ExportFormat }) => {
+    const now = new Date();
+    const name = template
+        .replace(/\{name\}/g, values.name)
+        .replace(/\{date\}/g, `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`)
+        .replace(/\{time\}/g, `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`)
+        .replace(/\{width\}/g, String(values.width))
+        .replace(/\{height\}/g, String(values.height))
+        .replace(/[\\/:*?"<>|]/g, '-')
+        .trim();
+    return `${name || values.name}.${EXPORT_FORMATS[values.format].extension}`;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const loadImageToCanvas = (src: string): Promise<HTMLCanvasElement> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = img.naturalWidth;
+            canvas.height = img.naturalHeight;
+            canvas.getContext('2d')?.drawImage(img, 0, 0);
+            resolve(canvas);
+        };
+        img.onerror = reject;
+        img.src = src;
+    });
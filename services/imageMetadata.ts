@@ -0,0 +1,445 @@
+import type { ImageMetadata, MetadataGroup } from '../types';
+import { crc32 } from '../lib/crc32';
+
+// Minimal EXIF/XMP support for JPEG and PNG. Canvas re-encoding drops every
+// byte of metadata, so fields are read from the original file on upload and
+// written back into the encoded export.
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const AI_SOURCE_TYPE = 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+
+const TAG = {
+    description: 0x010e,
+    make: 0x010f,
+    model: 0x0110,
+    orientation: 0x0112,
+    artist: 0x013b,
+    copyright: 0x8298,
+    exifIfd: 0x8769,
+    gpsIfd: 0x8825,
+    exposureTime: 0x829a,
+    fNumber: 0x829d,
+    iso: 0x8827,
+    dateTimeOriginal: 0x9003,
+    focalLength: 0x920a,
+    lensModel: 0xa434,
+    gpsLatitudeRef: 0x0001,
+    gpsLatitude: 0x0002,
+    gpsLongitudeRef: 0x0003,
+    gpsLongitude: 0x0004,
+    gpsAltitudeRef: 0x0005,
+    gpsAltitude: 0x0006,
+};
+
+const BYTE = 1, ASCII = 2, SHORT = 3, LONG = 4, RATIONAL = 5;
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type TiffValue = string | number[];
+
+interface ParsedMetadata {
+    metadata: ImageMetadata;
+    orientation: number;
+}
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+// --- Reading ---
+
+const readIfd = (view: DataView, tiffStart: number, offset: number, little: boolean): Map<number, TiffValue> => {
+    const entries = new Map<number, TiffValue>();
+    const count = view.getUint16(tiffStart + offset, little);
+    for (let i = 0; i < count; i++) {
+        const entry = tiffStart + offset + 2 + i * 12;
+        const tag = view.getUint16(entry, little);
+        const type = view.getUint16(entry + 2, little);
+        const valueCount = view.getUint32(entry + 4, little);
+        const size = (TYPE_SIZES[type] || 0) * valueCount;
+        if (!size) continue;
+        const data = size <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, little);
+
+        if (type === ASCII) {
+            const bytes = new Uint8Array(view.buffer, view.byteOffset + data, valueCount);
+            const end = bytes.indexOf(0);
+            entries.set(tag, new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end)).trim());
+            continue;
+        }
+        const values: number[] = [];
+        for (let j = 0; j < valueCount; j++) {
+            if (type === SHORT) values.push(view.getUint16(data + j * 2, little));
+            else if (type === LONG) values.push(view.getUint32(data + j * 4, little));
+            else if (type === 9) values.push(view.getInt32(data + j * 4, little));
+            else if (type === RATIONAL || type === 10) {
+                const read = type === RATIONAL ? view.getUint32.bind(view) : view.getInt32.bind(view);
+                const denominator = read(data + j * 8 + 4, little);
+                values.push(denominator ? read(data + j * 8, little) / denominator : 0);
+            } else values.push(view.getUint8(data + j));
+        }
+        entries.set(tag, values);
+    }
+    return entries;
+};
+
+const toDegrees = (dms: TiffValue | undefined, ref: TiffValue | undefined) => {
+    if (!Array.isArray(dms) || dms.length < 3) return undefined;
+    const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+    return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+const parseTiff = (view: DataView, tiffStart: number): ParsedMetadata => {
+    const little = view.getUint16(tiffStart) === 0x4949;
+    const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+    const pointer = (tag: number) => (ifd0.get(tag) as number[] | undefined)?.[0];
+    const exifOffset = pointer(TAG.exifIfd);
+    const gpsOffset = pointer(TAG.gpsIfd);
+    const exif = exifOffset ? readIfd(view, tiffStart, exifOffset, little) : new Map<number, TiffValue>();
+    const gps = gpsOffset ? readIfd(view, tiffStart, gpsOffset, little) : new Map<number, TiffValue>();
+
+    const text = (ifd: Map<number, TiffValue>, tag: number) => {
+        const value = ifd.get(tag);
+        return typeof value === 'string' && value ? value : undefined;
+    };
+    const number = (ifd: Map<number, TiffValue>, tag: number) => {
+        const value = ifd.get(tag);
+        return Array.isArray(value) && value.length > 0 ? value[0] : undefined;
+    };
+
+    const metadata: ImageMetadata = {
+        make: text(ifd0, TAG.make),
+        model: text(ifd0, TAG.model),
+        lensModel: text(exif, TAG.lensModel),
+        dateTimeOriginal: text(exif, TAG.dateTimeOriginal),
+        exposureTime: number(exif, TAG.exposureTime),
+        fNumber: number(exif, TAG.fNumber),
+        iso: number(exif, TAG.iso),
+        focalLength: number(exif, TAG.focalLength),
+        artist: text(ifd0, TAG.artist),
+        copyright: text(ifd0, TAG.copyright),
+        description: text(ifd0, TAG.description),
+    };
+    const latitude = toDegrees(gps.get(TAG.gpsLatitude), gps.get(TAG.gpsLatitudeRef));
+    const longitude = toDegrees(gps.get(TAG.gpsLongitude), gps.get(TAG.gpsLongitudeRef));
+    if (latitude !== undefined && longitude !== undefined) {
+        const altitude = number(gps, TAG.gpsAltitude);
+        metadata.gps = {
+            latitude,
+            longitude,
+            altitude: altitude !== undefined && number(gps, TAG.gpsAltitudeRef) === 1 ? -altitude : altitude,
+        };
+    }
+    return { metadata, orientation: number(ifd0, TAG.orientation) ?? 1 };
+};
+
+// Finds the EXIF TIFF block and XMP packet of a JPEG or PNG
+const findMetadataBlocks = (bytes: Uint8Array): { tiffStart: number | null; xmp: string | null } => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let tiffStart: number | null = null;
+    let xmp: string | null = null;
+
+    if (view.getUint16(0) === 0xffd8) {
+        let offset = 2;
+        while (offset + 4 <= bytes.length) {
+            const marker = view.getUint16(offset);
+            if (marker === 0xffda || marker === 0xffd9 || (marker & 0xff00) !== 0xff00) break;
+            const length = view.getUint16(offset + 2);
+            if (marker === 0xffe1) {
+                if (ascii(bytes, offset + 4, EXIF_HEADER.length) === EXIF_HEADER) {
+                    tiffStart = offset + 4 + EXIF_HEADER.length;
+                } else if (ascii(bytes, offset + 4, XMP_HEADER.length) === XMP_HEADER) {
+                    xmp = new TextDecoder().decode(bytes.subarray(offset + 4 + XMP_HEADER.length, offset + 2 + length));
+                }
+            }
+            offset += 2 + length;
+        }
+    } else if (PNG_SIGNATURE.every((b, i) => bytes[i] === b)) {
+        let offset = 8;
+        while (offset + 8 <= bytes.length) {
+            const length = view.getUint32(offset);
+            const type = ascii(bytes, offset + 4, 4);
+            if (type === 'eXIf') {
+                tiffStart = offset + 8;
+            } else if (type === 'iTXt' && ascii(bytes, offset + 8, 18) === 'XML:com.adobe.xmp\0') {
+                // Keyword, compression flag and method, then empty language and translated keyword
+                xmp = new TextDecoder().decode(bytes.subarray(offset + 8 + 22, offset + 8 + length));
+            } else if (type === 'IDAT' || type === 'IEND') {
+                break;
+            }
+            offset += 12 + length;
+        }
+    }
+    return { tiffStart, xmp };
+};
+
+const readMetadataBytes = (bytes: Uint8Array): ParsedMetadata | null => {
+    try {
+        const { tiffStart, xmp } = findMetadataBlocks(bytes);
+        if (tiffStart === null && xmp === null) return null;
+        const parsed = tiffStart !== null
+            ? parseTiff(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength), tiffStart)
+            : { metadata: {}, orientation: 1 };
+        if (xmp?.includes(AI_SOURCE_TYPE)) parsed.metadata.aiGenerated = true;
+        // Drop fields the file did not have so the object stays small in storage
+        (Object.keys(parsed.metadata) as (keyof ImageMetadata)[]).forEach(key => {
+            if (parsed.metadata[key] === undefined) delete parsed.metadata[key];
+        });
+        return parsed;
+    } catch (e) {
+        console.error("Failed to read image metadata", e);
+        return null;
+    }
+};
+
+export const readImageMetadata = async (blob: Blob): Promise<ImageMetadata | null> =>
+    readMetadataBytes(new Uint8Array(await blob.arrayBuffer()))?.metadata ?? null;
+
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+
+// Reads an uploaded file. Rotated photos are redrawn upright so every later
+// canvas step sees the same pixels the browser displays.
+export const readUploadedFile = async (file: File): Promise<{ dataUrl: string; metadata: ImageMetadata | null }> => {
+    const parsed = readMetadataBytes(new Uint8Array(await file.arrayBuffer()));
+    const metadata = parsed && Object.keys(parsed.metadata).length > 0 ? parsed.metadata : null;
+    if (!parsed || parsed.orientation === 1) {
+        return { dataUrl: await readAsDataUrl(file), metadata };
+    }
+
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    return { dataUrl: canvas.toDataURL(type, 0.95), metadata };
+};
+
+// --- Writing ---
+
+interface TiffEntry {
+    tag: number;
+    type: number;
+    value: TiffValue;
+}
+
+const toRational = (value: number): [number, number] => {
+    if (Number.isInteger(value)) return [value, 1];
+    // Exposure times read best as 1/250 rather than 4/1000
+    if (value > 0 && value < 1 && Number.isInteger(Math.round(1 / value * 1000) / 1000)) return [1, Math.round(1 / value)];
+    return [Math.round(value * 10000), 10000];
+};
+
+const entryBytes = ({ type, value }: TiffEntry): Uint8Array => {
+    if (typeof value === 'string') {
+        const text = new TextEncoder().encode(value);
+        const bytes = new Uint8Array(text.length + 1);
+        bytes.set(text);
+        return bytes;
+    }
+    const bytes = new Uint8Array(value.length * TYPE_SIZES[type]);
+    const view = new DataView(bytes.buffer);
+    value.forEach((v, i) => {
+        if (type === BYTE) view.setUint8(i, v);
+        else if (type === SHORT) view.setUint16(i * 2, v);
+        else if (type === LONG) view.setUint32(i * 4, v);
+        else {
+            const [numerator, denominator] = toRational(v);
+            view.setUint32(i * 8, numerator);
+            view.setUint32(i * 8 + 4, denominator);
+        }
+    });
+    return bytes;
+};
+
+const ifdSize = (entries: TiffEntry[]) =>
+    2 + entries.length * 12 + 4 + entries.reduce((sum, entry) => {
+        const length = entryBytes(entry).length;
+        return sum + (length > 4 ? length + (length % 2) : 0);
+    }, 0);
+
+const writeIfd = (bytes: Uint8Array, offset: number, entries: TiffEntry[]) => {
+    const view = new DataView(bytes.buffer);
+    const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+    let dataOffset = offset + 2 + sorted.length * 12 + 4;
+    view.setUint16(offset, sorted.length);
+    sorted.forEach((entry, i) => {
+        const at = offset + 2 + i * 12;
+        const data = entryBytes(entry);
+        view.setUint16(at, entry.tag);
+        view.setUint16(at + 2, entry.type);
+        view.setUint32(at + 4, typeof entry.value === 'string' ? data.length : entry.value.length);
+        if (data.length <= 4) {
+            bytes.set(data, at + 8);
+        } else {
+            view.setUint32(at + 8, dataOffset);
+            bytes.set(data, dataOffset);
+            dataOffset += data.length + (data.length % 2);
+        }
+    });
+    view.setUint32(offset + 2 + sorted.length * 12, 0);
+};
+
+// Big-endian TIFF block with IFD0 followed by the Exif and GPS sub-IFDs
+const buildTiff = (ifd0: TiffEntry[], exif: TiffEntry[], gps: TiffEntry[]): Uint8Array | null => {
+    if (ifd0.length + exif.length + gps.length === 0) return null;
+    const root = [...ifd0];
+    const exifPointer: TiffEntry = { tag: TAG.exifIfd, type: LONG, value: [0] };
+    const gpsPointer: TiffEntry = { tag: TAG.gpsIfd, type: LONG, value: [0] };
+    if (exif.length) root.push(exifPointer);
+    if (gps.length) root.push(gpsPointer);
+
+    const exifOffset = 8 + ifdSize(root);
+    const gpsOffset = exifOffset + (exif.length ? ifdSize(exif) : 0);
+    exifPointer.value = [exifOffset];
+    gpsPointer.value = [gpsOffset];
+
+    const bytes = new Uint8Array(gpsOffset + (gps.length ? ifdSize(gps) : 0));
+    const view = new DataView(bytes.buffer);
+    view.setUint16(0, 0x4d4d);
+    view.setUint16(2, 42);
+    view.setUint32(4, 8);
+    writeIfd(bytes, 8, root);
+    if (exif.length) writeIfd(bytes, exifOffset, exif);
+    if (gps.length) writeIfd(bytes, gpsOffset, gps);
+    return bytes;
+};
+
+const pickMetadata = (metadata: ImageMetadata, groups: MetadataGroup[]) => {
+    const ifd0: TiffEntry[] = [];
+    const exif: TiffEntry[] = [];
+    const gps: TiffEntry[] = [];
+    const text = (list: TiffEntry[], tag: number, value?: string) => { if (value) list.push({ tag, type: ASCII, value }); };
+    const rational = (list: TiffEntry[], tag: number, value?: number) => { if (value !== undefined && value > 0) list.push({ tag, type: RATIONAL, value: [value] }); };
+
+    if (groups.includes('camera')) {
+        text(ifd0, TAG.make, metadata.make);
+        text(ifd0, TAG.model, metadata.model);
+        text(exif, TAG.lensModel, metadata.lensModel);
+    }
+    if (groups.includes('capture')) {
+        text(exif, TAG.dateTimeOriginal, metadata.dateTimeOriginal);
+        rational(exif, TAG.exposureTime, metadata.exposureTime);
+        rational(exif, TAG.fNumber, metadata.fNumber);
+        rational(exif, TAG.focalLength, metadata.focalLength);
+        if (metadata.iso) exif.push({ tag: TAG.iso, type: SHORT, value: [Math.min(metadata.iso, 65535)] });
+    }
+    if (groups.includes('author')) {
+        text(ifd0, TAG.artist, metadata.artist);
+        text(ifd0, TAG.copyright, metadata.copyright);
+        text(ifd0, TAG.description, metadata.description);
+    }
+    if (groups.includes('location') && metadata.gps) {
+        const dms = (degrees: number) => {
+            const abs = Math.abs(degrees);
+            const minutes = (abs % 1) * 60;
+            return [Math.floor(abs), Math.floor(minutes), Math.round((minutes % 1) * 60 * 100) / 100];
+        };
+        const { latitude, longitude, altitude } = metadata.gps;
+        gps.push(
+            { tag: TAG.gpsLatitudeRef, type: ASCII, value: latitude < 0 ? 'S' : 'N' },
+            { tag: TAG.gpsLatitude, type: RATIONAL, value: dms(latitude) },
+            { tag: TAG.gpsLongitudeRef, type: ASCII, value: longitude < 0 ? 'W' : 'E' },
+            { tag: TAG.gpsLongitude, type: RATIONAL, value: dms(longitude) },
+        );
+        if (altitude !== undefined) {
+            gps.push(
+                { tag: TAG.gpsAltitudeRef, type: BYTE, value: [altitude < 0 ? 1 : 0] },
+                { tag: TAG.gpsAltitude, type: RATIONAL, value: [Math.abs(altitude)] },
+            );
+        }
+    }
+    return { ifd0, exif, gps };
+};
+
+const escapeXml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const buildXmp = (metadata: ImageMetadata, groups: MetadataGroup[], aiGenerated: boolean): string | null => {
+    const author = groups.includes('author');
+    const fields: string[] = [];
+    if (author && metadata.artist) fields.push(`<dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.artist)}</rdf:li></rdf:Seq></dc:creator>`);
+    if (author && metadata.copyright) fields.push(`<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.copyright)}</rdf:li></rdf:Alt></dc:rights>`);
+    if (author && metadata.description) fields.push(`<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.description)}</rdf:li></rdf:Alt></dc:description>`);
+    if (!aiGenerated && fields.length === 0) return null;
+
+    // IPTC's digital source type is what content-credential tooling reads to flag AI imagery
+    const sourceType = aiGenerated ? ` Iptc4xmpExt:DigitalSourceType="${AI_SOURCE_TYPE}"` : '';
+    return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>` +
+        `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">` +
+        `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"${sourceType}>` +
+        fields.join('') +
+        `</rdf:Description></rdf:RDF></x:xmpmeta><?xpacket end="w"?>`;
+};
+
+const concat = (parts: Uint8Array[]) => {
+    const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => { bytes.set(part, offset); offset += part.length; });
+    return bytes;
+};
+
+const jpegSegment = (header: string, payload: Uint8Array) => {
+    const head = new TextEncoder().encode(header);
+    const segment = new Uint8Array(4 + head.length + payload.length);
+    const view = new DataView(segment.buffer);
+    view.setUint16(0, 0xffe1);
+    view.setUint16(2, 2 + head.length + payload.length);
+    segment.set(head, 4);
+    segment.set(payload, 4 + head.length);
+    return segment;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(new TextEncoder().encode(type), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+// Writes the chosen metadata groups into an encoded JPEG or PNG. Other formats
+// are returned unchanged.
+export const writeImageMetadata = async (
+    blob: Blob,
+    metadata: ImageMetadata | null,
+    groups: MetadataGroup[],
+    aiGenerated: boolean
+): Promise<Blob> => {
+    const { ifd0, exif, gps } = pickMetadata(metadata ?? {}, groups);
+    const tiff = buildTiff(ifd0, exif, gps);
+    const xmp = buildXmp(metadata ?? {}, groups, aiGenerated);
+    if (!tiff && !xmp) return blob;
+
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const xmpBytes = xmp ? new TextEncoder().encode(xmp) : null;
+
+    if (blob.type === 'image/jpeg') {
+        const view = new DataView(bytes.buffer);
+        // Keep the JFIF header first if the encoder wrote one
+        const insertAt = view.getUint16(2) === 0xffe0 ? 4 + view.getUint16(4) : 2;
+        const segments: Uint8Array[] = [];
+        if (tiff) segments.push(jpegSegment(EXIF_HEADER, tiff));
+        if (xmpBytes) segments.push(jpegSegment(XMP_HEADER, xmpBytes));
+        return new Blob([concat([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)])], { type: blob.type });
+    }
+
+    if (blob.type === 'image/png') {
+        // Right after IHDR: signature (8) + IHDR chunk (25)
+        const insertAt = 33;
+        const chunks: Uint8Array[] = [];
+        if (tiff) chunks.push(pngChunk('eXIf', tiff));
+        if (xmpBytes) chunks.push(pngChunk('iTXt', concat([new TextEncoder().encode('XML:com.adobe.xmp\0\0\0\0\0'), xmpBytes])));
+        return new Blob([concat([bytes.subarray(0, insertAt), ...chunks, bytes.subarray(insertAt)])], { type: blob.type });
+    }
+
+    return blob;
+};
@@ -0,0 +1,102 @@
+import type { ApiResult, AspectRatio, GeminiImagePart, ImageProviderId, ImageResolution, Language, SegmentationTarget } from '../types';
+import { geminiImageProvider } from './geminiService';
+import { mockImageProvider } from './mockImageProvider';
+
+export interface ImageProviderCapabilities {
+  label: string;
+  resolutions: ImageResolution[];
+  aspectRatios: AspectRatio[];
+  supportsEdit: boolean;
+  supportsRefine: boolean;
+  requiresApiKey: boolean;
+  maxVariants: number;
+  // Placeholder results for development: only offered to developers, never charged
+  isMock: boolean;
+}
+
+export interface GenerateImageRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  resolution: ImageResolution;
+  variantCount: number;
+  // Aborts the call, e.g. when its job is cancelled or times out
+  signal?: AbortSignal;
+}
+
+export interface EditImageRequest extends GenerateImageRequest {
+  // The first image is the edit target, the rest are references
+  images: GeminiImagePart[];
+  // Black/white mask the size of the edit target; only the white area may change
+  mask?: GeminiImagePart;
+}
+
+export interface SegmentImageRequest {
+  image: GeminiImagePart;
+  target: SegmentationTarget;
+  // Closest supported ratio to the image, so the mask keeps its framing
+  aspectRatio: AspectRatio;
+  signal?: AbortSignal;
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  capabilities: ImageProviderCapabilities;
+  // Text-to-image. Throws if the provider returns no image at all.
+  // `variants` may hold fewer than `variantCount` images when some attempts fail.
+  generate: (request: GenerateImageRequest) => Promise<ApiResult>;
+  // Image-to-image. May return text only if the model declined to draw.
+  edit: (request: EditImageRequest) => Promise<ApiResult>;
+  // Never throws: falls back to the original prompt on failure.
+  refine: (prompt: string, image: GeminiImagePart | null, language: Language, signal?: AbortSignal) => Promise<string>;
+  // Black and white mask of `target` as `imageUrl`, white where it is.
+  // The mask may come back at any size; callers stretch it over the image.
+  segment: (request: SegmentImageRequest) => Promise<ApiResult>;
+}
+
+const PROVIDER_STORAGE_KEY = 'imageProvider';
+const DEFAULT_PROVIDER_ID: ImageProviderId = 'gemini';
+
+const providers: Record<ImageProviderId, ImageProvider> = {
+  gemini: geminiImageProvider,
+  mock: mockImageProvider,
+};
+
+// Mock providers are available in dev builds, and to admins once signed in
+let isMockEnabled = import.meta.env.DEV;
+
+export const setMockProvidersEnabled = (forAdmin: boolean) => {
+  isMockEnabled = import.meta.env.DEV || forAdmin;
+};
+
+const isAvailable = (provider: ImageProvider) => isMockEnabled || !provider.capabilities.isMock;
+
+export const listImageProviders = (): ImageProvider[] => Object.values(providers).filter(isAvailable);
+
+// Falls back to the default when the stored provider is not available
+export const getImageProviderId = (): ImageProviderId => {
+  const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+  return stored && stored in providers && isAvailable(providers[stored as ImageProviderId])
+    ? (stored as ImageProviderId)
+    : DEFAULT_PROVIDER_ID;
+};
+
+export const setImageProviderId = (id: ImageProviderId) => {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+};
+
+// Providers only draw the ratios below; picks the nearest one for an image
+export const getClosestAspectRatio = (width: number, height: number): AspectRatio => {
+  const ratio = width / height;
+  const targets = [
+    { r: 1, val: '1:1' as const },
+    { r: 16/9, val: '16:9' as const },
+    { r: 9/16, val: '9:16' as const },
+    { r: 4/3, val: '4:3' as const },
+    { r: 3/4, val: '3:4' as const }
+  ];
+  return targets.reduce((prev, curr) =>
+    Math.abs(curr.r - ratio) < Math.abs(prev.r - ratio) ? curr : prev
+  ).val;
+};
+
+export const getImageProvider = (id: ImageProviderId = getImageProviderId()): ImageProvider => providers[id];
@@ -0,0 +1,166 @@
+import type { Job } from '../types';
+
+// Client-side queue around image provider calls. Jobs run a few at a time,
+// retry with exponential backoff when the provider reports a rate limit, and
+// can be cancelled or time out. Cancelled and timed-out jobs reject with
+// 'CANCELLED' and 'TIMEOUT'; other errors are passed through unchanged.
+
+const MAX_RUNNING_JOBS = 2;
+const DEFAULT_TIMEOUT_MS = 180_000;
+const DEFAULT_MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 2_000;
+const BACKOFF_MAX_MS = 30_000;
+// Finished jobs stay listed so failures can still be read in the jobs panel
+const MAX_FINISHED_JOBS = 20;
+
+export interface JobOptions {
+    timeoutMs?: number;
+    maxRetries?: number;
+}
+
+interface WaitingJob {
+    id: string;
+    start: () => void;
+}
+
+let jobs: Job[] = [];
+let runningCount = 0;
+const waiting: WaitingJob[] = [];
+const controllers = new Map<string, AbortController>();
+const listeners = new Set<(jobs: Job[]) => void>();
+
+const isActive = (job: Job) => job.status === 'pending' || job.status === 'running' || job.status === 'retrying';
+
+const emit = () => listeners.forEach(listener => listener(jobs));
+
+const updateJob = (id: string, patch: Partial<Job>) => {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...patch } : job);
+    emit();
+};
+
+const trimFinished = (list: Job[]) => {
+    const finished = list.filter(job => !isActive(job));
+    const drop = new Set(finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)));
+    return list.filter(job => !drop.has(job));
+};
+
+const startNext = () => {
+    while (runningCount < MAX_RUNNING_JOBS && waiting.length > 0) {
+        waiting.shift()!.start();
+    }
+};
+
+// Full jitter keeps several rate-limited jobs from retrying in lockstep
+const getBackoffDelay = (attempt: number) =>
+    Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1));
+
+const sleep = (ms: number, signal: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        const onAbort = () => { clearTimeout(timer); reject(new Error('CANCELLED')); };
+        const timer = setTimeout(() => { signal.removeEventListener('abort', onAbort); resolve(); }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+// Set on CANCELLED and TIMEOUT errors thrown while an attempt was running:
+// that attempt's own outcome once `run` gives up too, null if it failed
+const abandonedResults = new WeakMap<Error, Promise<unknown>>();
+
+// Resolves with what the attempt cut off by a CANCELLED or TIMEOUT `error`
+// produced anyway, or null when nothing was running or it failed. Paid calls
+// use it to refund only work that was never done.
+export const getAbandonedResult = (error: unknown): Promise<unknown> =>
+    (error instanceof Error && abandonedResults.get(error)) || Promise.resolve(null);
+
+// One try of `run` with its own signal. The returned promise settles as soon as
+// the job is cancelled or times out, even if `run` ignores its signal.
+const runAttempt = <T>(run: (signal: AbortSignal) => Promise<T>, jobSignal: AbortSignal, timeoutMs: number): Promise<T> => {
+    const attempt = new AbortController();
+    return new Promise<T>((resolve, reject) => {
+        const running = run(attempt.signal);
+        const fail = (code: string) => {
+            attempt.abort();
+            const error = new Error(code);
+            abandonedResults.set(error, running.catch(() => null));
+            reject(error);
+        };
+        const onCancel = () => fail('CANCELLED');
+        const timer = setTimeout(() => fail('TIMEOUT'), timeoutMs);
+        jobSignal.addEventListener('abort', onCancel, { once: true });
+
+        running.then(resolve, reject).finally(() => {
+            clearTimeout(timer);
+            jobSignal.removeEventListener('abort', onCancel);
+        });
+    });
+};
+
+export const subscribeJobs = (listener: (jobs: Job[]) => void) => {
+    listeners.add(listener);
+    listener(jobs);
+    return () => { listeners.delete(listener); };
+};
+
+export const enqueueJob = <T>(
+    label: string,
+    run: (signal: AbortSignal) => Promise<T>,
+    { timeoutMs = DEFAULT_TIMEOUT_MS, maxRetries = DEFAULT_MAX_RETRIES }: JobOptions = {}
+): { id: string; promise: Promise<T> } => {
+    const id = `job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    jobs = [...trimFinished(jobs), { id, label, status: 'pending', attempts: 0, createdAt: Date.now() }];
+    emit();
+
+    const execute = async (): Promise<T> => {
+        for (let attempt = 1; ; attempt++) {
+            if (controller.signal.aborted) throw new Error('CANCELLED');
+            updateJob(id, { status: 'running', attempts: attempt, retryAt: undefined });
+            try {
+                return await runAttempt(run, controller.signal, timeoutMs);
+            } catch (error) {
+                const rateLimited = error instanceof Error && error.message === 'RATE_LIMIT_EXCEEDED';
+                if (!rateLimited || attempt > maxRetries) throw error;
+                const delay = getBackoffDelay(attempt);
+                updateJob(id, { status: 'retrying', retryAt: Date.now() + delay });
+                await sleep(delay, controller.signal);
+            }
+        }
+    };
+
+    const promise = new Promise<T>((resolve, reject) => {
+        waiting.push({
+            id,
+            start: () => {
+                runningCount++;
+                execute()
+                    .then(result => {
+                        updateJob(id, { status: 'done' });
+                        resolve(result);
+                    }, (error: unknown) => {
+                        const message = error instanceof Error ? error.message : String(error);
+                        updateJob(id, { status: message === 'CANCELLED' ? 'cancelled' : 'failed', error: message, retryAt: undefined });
+                        reject(error);
+                    })
+                    .finally(() => {
+                        runningCount--;
+                        controllers.delete(id);
+                        startNext();
+                    });
+            },
+        });
+        startNext();
+    });
+    return { id, promise };
+};
+
+export const cancelJob = (id: string) => {
+    controllers.get(id)?.abort();
+    // A job that never started is settled right away instead of waiting for a free slot
+    const index = waiting.findIndex(job => job.id === id);
+    if (index >= 0) waiting.splice(index, 1)[0].start();
+};
+
+export const clearFinishedJobs = () => {
+    jobs = jobs.filter(isActive);
+    emit();
+};
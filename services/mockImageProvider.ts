@@ -0,0 +1,202 @@
+import type { AspectRatio, GeminiImagePart, ImageResolution } from '../types';
+import type { ImageProvider } from './imageProvider';
+import { segmentLocally } from '../lib/segmentation';
+
+// Offline stand-in for the Gemini provider. Output depends only on the
+// request, so the same prompt and inputs always render the same image.
+
+const MOCK_LATENCY_MS = 800;
+
+// Long edge the local segmentation stand-in works at
+const SEGMENT_EDGE = 384;
+
+const LONG_EDGE: Record<ImageResolution, number> = {
+  '1K': 1024,
+  '2K': 2048,
+  '4K': 4096,
+};
+
+const RATIOS: Record<AspectRatio, number> = {
+  '1:1': 1,
+  '16:9': 16 / 9,
+  '9:16': 9 / 16,
+  '4:3': 4 / 3,
+  '3:4': 3 / 4,
+};
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('Mock request aborted.'));
+    }, { once: true });
+  });
+
+// FNV-1a, enough to spread prompts across the hue wheel
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const getDimensions = (aspectRatio: AspectRatio, resolution: ImageResolution) => {
+  const longEdge = LONG_EDGE[resolution];
+  const ratio = RATIOS[aspectRatio];
+  return ratio >= 1
+    ? { width: longEdge, height: Math.round(longEdge / ratio) }
+    : { width: Math.round(longEdge * ratio), height: longEdge };
+};
+
+const loadImage = (image: GeminiImagePart): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Mock provider could not decode the input image.'));
+    img.src = `data:${image.mimeType};base64,${image.base64Data}`;
+  });
+
+const drawCaption = (ctx: CanvasRenderingContext2D, width: number, height: number, lines: string[]) => {
+  const fontSize = Math.round(width / 40);
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.textBaseline = 'bottom';
+  const boxHeight = (lines.length + 1) * fontSize * 1.3;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(0, height - boxHeight, width, boxHeight);
+  ctx.fillStyle = '#ffffff';
+  lines.forEach((line, i) => {
+    ctx.fillText(line, fontSize, height - boxHeight + (i + 1.5) * fontSize * 1.3, width - fontSize * 2);
+  });
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Mock provider could not create a canvas context.');
+  return { canvas, ctx };
+};
+
+// Draws `image` scaled to cover the whole canvas, centred
+const drawCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number) => {
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+// Solid tint whose alpha follows the mask's brightness, so it only covers the white area
+const createMaskedTint = (mask: HTMLImageElement | null, width: number, height: number, color: string) => {
+  const { canvas, ctx } = createCanvas(width, height);
+  if (!mask) {
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, width, height);
+    return canvas;
+  }
+  drawCover(ctx, mask, width, height);
+  const pixels = ctx.getImageData(0, 0, width, height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = pixels.data[i];
+  }
+  ctx.putImageData(pixels, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, width, height);
+  return canvas;
+};
+
+export const mockImageProvider: ImageProvider = {
+  id: 'mock',
+  capabilities: {
+    label: 'Offline Mock',
+    resolutions: ['1K', '2K', '4K'],
+    aspectRatios: ['1:1', '16:9', '9:16', '4:3', '3:4'],
+    supportsEdit: true,
+    supportsRefine: true,
+    requiresApiKey: false,
+    maxVariants: 4,
+    isMock: true,
+  },
+
+  generate: async ({ prompt, aspectRatio, resolution, variantCount, signal }) => {
+    await delay(MOCK_LATENCY_MS, signal);
+    const { width, height } = getDimensions(aspectRatio, resolution);
+
+    const variants = Array.from({ length: Math.max(1, variantCount) }, (_, index) => {
+      const { canvas, ctx } = createCanvas(width, height);
+      const hue = hashString(`${prompt}#${index}`) % 360;
+      const gradient = ctx.createLinearGradient(0, 0, width, height);
+      gradient.addColorStop(0, `hsl(${hue}, 70%, 45%)`);
+      gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 70%, 25%)`);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+
+      drawCaption(ctx, width, height, [`MOCK ${resolution} ${aspectRatio} #${index + 1}`, prompt]);
+      return canvas.toDataURL('image/png');
+    });
+    return { text: null, imageUrl: variants[0], variants };
+  },
+
+  edit: async ({ images, mask, prompt, aspectRatio, resolution, variantCount, signal }) => {
+    await delay(MOCK_LATENCY_MS, signal);
+    if (images.length === 0) {
+      throw new Error('Mock provider needs at least one image to edit.');
+    }
+    const { width, height } = getDimensions(aspectRatio, resolution);
+    const source = await loadImage(images[0]);
+    const maskImage = mask ? await loadImage(mask) : null;
+
+    const variants = Array.from({ length: Math.max(1, variantCount) }, (_, index) => {
+      const { canvas, ctx } = createCanvas(width, height);
+      // Cover-fit the target so the output honours the requested aspect ratio
+      drawCover(ctx, source, width, height);
+
+      const hue = hashString(`${prompt}#${index}`) % 360;
+      ctx.globalCompositeOperation = 'color';
+      ctx.globalAlpha = 0.35;
+      ctx.drawImage(createMaskedTint(maskImage, width, height, `hsl(${hue}, 80%, 50%)`), 0, 0);
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.globalAlpha = 1;
+
+      drawCaption(ctx, width, height, [`MOCK EDIT ${resolution} ${aspectRatio} #${index + 1} (${images.length} image${images.length > 1 ? 's' : ''}${mask ? ', masked' : ''})`, prompt]);
+      return canvas.toDataURL('image/png');
+    });
+    return { text: `[mock] ${prompt.split('\n')[0]}`, imageUrl: variants[0], variants };
+  },
+
+  refine: async (prompt, image, language, signal) => {
+    try {
+      await delay(MOCK_LATENCY_MS / 2, signal);
+    } catch {
+      return prompt; // Aborted: fall back like the Gemini provider
+    }
+    const suffix = language === 'zh'
+      ? '，電影感光影，細節豐富，高畫質'
+      : ', cinematic lighting, rich detail, high resolution';
+    return `${prompt}${suffix}${image ? ' [ref]' : ''}`;
+  },
+
+  segment: async ({ image, target, signal }) => {
+    await delay(MOCK_LATENCY_MS, signal);
+    const source = await loadImage(image);
+    const scale = Math.min(1, SEGMENT_EDGE / Math.max(source.naturalWidth, source.naturalHeight));
+    const width = Math.max(1, Math.round(source.naturalWidth * scale));
+    const height = Math.max(1, Math.round(source.naturalHeight * scale));
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(source, 0, 0, width, height);
+    const pixels = ctx.getImageData(0, 0, width, height);
+    const mask = segmentLocally(pixels, target);
+    for (let p = 0; p < mask.length; p++) {
+      const i = p * 4;
+      pixels.data[i] = pixels.data[i + 1] = pixels.data[i + 2] = mask[p];
+      pixels.data[i + 3] = 255;
+    }
+    ctx.putImageData(pixels, 0, 0);
+    const imageUrl = canvas.toDataURL('image/png');
+    return { text: null, imageUrl, variants: [imageUrl] };
+  },
+};
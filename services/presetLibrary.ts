@@ -0,0 +1,100 @@
+import type { AdjustmentPreset } from '../types';
+import { openWorkspaceDb, runRequest, dataUrlToBlob, blobToDataUrl, PRESET_STORE } from './workspaceStorage';
+import { INITIAL_ADJUSTMENTS, normalizeAdjustments } from '../lib/imageAdjustments';
+import { parseLightroomXmp } from '../lib/lightroomXmp';
+import { parseCubeLut } from '../lib/cubeLut';
+
+// The user's adjustment presets. Stored next to the workspace in IndexedDB
+// and exchanged with other installs as JSON files. Lightroom .xmp presets and
+// .cube LUTs can be imported too.
+
+const PRESET_FILE_FORMAT = 'ivan-ai-photo-presets';
+const PRESET_FILE_VERSION = 1;
+
+interface StoredPreset extends Omit<AdjustmentPreset, 'thumbnail'> {
+    thumbnail?: Blob;
+}
+
+// What a preset looks like inside an exported file; ids are reassigned on import
+type PresetFileEntry = Pick<AdjustmentPreset, 'name' | 'folder' | 'adjustments' | 'thumbnail'>;
+
+const fromStored = async ({ thumbnail, ...stored }: StoredPreset): Promise<AdjustmentPreset> => ({
+    ...stored,
+    adjustments: normalizeAdjustments(stored.adjustments),
+    thumbnail: thumbnail ? await blobToDataUrl(thumbnail) : undefined,
+});
+
+export const createPresetId = () => `preset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listPresets = async (): Promise<AdjustmentPreset[]> => {
+    const db = await openWorkspaceDb();
+    const stored = await runRequest(db.transaction(PRESET_STORE).objectStore(PRESET_STORE).getAll()) as StoredPreset[];
+    const presets = await Promise.all(stored.map(fromStored));
+    return presets.sort((a, b) => a.folder.localeCompare(b.folder) || a.name.localeCompare(b.name));
+};
+
+export const savePresets = async (presets: AdjustmentPreset[]): Promise<void> => {
+    const db = await openWorkspaceDb();
+    const store = db.transaction(PRESET_STORE, 'readwrite').objectStore(PRESET_STORE);
+    await Promise.all(presets.map(({ thumbnail, ...preset }) => {
+        const stored: StoredPreset = { ...preset, thumbnail: thumbnail ? dataUrlToBlob(thumbnail) : undefined };
+        return runRequest(store.put(stored));
+    }));
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+    const db = await openWorkspaceDb();
+    await runRequest(db.transaction(PRESET_STORE, 'readwrite').objectStore(PRESET_STORE).delete(id));
+};
+
+export const exportPresets = (presets: AdjustmentPreset[]): Blob => {
+    const entries: PresetFileEntry[] = presets.map(({ name, folder, adjustments, thumbnail }) => ({ name, folder, adjustments, thumbnail }));
+    const file = { format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, presets: entries };
+    return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+};
+
+const stripExtension = (filename: string) => filename.replace(/\.[^/.]+$/, '');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object';
+
+// An exported preset needs at least a name; everything else is normalized
+const isPresetEntry = (value: unknown): value is Record<string, unknown> & { name: string } =>
+    isRecord(value) && typeof value.name === 'string' && value.name.trim() !== '';
+
+// Throws 'INVALID_PRESET_FILE' for anything that is not an exported preset
+// file or Lightroom preset, and 'INVALID_LUT_FILE' for unreadable LUTs
+export const parsePresetFile = async (file: File): Promise<AdjustmentPreset[]> => {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension === 'xmp') {
+        const { name, adjustments } = parseLightroomXmp(await file.text(), stripExtension(file.name));
+        return [{ id: createPresetId(), name, folder: '', adjustments, createdAt: Date.now() }];
+    }
+    if (extension === 'cube') {
+        const table = parseCubeLut(await file.text(), stripExtension(file.name));
+        const adjustments = { ...INITIAL_ADJUSTMENTS, lut: { table, opacity: 100 } };
+        return [{ id: createPresetId(), name: table.name, folder: '', adjustments, createdAt: Date.now() }];
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await file.text());
+    } catch {
+        throw new Error('INVALID_PRESET_FILE');
+    }
+    if (!isRecord(parsed) || parsed.format !== PRESET_FILE_FORMAT || !Array.isArray(parsed.presets)) {
+        throw new Error('INVALID_PRESET_FILE');
+    }
+
+    const now = Date.now();
+    return parsed.presets
+        .filter(isPresetEntry)
+        .map((entry, index): AdjustmentPreset => ({
+            id: createPresetId(),
+            name: entry.name.trim(),
+            folder: typeof entry.folder === 'string' ? entry.folder.trim() : '',
+            adjustments: normalizeAdjustments(entry.adjustments),
+            thumbnail: typeof entry.thumbnail === 'string' && entry.thumbnail.startsWith('data:image/') ? entry.thumbnail : undefined,
+            createdAt: now + index,
+        }));
+};
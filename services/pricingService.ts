@@ -0,0 +1,55 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { getDbInstance } from './firebaseService';
+import type { ImageResolution, PricedImageOperation, PricingConfig } from '../types';
+
+// Admins edit prices in Firestore at config/pricing; every paid call reads
+// its cost from the same table so the preview and the charge always match.
+
+export const DEFAULT_PRICING: PricingConfig = {
+    images: {
+        generate: { '1K': 5, '2K': 5, '4K': 10 },
+        edit: { '1K': 5, '2K': 5, '4K': 10 },
+        remove: { '1K': 3, '2K': 3, '4K': 6 },
+        segment: { '1K': 2, '2K': 2, '4K': 4 },
+    },
+    variantRates: [100, 100, 100, 100],
+    refine: 5,
+};
+
+const pricingRef = () => doc(getDbInstance(), "config", "pricing");
+
+// Missing operations or resolutions fall back to the defaults
+const mergeWithDefaults = (data: Partial<PricingConfig>): PricingConfig => ({
+    images: {
+        generate: { ...DEFAULT_PRICING.images.generate, ...data.images?.generate },
+        edit: { ...DEFAULT_PRICING.images.edit, ...data.images?.edit },
+        remove: { ...DEFAULT_PRICING.images.remove, ...data.images?.remove },
+        segment: { ...DEFAULT_PRICING.images.segment, ...data.images?.segment },
+    },
+    variantRates: DEFAULT_PRICING.variantRates.map((rate, i) => data.variantRates?.[i] ?? rate),
+    refine: data.refine ?? DEFAULT_PRICING.refine,
+});
+
+export const loadPricing = async (): Promise<PricingConfig> => {
+    const snap = await getDoc(pricingRef());
+    return snap.exists() ? mergeWithDefaults(snap.data() as Partial<PricingConfig>) : DEFAULT_PRICING;
+};
+
+export const savePricing = async (pricing: PricingConfig) => {
+    await setDoc(pricingRef(), pricing);
+};
+
+// Percent of the per-image price charged for each of `variantCount` variants;
+// counts past the end of the table use its last rate
+export const getVariantRate = (pricing: PricingConfig, variantCount: number) =>
+    pricing.variantRates[Math.min(variantCount, pricing.variantRates.length) - 1] ?? 100;
+
+// Price of one image times the number of variants requested, at that count's rate
+export const getImageOperationCost = (
+    pricing: PricingConfig,
+    operation: PricedImageOperation,
+    resolution: ImageResolution,
+    variantCount: number = 1
+) => variantCount <= 0
+    ? 0
+    : Math.ceil(pricing.images[operation][resolution] * variantCount * getVariantRate(pricing, variantCount) / 100);
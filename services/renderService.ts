@@ -0,0 +1,163 @@
+import type { Adjustments, ColorLut } from '../types';
+import { applyAdjustmentsToContext } from '../lib/imageAdjustments';
+import type { RenderWorkerRequest, RenderWorkerResponse } from '../lib/imageAdjustments.worker';
+
+// Renders PhotoEditor's adjustment pipeline off the main thread. Requests run
+// one at a time; a request still waiting is dropped with 'CANCELLED' as soon
+// as a newer one with the same key arrives, so a slider drag never builds up
+// a backlog. Browsers without OffscreenCanvas render on the main thread.
+
+export type RenderedImage = ImageBitmap | HTMLCanvasElement;
+
+interface QueuedRender {
+    id: number;
+    key: string;
+    sourceId: number;
+    adjustments: Adjustments;
+    maxSize?: number;
+    resolve: (image: RenderedImage) => void;
+    reject: (error: Error) => void;
+}
+
+let worker: Worker | null | undefined;
+let nextSourceId = 0;
+let nextRequestId = 0;
+const queue: QueuedRender[] = [];
+let active: QueuedRender | null = null;
+// Kept for the main-thread fallback, including when the worker dies mid-session
+const mainThreadSources = new Map<number, HTMLImageElement>();
+// LUTs the worker holds, least recently used first. Each is posted once so its
+// table is not cloned into every render request.
+const MAX_WORKER_LUTS = 4;
+const workerLuts = new Map<ColorLut, number>();
+let nextLutId = 0;
+
+const getWorker = (): Worker | null => {
+    if (worker !== undefined) return worker;
+    if (typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap !== 'function') {
+        worker = null;
+        return worker;
+    }
+    try {
+        worker = new Worker(new URL('../lib/imageAdjustments.worker.ts', import.meta.url), { type: 'module' });
+        worker.addEventListener('message', (e: MessageEvent<RenderWorkerResponse>) => {
+            if (!active || active.id !== e.data.id) return;
+            if ('bitmap' in e.data) active.resolve(e.data.bitmap);
+            else active.reject(new Error(e.data.error));
+        });
+        worker.addEventListener('error', e => {
+            console.error("Render worker failed, falling back to the main thread", e);
+            worker?.terminate();
+            worker = null;
+            workerLuts.clear();
+            active?.reject(new Error('RENDER_FAILED'));
+        });
+    } catch (error) {
+        console.error("Failed to start the render worker", error);
+        worker = null;
+    }
+    return worker;
+};
+
+const getWorkerLutId = (target: Worker, lut: ColorLut): number => {
+    let lutId = workerLuts.get(lut);
+    if (lutId === undefined) {
+        lutId = nextLutId++;
+        const request: RenderWorkerRequest = { type: 'lut', lutId, lut };
+        target.postMessage(request);
+    }
+    workerLuts.delete(lut);
+    workerLuts.set(lut, lutId);
+    if (workerLuts.size > MAX_WORKER_LUTS) {
+        const [oldest, oldestId] = workerLuts.entries().next().value!;
+        workerLuts.delete(oldest);
+        const request: RenderWorkerRequest = { type: 'releaseLut', lutId: oldestId };
+        target.postMessage(request);
+    }
+    return lutId;
+};
+
+const renderOnMainThread = ({ sourceId, adjustments, maxSize }: QueuedRender): HTMLCanvasElement => {
+    const image = mainThreadSources.get(sourceId);
+    if (!image) throw new Error('UNKNOWN_SOURCE');
+    const scale = maxSize ? Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight)) : 1;
+    let source: HTMLImageElement | HTMLCanvasElement = image;
+    if (scale < 1) {
+        source = document.createElement('canvas');
+        source.width = Math.max(1, Math.round(image.naturalWidth * scale));
+        source.height = Math.max(1, Math.round(image.naturalHeight * scale));
+        source.getContext('2d')?.drawImage(image, 0, 0, source.width, source.height);
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context");
+    applyAdjustmentsToContext(ctx, { ...adjustments, blur: adjustments.blur * scale }, source);
+    return canvas;
+};
+
+const runNext = () => {
+    if (active || queue.length === 0) return;
+    const entry = queue.shift()!;
+    const finish = () => {
+        active = null;
+        runNext();
+    };
+    active = {
+        ...entry,
+        resolve: image => { entry.resolve(image); finish(); },
+        reject: error => { entry.reject(error); finish(); },
+    };
+
+    const target = getWorker();
+    if (target) {
+        const { lut, ...adjustments } = entry.adjustments;
+        const request: RenderWorkerRequest = {
+            type: 'render',
+            id: entry.id,
+            sourceId: entry.sourceId,
+            adjustments,
+            lut: lut ? { lutId: getWorkerLutId(target, lut.table), opacity: lut.opacity } : null,
+            maxSize: entry.maxSize,
+        };
+        target.postMessage(request);
+        return;
+    }
+    try {
+        active.resolve(renderOnMainThread(entry));
+    } catch (error) {
+        active.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+};
+
+// Hands the photo to the renderer; the returned id names it in later renders
+export const setRenderSource = async (image: HTMLImageElement): Promise<number> => {
+    const sourceId = nextSourceId++;
+    mainThreadSources.set(sourceId, image);
+    const target = getWorker();
+    if (target) {
+        const bitmap = await createImageBitmap(image);
+        const request: RenderWorkerRequest = { type: 'source', sourceId, bitmap };
+        target.postMessage(request, [bitmap]);
+    }
+    return sourceId;
+};
+
+export const releaseRenderSource = (sourceId: number) => {
+    mainThreadSources.delete(sourceId);
+    const request: RenderWorkerRequest = { type: 'release', sourceId };
+    worker?.postMessage(request);
+};
+
+// `maxSize` caps the long side for a quick proxy; omit it for full resolution
+export const renderAdjustments = (key: string, sourceId: number, adjustments: Adjustments, maxSize?: number): Promise<RenderedImage> =>
+    new Promise((resolve, reject) => {
+        const superseded = queue.findIndex(entry => entry.key === key);
+        if (superseded !== -1) {
+            queue[superseded].reject(new Error('CANCELLED'));
+            queue.splice(superseded, 1);
+        }
+        queue.push({ id: nextRequestId++, key, sourceId, adjustments, maxSize, resolve, reject });
+        runNext();
+    });
@@ -0,0 +1,189 @@
+import type { EditDocument, ImageMetadata, UploadedImage, WorkspaceProject } from '../types';
+
+// Everything the user works on lives in one IndexedDB database so a reload or
+// a PWA restart picks up where they left off. Pixels are stored as Blobs and
+// only turned into data URLs when handed back to the UI.
+
+const DB_NAME = 'ivan-ai-photo';
+const DB_VERSION = 2;
+export const PROJECT_STORE = 'projects';
+export const IMAGE_STORE = 'images';
+export const HISTORY_STORE = 'history';
+export const PRESET_STORE = 'presets';
+
+const ACTIVE_PROJECT_KEY = 'activeProjectId';
+
+interface StoredImage {
+    id: string;
+    projectId: string;
+    file: File;
+    // Current pixels, including any PhotoEditor edits
+    blob: Blob;
+    editDocument?: StoredEditDocument;
+    metadata?: ImageMetadata;
+}
+
+// The unedited source is kept as a Blob like every other image
+interface StoredEditDocument extends Omit<EditDocument, 'sourceDataUrl'> {
+    source: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openWorkspaceDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = event => {
+                const db = request.result;
+                if (event.oldVersion < 1) {
+                    db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+                    db.createObjectStore(IMAGE_STORE, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+                    db.createObjectStore(HISTORY_STORE, { keyPath: 'id' }).createIndex('imageKey', 'imageKey');
+                }
+                if (event.oldVersion < 2) {
+                    // Presets belong to the user, not to a project
+                    db.createObjectStore(PRESET_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+export const runRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+    const [header, base64Data] = dataUrl.split(',');
+    const mimeType = header.match(/:(.*?);/)?.[1] || 'image/png';
+    const byteString = atob(base64Data || '');
+    const bytes = new Uint8Array(byteString.length);
+    for (let i = 0; i < byteString.length; i++) bytes[i] = byteString.charCodeAt(i);
+    return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+
+// --- Projects ---
+
+export const getActiveProjectId = () => localStorage.getItem(ACTIVE_PROJECT_KEY);
+
+export const setActiveProjectId = (id: string) => {
+    localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+};
+
+export const listProjects = async (): Promise<WorkspaceProject[]> => {
+    const db = await openWorkspaceDb();
+    const projects = await runRequest(db.transaction(PROJECT_STORE).objectStore(PROJECT_STORE).getAll()) as WorkspaceProject[];
+    return projects.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+const putProject = async (project: WorkspaceProject) => {
+    const db = await openWorkspaceDb();
+    await runRequest(db.transaction(PROJECT_STORE, 'readwrite').objectStore(PROJECT_STORE).put(project));
+};
+
+const updateProject = async (id: string, changes: Partial<WorkspaceProject>) => {
+    const db = await openWorkspaceDb();
+    const project = await runRequest(db.transaction(PROJECT_STORE).objectStore(PROJECT_STORE).get(id)) as WorkspaceProject | undefined;
+    if (!project) throw new Error(`Project ${id} not found`);
+    await putProject({ ...project, ...changes, updatedAt: Date.now() });
+};
+
+export const createProject = async (name: string): Promise<WorkspaceProject> => {
+    const now = Date.now();
+    const project: WorkspaceProject = { id: `project-${now}`, name, createdAt: now, updatedAt: now, imageOrder: [], quickPrompts: null };
+    await putProject(project);
+    return project;
+};
+
+export const renameProject = (id: string, name: string) => updateProject(id, { name });
+
+export const saveQuickPrompts = (id: string, quickPrompts: Record<string, string[]>) => updateProject(id, { quickPrompts });
+
+export const saveImageOrder = (id: string, imageOrder: string[]) => updateProject(id, { imageOrder });
+
+// Removes the project together with its images and their generation history
+export const deleteProject = async (id: string, historyKeys: string[]): Promise<void> => {
+    const db = await openWorkspaceDb();
+    const imageIds = await runRequest(
+        db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE).index('projectId').getAllKeys(id)
+    ) as string[];
+    const historyIndex = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('imageKey');
+    const nodeIds = (await Promise.all(
+        [...imageIds, ...historyKeys].map(key => runRequest(historyIndex.getAllKeys(key)))
+    )).flat();
+
+    const tx = db.transaction([PROJECT_STORE, IMAGE_STORE, HISTORY_STORE], 'readwrite');
+    await Promise.all([
+        runRequest(tx.objectStore(PROJECT_STORE).delete(id)),
+        ...imageIds.map(imageId => runRequest(tx.objectStore(IMAGE_STORE).delete(imageId))),
+        ...nodeIds.map(nodeId => runRequest(tx.objectStore(HISTORY_STORE).delete(nodeId))),
+    ]);
+};
+
+// --- Images ---
+
+export const loadProjectImages = async (project: WorkspaceProject): Promise<UploadedImage[]> => {
+    const db = await openWorkspaceDb();
+    const stored = await runRequest(
+        db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE).index('projectId').getAll(project.id)
+    ) as StoredImage[];
+
+    const position = (id: string) => {
+        const index = project.imageOrder.indexOf(id);
+        return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+    };
+    stored.sort((a, b) => position(a.id) - position(b.id));
+
+    return Promise.all(stored.map(async ({ id, file, blob, editDocument, metadata }) => ({
+        id,
+        file,
+        dataUrl: await blobToDataUrl(blob),
+        editDocument: editDocument ? await fromStoredEditDocument(editDocument) : undefined,
+        metadata,
+    })));
+};
+
+const toStoredEditDocument = ({ sourceDataUrl, ...rest }: EditDocument): StoredEditDocument => ({
+    ...rest,
+    source: dataUrlToBlob(sourceDataUrl),
+});
+
+const fromStoredEditDocument = async ({ source, ...rest }: StoredEditDocument): Promise<EditDocument> => ({
+    ...rest,
+    sourceDataUrl: await blobToDataUrl(source),
+});
+
+export const saveProjectImage = async (projectId: string, image: UploadedImage): Promise<void> => {
+    const db = await openWorkspaceDb();
+    const record: StoredImage = {
+        id: image.id,
+        projectId,
+        file: image.file,
+        blob: dataUrlToBlob(image.dataUrl),
+        editDocument: image.editDocument ? toStoredEditDocument(image.editDocument) : undefined,
+        metadata: image.metadata,
+    };
+    await runRequest(db.transaction(IMAGE_STORE, 'readwrite').objectStore(IMAGE_STORE).put(record));
+};
+
+export const deleteProjectImage = async (id: string): Promise<void> => {
+    const db = await openWorkspaceDb();
+    await runRequest(db.transaction(IMAGE_STORE, 'readwrite').objectStore(IMAGE_STORE).delete(id));
+};
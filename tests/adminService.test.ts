@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { getUsageStats } from '../services/adminService';
+import type { LedgerEntry } from '../types';
+
+const entry = (fields: Partial<LedgerEntry>): LedgerEntry => ({
+    id: 'entry',
+    type: 'debit',
+    amount: 5,
+    reason: 'generate',
+    requestId: 'req-1',
+    balanceAfter: 0,
+    createdAt: 1000,
+    ...fields,
+});
+
+describe('getUsageStats', () => {
+    it('is empty without entries', () => {
+        expect(getUsageStats([])).toEqual({ creditsSpent: 0, creditsGranted: 0, calls: {}, lastActiveAt: null });
+    });
+
+    it('adds up debits and counts calls per reason', () => {
+        const stats = getUsageStats([
+            entry({ amount: 5, reason: 'generate' }),
+            entry({ amount: 10, reason: 'generate' }),
+            entry({ amount: 3, reason: 'remove' }),
+        ]);
+        expect(stats.creditsSpent).toBe(18);
+        expect(stats.calls).toEqual({ generate: 2, remove: 1 });
+    });
+
+    it('takes refunds off what was spent', () => {
+        const stats = getUsageStats([
+            entry({ amount: 20, reason: 'edit' }),
+            entry({ type: 'credit', amount: 15, reason: 'refund' }),
+        ]);
+        expect(stats.creditsSpent).toBe(5);
+        expect(stats.creditsGranted).toBe(0);
+        expect(stats.calls).toEqual({ edit: 1 });
+    });
+
+    it('counts signup and admin grants as granted', () => {
+        const stats = getUsageStats([
+            entry({ type: 'credit', amount: 20, reason: 'signup' }),
+            entry({ type: 'credit', amount: 100, reason: 'admin-grant' }),
+        ]);
+        expect(stats.creditsGranted).toBe(120);
+        expect(stats.creditsSpent).toBe(0);
+    });
+
+    it('takes the latest debit as the last activity', () => {
+        const stats = getUsageStats([
+            entry({ createdAt: 3000 }),
+            entry({ createdAt: 5000 }),
+            entry({ createdAt: null }),
+            entry({ type: 'credit', reason: 'admin-grant', createdAt: 9000 }),
+        ]);
+        expect(stats.lastActiveAt).toBe(5000);
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { applyColorLut, parseCubeLut } from '../lib/cubeLut';
+
+// Size-2 LUT through `map`, red changing fastest
+const cube = (map: (r: number, g: number, b: number) => number[], header = '') => {
+    const lines = [header, 'LUT_3D_SIZE 2'];
+    for (let b = 0; b < 2; b++) {
+        for (let g = 0; g < 2; g++) {
+            for (let r = 0; r < 2; r++) lines.push(map(r, g, b).join(' '));
+        }
+    }
+    return lines.join('\n');
+};
+
+const identity = (r: number, g: number, b: number) => [r, g, b];
+const invert = (r: number, g: number, b: number) => [1 - r, 1 - g, 1 - b];
+
+const pixels = (...values: number[]) => ({ data: new Uint8ClampedArray(values) }) as ImageData;
+
+describe('parseCubeLut', () => {
+    it('reads the size, table and title', () => {
+        const lut = parseCubeLut(cube(identity, 'TITLE "Neutral"'), 'fallback');
+        expect(lut.name).toBe('Neutral');
+        expect(lut.size).toBe(2);
+        expect(lut.data).toHaveLength(24);
+        expect(lut.data.slice(3, 6)).toEqual([1, 0, 0]);
+        expect(lut.domainMin).toEqual([0, 0, 0]);
+        expect(lut.domainMax).toEqual([1, 1, 1]);
+    });
+
+    it('falls back to the given name and skips comments', () => {
+        const lut = parseCubeLut(`# Made by hand\n${cube(identity)}`, 'fallback');
+        expect(lut.name).toBe('fallback');
+    });
+
+    it('reads the input domain', () => {
+        const lut = parseCubeLut(cube(identity, 'DOMAIN_MIN 0 0 0\nDOMAIN_MAX 2 2 2'), 'lut');
+        expect(lut.domainMax).toEqual([2, 2, 2]);
+    });
+
+    it.each([
+        ['a 1D LUT', 'LUT_1D_SIZE 2\n0 0 0\n1 1 1'],
+        ['a missing entry', cube(identity).split('\n').slice(0, -1).join('\n')],
+        ['a size out of range', cube(identity).replace('LUT_3D_SIZE 2', 'LUT_3D_SIZE 1')],
+        ['a non-numeric entry', cube(identity).replace('1 1 1', '1 x 1')],
+        ['a short DOMAIN_MIN', cube(identity, 'DOMAIN_MIN 0 0')],
+        ['a non-numeric DOMAIN_MAX', cube(identity, 'DOMAIN_MAX 1 one 1')],
+        ['an empty domain', cube(identity, 'DOMAIN_MIN 0 0.5 0\nDOMAIN_MAX 1 0.5 1')],
+        ['a reversed domain', cube(identity, 'DOMAIN_MIN 1 1 1\nDOMAIN_MAX 0 0 0')],
+    ])('rejects %s', (_, text) => {
+        expect(() => parseCubeLut(text, 'lut')).toThrow('INVALID_LUT_FILE');
+    });
+});
+
+describe('applyColorLut', () => {
+    it('leaves pixels alone through an identity LUT', () => {
+        const image = pixels(0, 128, 255, 255, 30, 60, 90, 255);
+        applyColorLut(image, parseCubeLut(cube(identity), 'lut'), 1);
+        expect(Array.from(image.data)).toEqual([0, 128, 255, 255, 30, 60, 90, 255]);
+    });
+
+    it('maps colours and mixes by opacity', () => {
+        const full = pixels(0, 64, 255, 255);
+        applyColorLut(full, parseCubeLut(cube(invert), 'lut'), 1);
+        expect(Array.from(full.data)).toEqual([255, 191, 0, 255]);
+
+        const half = pixels(0, 0, 0, 255);
+        applyColorLut(half, parseCubeLut(cube(invert), 'lut'), 0.5);
+        expect(Array.from(half.data)).toEqual([128, 128, 128, 255]);
+    });
+});
@@ -0,0 +1,168 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+    assertFails,
+    assertSucceeds,
+    initializeTestEnvironment,
+    type RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/firestore';
+
+// Runs against the Firestore emulator: `npm run test:rules`
+
+const SIGNUP_CREDITS = 20;
+const now = () => firebase.firestore.FieldValue.serverTimestamp();
+
+let testEnv: RulesTestEnvironment;
+
+const dbAs = (uid: string) => testEnv.authenticatedContext(uid).firestore();
+
+const seedUser = (uid: string, data: Record<string, unknown>) =>
+    testEnv.withSecurityRulesDisabled(async context => {
+        await context.firestore().collection('users').doc(uid).set({ email: `${uid}@example.com`, role: 'user', suspended: false, ...data });
+    });
+
+// The writes creditLedger.ts makes for a debit of `amount` from `balance`
+const debit = (db: firebase.firestore.Firestore, uid: string, balance: number, amount: number, entryAmount = amount, status = 'pending') => {
+    const userRef = db.collection('users').doc(uid);
+    const entryRef = userRef.collection('transactions').doc();
+    return db.batch()
+        .update(userRef, { credits: balance - amount, lastEntryId: entryRef.id })
+        .set(entryRef, { type: 'debit', amount: entryAmount, reason: 'generate', requestId: 'req-1', balanceAfter: balance - amount, status, createdAt: now() })
+        .commit();
+};
+
+beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+        projectId: 'demo-ivan-ai-photo',
+        firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+});
+
+afterAll(async () => {
+    await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+    await testEnv.clearFirestore();
+});
+
+describe('signing up', () => {
+    const signup = (db: firebase.firestore.Firestore, uid: string, credits: number) => {
+        const userRef = db.collection('users').doc(uid);
+        return db.batch()
+            .set(userRef, { email: `${uid}@example.com`, credits, role: 'user', suspended: false })
+            .set(userRef.collection('transactions').doc(), { type: 'credit', amount: credits, reason: 'signup', requestId: `signup-${uid}`, balanceAfter: credits, createdAt: now() })
+            .commit();
+    };
+
+    it('creates the profile with the signup credits', async () => {
+        await assertSucceeds(signup(dbAs('alice'), 'alice', SIGNUP_CREDITS));
+    });
+
+    it('rejects any other starting balance', async () => {
+        await assertFails(signup(dbAs('alice'), 'alice', 1000));
+    });
+
+    it('rejects a second signup credit once the profile exists', async () => {
+        await seedUser('alice', { credits: 0 });
+        const entries = dbAs('alice').collection('users').doc('alice').collection('transactions');
+        await assertFails(entries.add({ type: 'credit', amount: SIGNUP_CREDITS, reason: 'signup', requestId: 'signup-alice', balanceAfter: SIGNUP_CREDITS, createdAt: now() }));
+    });
+
+    it('rejects creating someone else\'s profile', async () => {
+        await assertFails(signup(dbAs('mallory'), 'alice', SIGNUP_CREDITS));
+    });
+});
+
+describe('spending credits', () => {
+    beforeEach(async () => {
+        await seedUser('alice', { credits: 20 });
+    });
+
+    it('accepts a decrease backed by a matching debit entry', async () => {
+        await assertSucceeds(debit(dbAs('alice'), 'alice', 20, 5));
+    });
+
+    it('rejects a debit entry that does not match the decrease', async () => {
+        await assertFails(debit(dbAs('alice'), 'alice', 20, 5, 1));
+    });
+
+    it('rejects a debit that is not pending, which would block its refund', async () => {
+        await assertFails(debit(dbAs('alice'), 'alice', 20, 5, 5, 'refunded'));
+    });
+
+    it('rejects a balance change without a ledger entry', async () => {
+        await assertFails(dbAs('alice').collection('users').doc('alice').update({ credits: 15 }));
+    });
+
+    it('rejects raising the balance', async () => {
+        await assertFails(debit(dbAs('alice'), 'alice', 20, -100));
+    });
+
+    it('rejects going below zero', async () => {
+        await assertFails(debit(dbAs('alice'), 'alice', 20, 25));
+    });
+
+    it('rejects spending from a suspended account', async () => {
+        await seedUser('alice', { credits: 20, suspended: true });
+        await assertFails(debit(dbAs('alice'), 'alice', 20, 5));
+    });
+
+    it('rejects spending someone else\'s credits', async () => {
+        await assertFails(debit(dbAs('mallory'), 'alice', 20, 5));
+    });
+
+    it('rejects changing the own role', async () => {
+        await assertFails(dbAs('alice').collection('users').doc('alice').update({ role: 'admin' }));
+    });
+});
+
+describe('adding credits', () => {
+    beforeEach(async () => {
+        await seedUser('alice', { credits: 20 });
+        await seedUser('admin', { credits: 0, role: 'admin' });
+    });
+
+    const credit = (db: firebase.firestore.Firestore, reason: string) => {
+        const userRef = db.collection('users').doc('alice');
+        const entryRef = userRef.collection('transactions').doc();
+        return db.batch()
+            .update(userRef, { credits: 25, lastEntryId: entryRef.id })
+            .set(entryRef, { type: 'credit', amount: 5, reason, requestId: 'req-1', balanceAfter: 25, createdAt: now() })
+            .commit();
+    };
+
+    it('rejects refunds written by the user', async () => {
+        await assertFails(credit(dbAs('alice'), 'refund'));
+    });
+
+    it('rejects grants written by the user', async () => {
+        await assertFails(credit(dbAs('alice'), 'admin-grant'));
+    });
+
+    it('lets admins grant credits', async () => {
+        await assertSucceeds(credit(dbAs('admin'), 'admin-grant'));
+    });
+});
+
+describe('the ledger', () => {
+    beforeEach(async () => {
+        await seedUser('alice', { credits: 20 });
+        await testEnv.withSecurityRulesDisabled(async context => {
+            await context.firestore().doc('users/alice/transactions/entry-1').set({ type: 'debit', amount: 5, reason: 'generate', requestId: 'req-1', balanceAfter: 15, status: 'pending' });
+        });
+    });
+
+    it('is readable by its owner only', async () => {
+        await assertSucceeds(dbAs('alice').doc('users/alice/transactions/entry-1').get());
+        await assertFails(dbAs('mallory').doc('users/alice/transactions/entry-1').get());
+    });
+
+    it('cannot be edited or deleted', async () => {
+        await assertFails(dbAs('alice').doc('users/alice/transactions/entry-1').update({ amount: 0 }));
+        await assertFails(dbAs('alice').doc('users/alice/transactions/entry-1').update({ status: 'refunded' }));
+        await assertFails(dbAs('alice').doc('users/alice/transactions/entry-1').delete());
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import { readImageMetadata, writeImageMetadata } from '../services/imageMetadata';
+import type { ImageMetadata, MetadataGroup } from '../types';
+
+const ALL_GROUPS: MetadataGroup[] = ['camera', 'capture', 'author', 'location'];
+
+const jpeg = (...segments: number[][]) =>
+    new Blob([new Uint8Array([0xff, 0xd8, ...segments.flat(), 0xff, 0xd9])], { type: 'image/jpeg' });
+
+// Signature, a 1×1 IHDR and IEND; the reader does not check CRCs
+const png = () => new Blob([new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52, 0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0, 0, 0, 0, 0,
+    0, 0, 0, 0, 0x49, 0x45, 0x4e, 0x44, 0, 0, 0, 0,
+])], { type: 'image/png' });
+
+const bytesOf = (text: string) => Array.from(new TextEncoder().encode(text));
+
+const metadata: ImageMetadata = {
+    make: 'Canon',
+    model: 'EOS R5',
+    lensModel: 'RF 35mm F1.8',
+    dateTimeOriginal: '2024:05:01 10:20:30',
+    exposureTime: 1 / 250,
+    fNumber: 2.8,
+    iso: 400,
+    focalLength: 35,
+    artist: 'Ivan',
+    copyright: '© Ivan',
+    description: 'Harbour at dawn',
+    gps: { latitude: 25.033, longitude: -121.5654, altitude: -12 },
+};
+
+describe('readImageMetadata', () => {
+    it('is null for a file without metadata', async () => {
+        expect(await readImageMetadata(jpeg())).toBeNull();
+        expect(await readImageMetadata(png())).toBeNull();
+    });
+
+    it('reads a little-endian EXIF block', async () => {
+        // IFD0 with one entry: Make, stored after the IFD because it is longer than four bytes
+        const tiff = [
+            0x49, 0x49, 0x2a, 0x00, 8, 0, 0, 0,
+            1, 0,
+            0x0f, 0x01, 2, 0, 5, 0, 0, 0, 26, 0, 0, 0,
+            0, 0, 0, 0,
+            ...bytesOf('Sony\0'),
+        ];
+        const exif = [...bytesOf('Exif\0\0'), ...tiff];
+        const app1 = [0xff, 0xe1, 0, exif.length + 2, ...exif];
+        expect(await readImageMetadata(jpeg(app1))).toEqual({ make: 'Sony' });
+    });
+
+    it('is null for a truncated block instead of throwing', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const exif = [...bytesOf('Exif\0\0'), 0x4d, 0x4d, 0, 0x2a, 0, 0, 0, 8];
+        expect(await readImageMetadata(jpeg([0xff, 0xe1, 0, exif.length + 2, ...exif]))).toBeNull();
+        vi.restoreAllMocks();
+    });
+});
+
+describe('writeImageMetadata', () => {
+    it.each([['JPEG', jpeg], ['PNG', png]])('round-trips every field through a %s', async (_, empty) => {
+        const read = await readImageMetadata(await writeImageMetadata(empty(), metadata, ALL_GROUPS, true));
+        const { gps, ...fields } = metadata;
+        expect(read).toMatchObject({ ...fields, aiGenerated: true });
+        expect(read?.gps?.latitude).toBeCloseTo(gps!.latitude, 5);
+        expect(read?.gps?.longitude).toBeCloseTo(gps!.longitude, 5);
+        expect(read?.gps?.altitude).toBe(-12);
+    });
+
+    it('writes only the chosen groups', async () => {
+        const read = await readImageMetadata(await writeImageMetadata(jpeg(), metadata, ['camera'], false));
+        expect(read).toEqual({ make: 'Canon', model: 'EOS R5', lensModel: 'RF 35mm F1.8' });
+    });
+
+    it('leaves the file alone when there is nothing to write', async () => {
+        const blob = jpeg();
+        expect(await writeImageMetadata(blob, null, ALL_GROUPS, false)).toBe(blob);
+    });
+});
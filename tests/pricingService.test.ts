@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PRICING, getImageOperationCost, getVariantRate } from '../services/pricingService';
+import type { PricingConfig } from '../types';
+
+const tiered: PricingConfig = { ...DEFAULT_PRICING, variantRates: [100, 90, 80, 75] };
+
+describe('getImageOperationCost', () => {
+    it('charges the price for the operation and resolution', () => {
+        expect(getImageOperationCost(DEFAULT_PRICING, 'generate', '1K')).toBe(5);
+        expect(getImageOperationCost(DEFAULT_PRICING, 'edit', '4K')).toBe(10);
+        expect(getImageOperationCost(DEFAULT_PRICING, 'remove', '2K')).toBe(3);
+    });
+
+    it('multiplies by the number of variants', () => {
+        expect(getImageOperationCost(DEFAULT_PRICING, 'generate', '4K', 3)).toBe(30);
+    });
+
+    it('applies the rate for the number of variants, rounding up', () => {
+        expect(getImageOperationCost(tiered, 'generate', '1K', 2)).toBe(9);
+        expect(getImageOperationCost(tiered, 'generate', '1K', 3)).toBe(12);
+        expect(getImageOperationCost(tiered, 'remove', '1K', 4)).toBe(9);
+    });
+
+    it('uses the last rate past the end of the table', () => {
+        expect(getVariantRate(tiered, 6)).toBe(75);
+        expect(getImageOperationCost(tiered, 'generate', '1K', 6)).toBe(23);
+    });
+
+    it('is free when nothing is produced', () => {
+        expect(getImageOperationCost(tiered, 'generate', '4K', 0)).toBe(0);
+    });
+});
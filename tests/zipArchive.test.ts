@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { crc32 } from '../lib/crc32';
+import { createZip } from '../services/zipArchive';
+
+interface ReadEntry {
+    name: string;
+    data: Uint8Array;
+    crc: number;
+}
+
+// Walks the central directory the way unzip tools do
+const readZip = async (blob: Blob): Promise<ReadEntry[]> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    const count = view.getUint16(end + 10, true);
+    let record = view.getUint32(end + 16, true);
+    expect(record + view.getUint32(end + 12, true)).toBe(end);
+
+    const entries: ReadEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        expect(view.getUint32(record, true)).toBe(0x02014b50);
+        const crc = view.getUint32(record + 16, true);
+        const size = view.getUint32(record + 20, true);
+        const nameLength = view.getUint16(record + 28, true);
+        const local = view.getUint32(record + 42, true);
+        expect(view.getUint32(local, true)).toBe(0x04034b50);
+        expect(view.getUint16(local + 8, true)).toBe(0); // stored
+        const dataStart = local + 30 + view.getUint16(local + 26, true);
+        entries.push({
+            name: new TextDecoder().decode(bytes.subarray(record + 46, record + 46 + nameLength)),
+            data: bytes.subarray(dataStart, dataStart + size),
+            crc,
+        });
+        record += 46 + nameLength;
+    }
+    return entries;
+};
+
+describe('crc32', () => {
+    it('matches the standard check value', () => {
+        expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+        expect(crc32(new Uint8Array())).toBe(0);
+    });
+});
+
+describe('createZip', () => {
+    it('stores every entry with its name, bytes and checksum', async () => {
+        const image = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 1, 2, 3]);
+        const zip = await createZip([
+            { name: 'notes.txt', data: new Blob(['hello']) },
+            { name: '相片/晚霞.png', data: new Blob([image]) },
+        ]);
+        expect(zip.type).toBe('application/zip');
+
+        const entries = await readZip(zip);
+        expect(entries.map(e => e.name)).toEqual(['notes.txt', '相片/晚霞.png']);
+        expect(new TextDecoder().decode(entries[0].data)).toBe('hello');
+        expect(Array.from(entries[1].data)).toEqual(Array.from(image));
+        entries.forEach(e => expect(e.crc).toBe(crc32(e.data)));
+    });
+
+    it('writes a valid empty archive', async () => {
+        expect(await readZip(await createZip([]))).toEqual([]);
+    });
+});
@@ -3,7 +3,8 @@ import type { translations } from './lib/translations';
 
 export interface ApiResult {
   text: string | null;
-  imageUrl: string | null;
+  imageUrl: string | null; // The variant currently picked for editing/download
+  variants: string[];
 }
 
 export type Language = 'en' | 'zh';
@@ -11,7 +12,279 @@ export type Language = 'en' | 'zh';
 export interface UploadedImage {
   id: string;
   file: File;
+  dataUrl: string; // Flattened result, including any PhotoEditor edits
+  editDocument?: EditDocument; // PhotoEditor state behind dataUrl, if it was edited
+  metadata?: ImageMetadata; // Read from the original file on upload
+}
+
+// EXIF/XMP fields carried from the uploaded file to exported copies
+export interface ImageMetadata {
+  make?: string;
+  model?: string;
+  lensModel?: string;
+  dateTimeOriginal?: string; // EXIF format, "YYYY:MM:DD HH:MM:SS"
+  exposureTime?: number; // seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number; // mm
+  artist?: string;
+  copyright?: string;
+  description?: string;
+  gps?: { latitude: number; longitude: number; altitude?: number };
+  aiGenerated?: boolean;
+}
+
+// Groups of metadata fields the export dialog can include or leave out
+export type MetadataGroup = 'camera' | 'capture' | 'author' | 'location';
+
+// --- PhotoEditor edit stack ---
+
+export type ColorChannelId = 'reds' | 'oranges' | 'yellows' | 'greens' | 'aquas' | 'blues' | 'purples' | 'magentas';
+
+export type ColorMixerAdjustments = Record<ColorChannelId, { h: number; s: number; l: number }>;
+
+// Slider values, mostly -100..100 with 0 meaning untouched
+export interface Adjustments {
+  enhance: number;
+  accent: number;
+  brightness: number;
+  exposure: number;
+  contrast: number;
+  highlights: number;
+  shadows: number;
+  vignette: number;
+  saturate: number;
+  vibrance: number;
+  temperature: number;
+  tint: number;
+  clarity: number;
+  dehaze: number;
+  blur: number;
+  colorMixer: ColorMixerAdjustments;
+  toneCurve: ToneCurve;
+  levels: Levels;
+  // Global only; mask layers never set it, so they inherit the image's LUT
+  lut?: { table: ColorLut; opacity: number } | null;
+}
+
+// A 3D colour lookup table read from a .cube file
+export interface ColorLut {
+  name: string;
+  size: number; // Entries per axis
+  domainMin: number[];
+  domainMax: number[];
+  // size³ RGB triples in 0..1, red changing fastest
+  data: number[];
+}
+
+export type CurveChannel = 'rgb' | 'red' | 'green' | 'blue';
+
+// Control points in 0..255, sorted by x; the first and last are the end points
+export type CurvePoint = { x: number; y: number };
+
+export type ToneCurve = Record<CurveChannel, CurvePoint[]>;
+
+// Input levels: values at or below `black` turn black, at or above `white` turn white
+export interface Levels {
+  black: number; // 0..254
+  white: number; // 1..255
+  gamma: number; // 0.1..10, 1 is linear
+}
+
+// Pixel counts per level of the rendered image
+export interface Histogram {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  luminance: Uint32Array;
+  // Fractions 0..1 of pixels with a channel at 255 / all channels at 0
+  highlightClipped: number;
+  shadowClipped: number;
+}
+
+// A named set of global adjustments saved to the preset library
+export interface AdjustmentPreset {
+  id: string;
+  name: string;
+  // '' keeps the preset at the top level of the library
+  folder: string;
+  adjustments: Adjustments;
+  // Small JPEG data URL rendered from the image the preset was saved on
+  thumbnail?: string;
+  createdAt: number;
+}
+
+export interface Transforms {
+  rotate: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+export interface AdjustmentBrushSettings {
+  size: number;
+  feather: number;
+  strength: number; // Opacity of the brush stroke
+  isErasing: boolean;
+  showMask: boolean;
+}
+
+export type LightBrushMode =
+  | 'increaseWhiteLight'
+  | 'increaseYellowLight'
+  | 'increaseBlueDark'
+  | 'decreaseBrightness'
+  | 'decreaseHighlights'
+  | 'increaseShadows'
+  | 'increaseContrast'
+  | 'decreaseContrast'
+  | 'increaseSaturation'
+  | 'decreaseSaturation'
+  | 'increaseSharpness'
+  | 'increaseBlur'
+  | 'dodge'
+  | 'burn'
+  | 'colorGrade'
+  | 'clone'
+  | 'heal';
+
+// The tones dodge and burn strokes act on most
+export type TonalRange = 'shadows' | 'midtones' | 'highlights';
+
+export interface LightBrushSettings {
+  size: number;
+  strength: number;
+  feather: number;
+  mode: LightBrushMode;
+  color: string; // Light colour, or the target colour for 'colorGrade'
+  tonalRange: TonalRange;
+}
+
+// A stroke point in image pixels. Pen input adds its pressure (0-1) and tilt
+// (degrees from vertical along each axis, -90 to 90); mouse and touch leave them out.
+export interface BrushPoint {
+  x: number;
+  y: number;
+  pressure?: number;
+  tiltX?: number;
+  tiltY?: number;
+}
+
+// The raw data for a stroke stored in history
+export interface RawBrushStroke {
+  id: string;
+  points: BrushPoint[];
+  settings: AdjustmentBrushSettings | { size: number; feather: number; strength: number; };
+}
+
+export type MaskType = 'brush' | 'radial' | 'linear' | 'subject' | 'sky' | 'color' | 'luminance';
+
+export type RangeColor = { r: number; g: number; b: number };
+
+// What an AI selection mask layer picks out of the image
+export type SegmentationTarget = Extract<MaskType, 'subject' | 'sky'>;
+
+// How a mask component combines with the components before it in its layer
+export type MaskOperation = 'add' | 'subtract' | 'intersect';
+
+// One shape of a mask layer; which optional fields are set depends on `type`
+export interface MaskComponent {
+  id: string;
+  type: MaskType;
+  operation: MaskOperation; // Ignored for a layer's first component
+  strokes: RawBrushStroke[];
+  gradient?: {
+    start: { x: number, y: number }; // % for Linear (Start), Radial (Center)
+    end: { x: number, y: number };   // % for Linear (End), Radial (Width/Radius Handle)
+    radiusY?: number; // Aspect ratio for Radial (1 = circle)
+    rotation?: number;
+    feather: number;
+  };
+  // 'subject' and 'sky': PNG data URL sized to the image, white with the
+  // selection as alpha. Brush strokes refine it.
+  selection?: string;
+  // 'color': pixels near `color` (null until picked); tolerance and feather are 0-100
+  colorRange?: {
+    color: RangeColor | null;
+    tolerance: number;
+    feather: number;
+  };
+  // 'luminance': pixels whose luminance (0-100) is between min and max
+  luminanceRange?: {
+    min: number;
+    max: number;
+    feather: number;
+  };
+}
+
+export interface MaskLayer {
+  id: string;
+  name: string;
+  isVisible: boolean;
+  // Combined in order into the layer's mask
+  components: MaskComponent[];
+  invert: boolean; // Applied after the components are combined
+  adjustments: Adjustments;
+}
+
+export interface LightBrushStroke {
+  id: string;
+  points: BrushPoint[];
+  settings: LightBrushSettings;
+  // 'clone' and 'heal': where the stroke samples from, relative to where it paints, in image pixels
+  cloneOffset?: { x: number; y: number };
+}
+
+interface BaseOverlay {
+  id: string;
+  type: 'text' | 'image';
+  x: number; // %
+  y: number; // %
+  width: number; // %
+  height: number; // %
+  rotation: number; // degrees
+  opacity: number; // 0-100
+  zIndex: number;
+  templateId?: string; // Links an overlay instance to its source template
+}
+
+export interface TextOverlay extends BaseOverlay {
+  type: 'text';
+  text: string;
+  fontSize: number; // px, relative to view
+  fontFamily: string;
+  color: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+export interface ImageOverlay extends BaseOverlay {
+  type: 'image';
   dataUrl: string;
+  aspectRatio: number;
+}
+
+export type Overlay = TextOverlay | ImageOverlay;
+
+// Everything needed to reopen PhotoEditor exactly where it was left. Crops and
+// AI removals are baked into sourceDataUrl; the rest is replayed on top of it.
+export interface EditDocument {
+  version: 1;
+  sourceDataUrl: string;
+  adjustments: Adjustments;
+  transforms: Transforms;
+  overlays: Overlay[];
+  maskLayers: MaskLayer[];
+  lightBrushStrokes: LightBrushStroke[];
+  removeToolStrokes: RawBrushStroke[];
+}
+
+export interface WorkspaceProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  imageOrder: string[];
+  quickPrompts: Record<string, string[]> | null; // null until the user customises them
 }
 
 export interface GeminiImagePart {
@@ -21,11 +294,135 @@ export interface GeminiImagePart {
 
 export type ImageResolution = '1K' | '2K' | '4K';
 
+export type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+
+export type ImageProviderId = 'gemini' | 'mock';
+
+export interface GenerationParams {
+  prompt: string;
+  resolution: ImageResolution;
+  aspectRatio: AspectRatio;
+  variantCount: number;
+  providerId: ImageProviderId;
+  referencedImageIds: string[];
+}
+
+// One generate call. Nodes form a tree per source image: a node's parent is
+// the result it was edited from, or null when it was made from the source.
+export interface HistoryNode {
+  id: string;
+  imageKey: string; // UploadedImage id, or the project's text-to-image key
+  parentId: string | null;
+  params: GenerationParams;
+  result: ApiResult;
+  createdAt: number;
+}
+
+// One brush stroke on the CanvasEditor mask, in image pixel coordinates
+export interface MaskStroke {
+  mode: 'paint' | 'erase';
+  size: number;
+  points: { x: number; y: number }[];
+}
+
+// Undo/redo stacks of whole stroke lists; entries are never mutated
+export interface MaskHistory {
+  past: MaskStroke[][];
+  present: MaskStroke[];
+  future: MaskStroke[][];
+}
+
+export type UserRole = 'user' | 'admin';
+
 export interface UserProfile {
   uid: string;
   email: string | null;
   credits: number;
-  isAdmin: boolean;
+  role: UserRole;
+  isAdmin: boolean; // role === 'admin'
+  suspended: boolean;
+}
+
+export type LedgerEntryType = 'debit' | 'credit';
+
+export type LedgerReason = 'signup' | 'generate' | 'edit' | 'remove' | 'segment' | 'refine' | 'refund' | 'admin-grant';
+
+// Debits only: whether the refundCredits Cloud Function has given it back
+export type LedgerEntryStatus = 'pending' | 'refunded';
+
+export interface LedgerEntry {
+  id: string;
+  type: LedgerEntryType;
+  amount: number;
+  reason: LedgerReason;
+  requestId: string;
+  balanceAfter: number;
+  status?: LedgerEntryStatus;
+  createdAt: number | null; // null until the server timestamp is written
+}
+
+// Per-user totals derived from the ledger, shown in the admin console
+export interface UserUsageStats {
+  creditsSpent: number; // debits minus refunds
+  creditsGranted: number; // signup and admin grants
+  calls: Partial<Record<LedgerReason, number>>;
+  lastActiveAt: number | null;
+}
+
+export type PricedImageOperation = 'generate' | 'edit' | 'remove' | 'segment';
+
+// Credits per image produced, by operation and resolution, and the share of
+// that price each image costs when several variants are requested
+export interface PricingConfig {
+  images: Record<PricedImageOperation, Record<ImageResolution, number>>;
+  // Percent of the per-image price, by variant count: [0] for 1 variant, [1] for 2, ...
+  variantRates: number[];
+  refine: number;
+}
+
+// Reserves the priced cost, runs the call and refunds variants that were not produced
+export type PaidImageOperationRunner = (
+  operation: PricedImageOperation,
+  resolution: ImageResolution,
+  variantCount: number,
+  run: () => Promise<ApiResult>
+) => Promise<ApiResult>;
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// One thumbnail's progress through a batch run
+export interface BatchItem {
+  imageId: string;
+  status: BatchItemStatus;
+  resultUrl?: string;
+  error?: string;
+}
+
+export type JobStatus = 'pending' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+// A provider call tracked by the job queue
+export interface Job {
+  id: string;
+  label: string;
+  status: JobStatus;
+  attempts: number;
+  createdAt: number;
+  // Set while waiting out a rate-limit backoff
+  retryAt?: number;
+  error?: string;
+}
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+// Settings of the shared export dialog, remembered between downloads
+export interface ExportOptions {
+  format: ExportFormat;
+  quality: number; // 1-100, ignored by PNG
+  longEdge: number | null; // null keeps the original size
+  preserveTransparency: boolean;
+  // Tokens: {name} {date} {time} {width} {height}
+  filenameTemplate: string;
+  metadataGroups: MetadataGroup[]; // written to JPEG and PNG only
 }
 
 export interface FirebaseConfig {
@@ -35,7 +432,6 @@ export interface FirebaseConfig {
   storageBucket: string;
   messagingSenderId: string;
   appId: string;
-  adminEmail?: string;
 }
 
 type TranslationObject = typeof translations.en;
@@ -9,7 +9,9 @@ export default defineConfig(({ mode }) => {
     define: {
       // 將 GitHub Secrets 中的 API_KEY 注入到程式碼中
       // 優先讀取系統環境變數 (GitHub Actions), 其次讀取 .env 檔案
-      'process.env.API_KEY': JSON.stringify(process.env.API_KEY || env.API_KEY || '')
+      'process.env.API_KEY': JSON.stringify(process.env.API_KEY || env.API_KEY || ''),
+      // 設定後連線至本機 Firebase Emulator (例如 localhost)，用於測試點數帳本
+      'process.env.FIREBASE_EMULATOR_HOST': JSON.stringify(process.env.FIREBASE_EMULATOR_HOST || env.FIREBASE_EMULATOR_HOST || '')
     },
     build: {
       outDir: 'dist',